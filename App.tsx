@@ -6,12 +6,25 @@ import FileUpload from './components/FileUpload';
 import DetailModal from './components/DetailModal';
 import SettingsModal from './components/SettingsModal';
 import PdfViewerModal from './components/PdfViewerModal';
+import SearchBar from './components/SearchBar';
+import GalleryView from './components/GalleryView';
 import ComparisonModal from './components/ComparisonModal';
 import ImageModal from './components/ImageModal';
 import AuthPage from './components/AuthPage';
-import { analyzePaperWithGemini, comparePapersWithGemini } from './services/geminiService';
-import { savePaperToDB, getPapersFromDB, deletePaperFromDB, getBannerFromServer, saveBannerToServer, checkBackendHealth } from './services/db';
-import { PaperData, AnalysisColumn, LLMSettings, DEFAULT_SETTINGS, ComparisonResult, Highlight } from './types';
+import WorkspaceModal from './components/WorkspaceModal';
+import TrashView from './components/TrashView';
+import ColumnMenu from './components/ColumnMenu';
+import { requestAnalysis, comparePapersWithGemini } from './services/geminiService';
+import { createPaperInDB, patchPaperInDB, uploadPaperFile, getPapersFromDB, getPaperFromDB, deletePaperFromDB, revertAnalysisRevision, paperFileUrl, checkBackendHealth } from './services/db';
+import { getCurrentUser, logoutUser } from './services/auth';
+import { getWorkspaces } from './services/workspaces';
+import { getPreferences, savePreferences } from './services/preferences';
+import { renderPdfThumbnail, uploadThumbnail } from './services/thumbnails';
+import { uploadScreenshot, updateScreenshotCaption, reorderScreenshots, deleteScreenshot } from './services/screenshots';
+import { getStorageStats, formatBytes } from './services/storage';
+import { subscribeToLibrary } from './services/events';
+import { saveLibrarySnapshot, loadLibrarySnapshot, saveOfflineValue, loadOfflineValue, rememberLastUser, getLastUser, queueMutation, getQueuedMutations, removeQueuedMutation, dropQueuedMutationsForPaper, clearOfflineData } from './services/offline';
+import { PaperData, AnalysisColumn, LLMSettings, DEFAULT_SETTINGS, ComparisonResult, Highlight, Workspace, DuplicatePaper, SearchHit, AnalysisResult, AnalysisRevision, Screenshot, UserPreferences, UiPreferences, ViewMode, LibraryEvent, UploadResult, OfflineMutation, QueuedMutation, SyncConflict, AnalysisChanges, PaperChanges } from './types';
 
 // Default column widths
 const DEFAULT_WIDTHS: Record<string, number> = {
@@ -56,26 +69,144 @@ const getTagStyle = (tag: string) => {
   return TAG_COLORS[index];
 };
 
-type AnalysisTask = {
-  id: string;
-  file: File | Blob | string;
-  settings: LLMSettings;
+// Paper fields the client edits and sends through PATCH /api/papers/:id
+// (screenshots have their own routes, see services/screenshots)
+const EDITABLE_FIELDS = ['fileName', 'tags', 'highlights', 'analysis'] as const;
+type EditableField = typeof EDITABLE_FIELDS[number];
+const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+  fileName: '文件名',
+  tags: '标签',
+  highlights: '高亮与笔记',
+  analysis: '分析内容',
 };
+// Fields sent as a whole value; analysis is sent as its changed keys
+type WholeField = Exclude<EditableField, 'analysis'>;
+type FieldValue<F extends EditableField> = Partial<PaperData>[F];
+
+const pickFields = <F extends EditableField>(fields: readonly F[], from: Partial<PaperData>): Partial<Pick<PaperData, F>> => {
+  const picked: Partial<Pick<PaperData, F>> = {};
+  fields.forEach(field => { picked[field] = from[field]; });
+  return picked;
+};
+const pickEditableFields = (paper: PaperData): Partial<PaperData> => pickFields(EDITABLE_FIELDS, paper);
 
-const MAX_PARALLEL_ANALYSES = 2;
-const PAPERS_PER_PAGE = 8;
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
 
-const App: React.FC = () => {
-  // Auth State
-  const [currentUser, setCurrentUser] = useState<string | null>(() => {
-    return localStorage.getItem('paperScope_currentUser');
+// Analysis keys that differ between two versions; removed keys map to null
+const diffAnalysis = (base: AnalysisResult | null | undefined, local: AnalysisResult | null | undefined): AnalysisChanges => {
+  const before: Record<string, unknown> = base || {};
+  const after: Record<string, unknown> = local || {};
+  const changes: Record<string, unknown> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (!sameValue(before[key], after[key])) changes[key] = after[key] ?? null;
+  });
+  return changes as AnalysisChanges;
+};
+
+const applyAnalysisChanges = (analysis: AnalysisResult | null | undefined, changes: AnalysisChanges | null | undefined): AnalysisResult | null => {
+  if (!changes) return analysis ?? null;
+  const next: Record<string, unknown> = { ...(analysis || {}) };
+  Object.entries(changes).forEach(([key, value]) => {
+    if (value === null) delete next[key];
+    else next[key] = value;
   });
+  return next as unknown as AnalysisResult;
+};
+
+// PATCH body for `fields` that differ from `base`; analysis only carries its changed keys
+const buildPaperChanges = (fields: readonly EditableField[], base: Partial<PaperData>, local: Partial<PaperData>): PaperChanges => {
+  const changed = fields.filter((field): field is WholeField => field !== 'analysis' && !sameValue(local[field], base[field]));
+  const changes: PaperChanges = pickFields(changed, local);
+  if (fields.includes('analysis')) {
+    const analysis = diffAnalysis(base.analysis, local.analysis);
+    if (Object.keys(analysis).length > 0) changes.analysis = analysis;
+  }
+  return changes;
+};
+
+// How local edits to a field are re-applied on top of a newer server value:
+// analysis per key, tags per tag and highlights per highlight id
+const REBASE_RULES: { [F in EditableField]?: (base: FieldValue<F>, local: FieldValue<F>, server: FieldValue<F>) => FieldValue<F> } = {
+  analysis: (base, local, server) => applyAnalysisChanges(server, diffAnalysis(base, local)),
+  tags: (before = [], after = [], theirs = []) => [
+    ...theirs.filter(tag => !before.includes(tag) || after.includes(tag)),
+    ...after.filter(tag => !before.includes(tag) && !theirs.includes(tag)),
+  ],
+  highlights: (base = [], local = [], server = []) => {
+    const before = new Map(base.map(h => [h.id, h]));
+    const after = new Map(local.map(h => [h.id, h]));
+    const theirIds = new Set(server.map(h => h.id));
+    return [
+      ...server
+        .filter(h => !before.has(h.id) || after.has(h.id))
+        .map(h => (after.has(h.id) && !sameValue(after.get(h.id), before.get(h.id)) ? after.get(h.id)! : h)),
+      ...local.filter(h => !before.has(h.id) && !theirIds.has(h.id)),
+    ];
+  },
+};
+
+// Re-applies the local edits to a field (`local` against `base`) on top of a newer server value
+const rebaseField = <F extends EditableField>(field: F, base: FieldValue<F>, local: FieldValue<F>, server: FieldValue<F>): FieldValue<F> => {
+  if (sameValue(base, server)) return local;
+  const rebase = REBASE_RULES[field];
+  return rebase ? rebase(base, local, server) : local;
+};
+
+// Fields without a rule conflict when both sides changed the whole value
+const CONFLICT_RULES: { [F in EditableField]?: (base: FieldValue<F>, local: FieldValue<F>, server: FieldValue<F>) => string[] } = {
+  analysis: (base, local, server) => {
+    const mine = diffAnalysis(base, local) as Record<string, unknown>;
+    const theirs = diffAnalysis(base, server) as Record<string, unknown>;
+    return Object.keys(mine)
+      .filter(key => key in theirs && !sameValue(mine[key], theirs[key]))
+      .map(key => `analysis.${key}`);
+  },
+  tags: () => [], // Added and removed tags always combine
+  highlights: (base, local, server) => {
+    const byId = (list: Highlight[] | undefined) => new Map((list || []).map(h => [h.id, h]));
+    const before = byId(base);
+    const after = byId(local);
+    const theirs = byId(server);
+    const clash = [...before.keys()].some(id => !sameValue(after.get(id), before.get(id))
+      && !sameValue(theirs.get(id), before.get(id))
+      && !sameValue(after.get(id), theirs.get(id)));
+    return clash ? ['highlights'] : [];
+  },
+};
+
+// What both sides changed to different values, as field names or "analysis.<key>".
+// `rebaseField` keeps the local value for these, except highlights the server deleted.
+const conflictingEdits = <F extends EditableField>(field: F, base: FieldValue<F>, local: FieldValue<F>, server: FieldValue<F>): string[] => {
+  const conflicts = CONFLICT_RULES[field];
+  if (conflicts) return conflicts(base, local, server);
+  return !sameValue(local, base) && !sameValue(server, base) && !sameValue(local, server) ? [field] : [];
+};
+
+// "analysis.method" -> "分析内容（method）"
+const describeConflictField = (name: string) => {
+  const [field, key] = name.split('.');
+  const label = EDITABLE_FIELD_LABELS[field as EditableField] || field;
+  return key ? `${label}（${key}）` : label;
+};
+
+const MAX_CONFLICT_RETRIES = 3;
+const PAGE_SIZE_OPTIONS = [8, 20, 50];
+// Layout changes (column widths, tab, ...) are saved once they have settled for this long
+const PREFERENCES_SAVE_DELAY_MS = 1000;
+// Same for the offline copy of the open library
+const SNAPSHOT_SAVE_DELAY_MS = 1000;
+
+const App: React.FC = () => {
+  // Auth State (session cookie is validated by the server)
+  const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [isRestoringSession, setIsRestoringSession] = useState<boolean>(true);
 
   const [papers, setPapers] = useState<PaperData[]>([]);
   const [selectedPaperIds, setSelectedPaperIds] = useState<Set<string>>(new Set());
   const [settings, setSettings] = useState<LLMSettings>(DEFAULT_SETTINGS);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>(DEFAULT_WIDTHS);
+  const [hiddenColumns, setHiddenColumns] = useState<string[]>([]);
   
   // Backend Health State
   const [isConnected, setIsConnected] = useState<boolean>(true);
@@ -84,9 +215,19 @@ const App: React.FC = () => {
   // Banner State
   const [bannerImage, setBannerImage] = useState<string>('/banner.jpg');
   
+  // Workspace State (null = personal library)
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [isWorkspaceModalOpen, setIsWorkspaceModalOpen] = useState(false);
+
   // Grouping/Tagging State
   const [activeTab, setActiveTab] = useState<string>('All');
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
   const [currentPage, setCurrentPage] = useState<number>(1);
+  const [pageSize, setPageSize] = useState<number>(PAGE_SIZE_OPTIONS[0]);
+
+  // Layout last loaded from or saved to the server (JSON), null until preferences are loaded
+  const savedUiRef = useRef<string | null>(null);
   
   // Tag Editing State
   const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
@@ -104,13 +245,13 @@ const App: React.FC = () => {
   });
 
   // PDF Viewer State
-  const [pdfViewer, setPdfViewer] = useState<{ isOpen: boolean; paper: PaperData | null }>({
+  const [pdfViewer, setPdfViewer] = useState<{ isOpen: boolean; paper: PaperData | null; page?: number }>({
     isOpen: false,
     paper: null,
   });
 
   // Image Modal State
-  const [imageModal, setImageModal] = useState<{ isOpen: boolean; url: string | null }>({
+  const [imageModal, setImageModal] = useState<{ isOpen: boolean; url: string | null; caption?: string }>({
     isOpen: false,
     url: null,
   });
@@ -136,9 +277,25 @@ const App: React.FC = () => {
   const papersRef = useRef<PaperData[]>([]);
   const syncInFlightRef = useRef<Set<string>>(new Set());
   const syncPendingRef = useRef<Map<string, PaperData>>(new Map());
-  const analysisQueueRef = useRef<AnalysisTask[]>([]);
-  const analysisQueuedIdsRef = useRef<Set<string>>(new Set());
-  const activeAnalysisCountRef = useRef(0);
+  const uploadedFileIdsRef = useRef<Set<string>>(new Set());
+  // Papers a thumbnail was already rendered (or attempted) for in this session
+  const thumbnailAttemptedRef = useRef<Set<string>>(new Set());
+  const isBackfillingThumbnailsRef = useRef(false);
+  // Last copy confirmed by the server, and fields edited locally since then
+  const serverPapersRef = useRef<Map<string, PaperData>>(new Map());
+  const dirtyFieldsRef = useRef<Map<string, Set<EditableField>>>(new Map());
+
+  // Offline mode: changes waiting in IndexedDB, and what replaying them ran into
+  const [queuedChangeCount, setQueuedChangeCount] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  // Set while anything is queued or being replayed; new changes then queue behind it
+  const hasQueuedChangesRef = useRef(false);
+  const queuedCreateIdsRef = useRef<Set<string>>(new Set());
+  // Latest queued value of each edited field (and analysis key), the base of the next offline edit
+  const queuedValuesRef = useRef<Map<string, PaperChanges>>(new Map());
+  const replayPromiseRef = useRef<Promise<void> | null>(null);
+  // "<user>|<workspace>" whose papers `papers` holds; null while a library is loading
+  const loadedLibraryRef = useRef<string | null>(null);
 
   useEffect(() => {
       papersRef.current = papers;
@@ -153,32 +310,290 @@ const App: React.FC = () => {
       return healthy;
   };
 
+  // Restore an existing session on startup. Without a server the session cannot be
+  // checked, so the last signed-in user's library is reopened offline.
+  useEffect(() => {
+      getCurrentUser().then(async username => {
+          if (!username && !(await checkBackendHealth())) username = await getLastUser();
+          setCurrentUser(username);
+          setIsRestoringSession(false);
+      });
+  }, []);
+
   // Initial Check
   useEffect(() => {
       performHealthCheck();
       const interval = setInterval(performHealthCheck, 30000);
-      return () => clearInterval(interval);
+      // Check right away when the browser regains its network
+      window.addEventListener('online', performHealthCheck);
+      return () => {
+          clearInterval(interval);
+          window.removeEventListener('online', performHealthCheck);
+      };
   }, []);
 
-  // Load papers and banner from Server on startup
+  useEffect(() => {
+      if (!currentUser) return;
+      void rememberLastUser(currentUser);
+      void refreshQueueState(currentUser);
+  }, [currentUser]);
+
+  // Load preferences and workspaces from Server on startup; offline, the last copy of them
+  useEffect(() => {
+    if (!currentUser) return;
+    if (!isConnected) {
+        if (savedUiRef.current !== null) return;
+        loadOfflineValue<UserPreferences>(currentUser, 'preferences').then(prefs => { if (prefs) applyPreferences(prefs); });
+        loadOfflineValue<Workspace[]>(currentUser, 'workspaces').then(list => { if (list) setWorkspaces(list); });
+        return;
+    }
+    savedUiRef.current = null;
+    getPreferences().then(prefs => {
+        if (!prefs) return;
+        applyPreferences(prefs);
+        void saveOfflineValue(currentUser, 'preferences', prefs);
+    });
+    getWorkspaces().then(list => {
+        setWorkspaces(list);
+        void saveOfflineValue(currentUser, 'workspaces', list);
+    });
+  }, [currentUser, isConnected]);
+
+  const applyPreferences = (prefs: UserPreferences) => {
+      const ui: Required<UiPreferences> = {
+          columnWidths: { ...DEFAULT_WIDTHS, ...prefs.ui.columnWidths },
+          hiddenColumns: prefs.ui.hiddenColumns || [],
+          activeTab: prefs.ui.activeTab || 'All',
+          pageSize: PAGE_SIZE_OPTIONS.includes(prefs.ui.pageSize ?? 0) ? prefs.ui.pageSize! : PAGE_SIZE_OPTIONS[0],
+          viewMode: prefs.ui.viewMode || 'table',
+      };
+      savedUiRef.current = JSON.stringify(ui);
+      setSettings({ ...DEFAULT_SETTINGS, ...prefs.llm, apiKey: '' });
+      setColumnWidths(ui.columnWidths);
+      setHiddenColumns(ui.hiddenColumns);
+      setActiveTab(ui.activeTab);
+      setPageSize(ui.pageSize);
+      setViewMode(ui.viewMode);
+      setBannerImage(prefs.banner);
+  };
+
+  useEffect(() => {
+      if (savedUiRef.current === null) return;
+      const ui: Required<UiPreferences> = { columnWidths, hiddenColumns, activeTab, pageSize, viewMode };
+      const serialized = JSON.stringify(ui);
+      if (serialized === savedUiRef.current) return;
+
+      const timer = setTimeout(() => {
+          savePreferences({ ui })
+              .then(() => { savedUiRef.current = serialized; })
+              .catch(e => console.warn("Failed to save preferences:", e));
+      }, PREFERENCES_SAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [columnWidths, hiddenColumns, activeTab, pageSize, viewMode]);
+
+  // A newly typed API key is only kept in memory until the server has stored it
+  const handleSaveSettings = async (next: LLMSettings) => {
+      setSettings(next);
+      const { apiKey, hasApiKey, ...llm } = next;
+      try {
+          const saved = await savePreferences({
+              llm: apiKey ? { ...llm, apiKey } : hasApiKey ? llm : { ...llm, apiKey: '' },
+          });
+          setSettings({ ...DEFAULT_SETTINGS, ...saved.llm, apiKey: '' });
+      } catch (error: any) {
+          alert(`保存模型设置失败：${error.message}`);
+      }
+  };
+
+  // Load papers of the active library (bump libraryVersion to force a reload)
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const reloadPapers = () => setLibraryVersion(v => v + 1);
+
+  // Changes made offline are replayed first, so the list loaded afterwards contains them.
+  // Without a server the copy saved the last time this library was open is shown.
   useEffect(() => {
     if (currentUser) {
-        if (!isConnected) return; // Don't try to fetch if we know it's down
-        
-        getBannerFromServer().then(setBannerImage);
-        getPapersFromDB(currentUser).then(storedPapers => {
-            const sorted = storedPapers.sort((a, b) => b.uploadTime - a.uploadTime);
+        const libraryKey = `${currentUser}|${activeWorkspaceId || ''}`;
+        // Losing the connection keeps the list that is already on screen
+        if (!isConnected && loadedLibraryRef.current === libraryKey) return;
+
+        let isCancelled = false;
+        loadedLibraryRef.current = null;
+        (async () => {
+            if (isConnected) await flushOfflineQueue();
+            const storedPapers = isConnected ? await getPapersFromDB(activeWorkspaceId) : null;
+            if (isCancelled) return;
+
+            let loaded: PaperData[];
+            if (storedPapers) {
+                storedPapers.forEach(rememberServerPaper);
+                const storedIds = new Set(storedPapers.map(p => p.id));
+                // Papers this tab has not finished saving are not on the server yet
+                const unsaved = papersRef.current.filter(p => !storedIds.has(p.id)
+                    && (p.workspaceId || null) === activeWorkspaceId
+                    && (syncInFlightRef.current.has(p.id) || p.saveStatus === 'queued'));
+                loaded = [...storedPapers, ...unsaved];
+            } else {
+                const snapshot = await loadLibrarySnapshot(currentUser, activeWorkspaceId);
+                if (isCancelled) return;
+                snapshot?.serverCopies.forEach(rememberServerPaper);
+                loaded = snapshot?.papers || [];
+            }
+
+            const sorted = loaded.sort((a, b) => b.uploadTime - a.uploadTime);
             setPapers(sorted);
             papersRef.current = sorted;
-        });
+            loadedLibraryRef.current = libraryKey;
+            // A restored tag tab may not exist in this library
+            setActiveTab(prev => (['All', 'Uncategorized', 'Trash'].includes(prev) || sorted.some(p => p.tags?.includes(prev)) ? prev : 'All'));
+        })();
+        return () => { isCancelled = true; };
     } else {
         setPapers([]);
         papersRef.current = [];
+        loadedLibraryRef.current = null;
     }
-  }, [currentUser, isConnected]);
+  }, [currentUser, isConnected, activeWorkspaceId, libraryVersion]);
+
+  // Keeps the offline copy of the open library current
+  useEffect(() => {
+      if (!currentUser || loadedLibraryRef.current !== `${currentUser}|${activeWorkspaceId || ''}`) return;
+      const timer = setTimeout(() => {
+          const serverCopies = papers
+              .map(p => serverPapersRef.current.get(p.id))
+              .filter((p): p is PaperData => !!p);
+          void saveLibrarySnapshot(currentUser, activeWorkspaceId, papers, serverCopies);
+      }, SNAPSHOT_SAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [papers]);
+
+  const activeWorkspace = useMemo(
+      () => workspaces.find(w => w.id === activeWorkspaceId) || null,
+      [workspaces, activeWorkspaceId]
+  );
+  const isReadOnly = activeWorkspace?.role === 'viewer';
+
+  const switchWorkspace = (workspaceId: string | null) => {
+      if (workspaceId === activeWorkspaceId) return;
+      setActiveWorkspaceId(workspaceId);
+      setActiveTab('All');
+      setSelectedPaperIds(new Set());
+      setEditingTagsId(null);
+  };
+
+  const handleWorkspaceCreated = (workspace: Workspace) => {
+      setWorkspaces(prev => [...prev, workspace]);
+      switchWorkspace(workspace.id);
+  };
+
+  const handleWorkspaceUpdated = (workspace: Workspace) => {
+      setWorkspaces(prev => prev.map(w => w.id === workspace.id ? workspace : w));
+  };
+
+  const handleWorkspaceRemoved = (workspaceId: string) => {
+      setWorkspaces(prev => prev.filter(w => w.id !== workspaceId));
+      if (activeWorkspaceId === workspaceId) switchWorkspace(null);
+      setIsWorkspaceModalOpen(false);
+  };
+
+  const rememberServerPaper = (paper: PaperData) => {
+      serverPapersRef.current.set(paper.id, paper);
+  };
+
+  // Records which editable fields differ from the server copy the edit was based on
+  const markDirtyFields = (paper: PaperData) => {
+      const base = serverPapersRef.current.get(paper.id);
+      const dirty = dirtyFieldsRef.current.get(paper.id) || new Set<EditableField>();
+      EDITABLE_FIELDS.forEach(field => {
+          if (!base || !sameValue(paper[field], base[field])) dirty.add(field);
+      });
+      dirtyFieldsRef.current.set(paper.id, dirty);
+  };
+
+  // After a save, fields whose local value now matches the server are clean again
+  const settleDirtyFields = (id: string) => {
+      const base = serverPapersRef.current.get(id);
+      const local = papersRef.current.find(p => p.id === id);
+      const dirty = dirtyFieldsRef.current.get(id);
+      if (!base || !local || !dirty) return;
+      dirty.forEach(field => {
+          if (sameValue(local[field], base[field])) dirty.delete(field);
+      });
+  };
+
+  // Takes over a newer server copy without losing local edits that are not saved yet;
+  // those are re-applied on top of the server values
+  const applyServerPaper = (serverPaper: PaperData) => {
+      const previous = serverPapersRef.current.get(serverPaper.id);
+      rememberServerPaper(serverPaper);
+      const dirty = dirtyFieldsRef.current.get(serverPaper.id) || new Set<EditableField>();
+      const merge = (p: PaperData): PaperData => {
+          const next: PaperData = {
+              ...p,
+              version: serverPaper.version,
+              status: serverPaper.status,
+              errorMessage: serverPaper.errorMessage,
+              screenshots: serverPaper.screenshots,
+              thumbnail: serverPaper.thumbnail,
+              fileHash: serverPaper.fileHash,
+              // A local Blob stays until this tab's own upload has finished
+              file: typeof p.file === 'string' ? serverPaper.file : p.file,
+          };
+          if (serverPaper.status !== 'analyzing') next.jobState = undefined;
+          const rebased = pickFields(EDITABLE_FIELDS.filter(field => !dirty.has(field)), serverPaper);
+          if (previous) {
+              EDITABLE_FIELDS.filter(field => dirty.has(field)).forEach(<F extends EditableField>(field: F) => {
+                  rebased[field] = rebaseField(field, previous[field], p[field], serverPaper[field]);
+              });
+          }
+          return { ...next, ...rebased };
+      };
+      updatePaperLocally(serverPaper.id, merge);
+      const pending = syncPendingRef.current.get(serverPaper.id);
+      if (pending) syncPendingRef.current.set(serverPaper.id, merge(pending));
+  };
+
+  // Creates new papers; for existing ones PATCHes only the locally edited fields (and
+  // analysis keys) against the last known version. On a conflict the server copy becomes
+  // the new base and the local edits are re-applied on top of it.
+  const pushPaperChanges = async (paper: PaperData) => {
+      let base = serverPapersRef.current.get(paper.id);
+      if (!base) {
+          const created = await createPaperInDB(paper);
+          rememberServerPaper(created.paper);
+          base = created.paper;
+          settleDirtyFields(paper.id);
+      }
+
+      for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+          const dirty = dirtyFieldsRef.current.get(paper.id);
+          if (!dirty || dirty.size === 0) return;
+
+          const local = papersRef.current.find(p => p.id === paper.id) || paper;
+          const changes = buildPaperChanges([...dirty], base, local);
+          if (Object.keys(changes).length === 0) {
+              settleDirtyFields(paper.id);
+              return;
+          }
+
+          const result = await patchPaperInDB(paper.id, changes, base.version ?? 1);
+          if (!result.conflict) {
+              rememberServerPaper(result.paper);
+              updatePaperLocally(paper.id, p => ({ ...p, version: result.paper.version }));
+              settleDirtyFields(paper.id);
+              return;
+          }
+
+          console.warn(`Paper ${paper.id} changed on the server; re-applying local edits`);
+          applyServerPaper(result.paper);
+          base = result.paper;
+      }
+      throw new Error("Paper keeps changing on the server, please try again");
+  };
 
   // Helper to sync state to DB
   const syncPaperToDB = async (paper: PaperData) => {
+      markDirtyFields(paper);
       syncPendingRef.current.set(paper.id, paper);
       if (syncInFlightRef.current.has(paper.id)) return;
 
@@ -197,23 +612,40 @@ const App: React.FC = () => {
                   }
               }
 
-              if (!healthy) {
-                  setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, saveStatus: 'error' } : p));
+              if (!healthy || hasQueuedChangesRef.current) {
+                  await keepChangesOffline(pendingPaper);
                   continue;
               }
 
               setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, saveStatus: 'saving' } : p));
 
               try {
-                  await savePaperToDB(pendingPaper);
+                  await pushPaperChanges(pendingPaper);
+
+                  // Stream the PDF once the metadata row exists, then analyze it
+                  // unless it turns out to duplicate a paper we already have
+                  if (pendingPaper.file instanceof Blob && !uploadedFileIdsRef.current.has(paper.id)) {
+                      const upload = await uploadPaperFile(paper.id, pendingPaper.file, (percent) => {
+                          setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, uploadProgress: percent } : p));
+                      });
+                      if (!finishUpload(pendingPaper, pendingPaper.file, upload)) continue;
+                  }
+
                   setPapers(prev => prev.map(p => {
                       if (p.id !== paper.id) return p;
-                      const storedFile = typeof p.file === 'string' ? p.file : `/api/files/${p.id}.pdf`;
-                      return { ...p, file: storedFile, saveStatus: 'saved' };
+                      const storedFile = typeof p.file === 'string' ? p.file : paperFileUrl(p.id, p.fileHash);
+                      return { ...p, file: storedFile, saveStatus: 'saved', saveError: undefined, uploadProgress: undefined };
                   }));
               } catch (e) {
+                  // The server went away halfway: keep the rest of the change offline
+                  if (!(await checkBackendHealth())) {
+                      setIsConnected(false);
+                      await keepChangesOffline(pendingPaper);
+                      continue;
+                  }
                   console.error("Sync failed for", pendingPaper.fileName, e);
-                  setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, saveStatus: 'error' } : p));
+                  const saveError = e instanceof Error ? e.message : String(e);
+                  setPapers(prev => prev.map(p => p.id === paper.id ? { ...p, saveStatus: 'error', saveError, uploadProgress: undefined } : p));
               }
           }
       } finally {
@@ -227,45 +659,366 @@ const App: React.FC = () => {
       }
   };
 
+  // After a PDF is stored: offers to merge it into an existing copy, otherwise analyzes
+  // it and renders its thumbnail. Returns false if the paper was merged away.
+  const finishUpload = (paper: PaperData, file: Blob, upload: UploadResult) => {
+      uploadedFileIdsRef.current.add(paper.id);
+      updatePaperLocally(paper.id, p => ({ ...p, fileHash: upload.fileHash }));
+      if (upload.duplicates.length > 0 && mergeDuplicateUpload(paper, upload.duplicates)) return false;
+      void enqueueAnalysis(paper.id, settings);
+      thumbnailAttemptedRef.current.add(paper.id);
+      void generateThumbnail(paper.id, file);
+      return true;
+  };
+
+  // --- Offline queue ---
+  // While the server is unreachable, and until everything queued has been replayed,
+  // changes are stored in IndexedDB in the order they were made.
+
+  const refreshQueueState = async (owner: string) => {
+      const entries = await getQueuedMutations(owner);
+      const values = new Map<string, PaperChanges>();
+      entries.forEach(({ paperId, mutation }) => {
+          if (mutation.kind === 'delete') return;
+          const previous = values.get(paperId);
+          const changes = mutation.kind === 'create' ? pickEditableFields(mutation.paper) as PaperChanges : mutation.changes;
+          const next = { ...previous, ...changes };
+          if (previous?.analysis && changes.analysis) next.analysis = { ...previous.analysis, ...changes.analysis };
+          values.set(paperId, next);
+      });
+      queuedCreateIdsRef.current = new Set(entries.filter(e => e.mutation.kind === 'create').map(e => e.paperId));
+      queuedValuesRef.current = values;
+      hasQueuedChangesRef.current = entries.length > 0 || replayPromiseRef.current !== null;
+      setQueuedChangeCount(entries.length);
+  };
+
+  const queueOfflineChange = async (paperId: string, fileName: string, mutation: OfflineMutation) => {
+      if (!currentUser) return;
+      hasQueuedChangesRef.current = true;
+      await queueMutation({ owner: currentUser, paperId, fileName, queuedAt: Date.now(), mutation });
+      await refreshQueueState(currentUser);
+  };
+
+  // Queues what the paper still has to send: all of it (with the PDF) if the server has
+  // never stored it, otherwise the fields that differ from the last saved or queued value
+  const queuePaperChanges = async (paper: PaperData) => {
+      const local = papersRef.current.find(p => p.id === paper.id) || paper;
+      const base = serverPapersRef.current.get(paper.id);
+      const needsUpload = local.file instanceof Blob && !uploadedFileIdsRef.current.has(paper.id);
+
+      if ((!base || needsUpload) && !queuedCreateIdsRef.current.has(paper.id)) {
+          await queueOfflineChange(paper.id, local.fileName, {
+              kind: 'create',
+              paper: { ...local, saveStatus: undefined, saveError: undefined, uploadProgress: undefined },
+          });
+      } else {
+          const queued = queuedValuesRef.current.get(paper.id);
+          const known: Partial<PaperData> = {
+              ...(base ? pickEditableFields(base) : {}),
+              ...queued,
+              analysis: applyAnalysisChanges(base?.analysis, queued?.analysis),
+          };
+          const changes = buildPaperChanges(EDITABLE_FIELDS, known, local);
+          const fields = Object.keys(changes) as EditableField[];
+          if (fields.length > 0) {
+              await queueOfflineChange(paper.id, local.fileName, { kind: 'patch', changes, base: pickFields(fields, known), baseVersion: base?.version });
+          }
+      }
+      dirtyFieldsRef.current.delete(paper.id);
+      updatePaperLocally(paper.id, p => ({ ...p, saveStatus: 'queued', saveError: undefined, uploadProgress: undefined }));
+  };
+
+  const keepChangesOffline = async (paper: PaperData) => {
+      try {
+          await queuePaperChanges(paper);
+      } catch (e) {
+          console.error("Could not keep offline changes for", paper.fileName, e);
+          const saveError = e instanceof Error ? e.message : String(e);
+          updatePaperLocally(paper.id, p => ({ ...p, saveStatus: 'error', saveError }));
+      }
+  };
+
+  const queuePaperDeletion = async (id: string, fileName: string, permanent: boolean, reachedServer: boolean) => {
+      if (!currentUser) return;
+      try {
+          // A paper created offline only has to be taken out of the queue
+          if (!reachedServer && queuedCreateIdsRef.current.has(id)) {
+              await dropQueuedMutationsForPaper(currentUser, id);
+              await refreshQueueState(currentUser);
+          } else {
+              await queueOfflineChange(id, fileName, { kind: 'delete', permanent });
+          }
+      } catch (e) {
+          console.error("Could not keep the deletion offline:", e);
+      }
+  };
+
+  // One replay at a time; later callers wait for the running one
+  const flushOfflineQueue = (): Promise<void> => {
+      if (!replayPromiseRef.current) {
+          replayPromiseRef.current = replayOfflineQueue().finally(() => {
+              replayPromiseRef.current = null;
+              if (currentUser) void refreshQueueState(currentUser);
+          });
+      }
+      return replayPromiseRef.current;
+  };
+
+  // Sends the queued changes oldest first, including ones queued while it runs. Stops,
+  // keeping the rest, if the server goes away again. Changes the server refuses are
+  // dropped; they are reported together with edits that replaced someone else's.
+  const replayOfflineQueue = async () => {
+      if (!currentUser) return;
+      let entries = await getQueuedMutations(currentUser);
+      if (entries.length === 0) return;
+
+      hasQueuedChangesRef.current = true;
+      const conflicts: SyncConflict[] = [];
+      const replayed = new Map<string, string | undefined>(); // paper id -> error, if refused
+      try {
+          while (entries.length > 0) {
+              for (const entry of entries) {
+                  try {
+                      const conflict = await replayMutation(entry);
+                      if (conflict) conflicts.push(conflict);
+                      if (!replayed.has(entry.paperId)) replayed.set(entry.paperId, undefined);
+                  } catch (e: any) {
+                      if (!(await checkBackendHealth())) {
+                          setIsConnected(false);
+                          return;
+                      }
+                      const message = e.message || String(e);
+                      replayed.set(entry.paperId, message);
+                      conflicts.push({ paperId: entry.paperId, fileName: entry.fileName, kind: 'rejected', message });
+                  }
+                  await removeQueuedMutation(entry.seq!);
+              }
+              entries = await getQueuedMutations(currentUser);
+          }
+      } finally {
+          if (conflicts.length > 0) setSyncConflicts(prev => [...prev, ...conflicts]);
+          const stillQueued = new Set((await getQueuedMutations(currentUser)).map(e => e.paperId));
+          replayed.forEach((saveError, id) => {
+              if (stillQueued.has(id)) return;
+              updatePaperLocally(id, p => (p.saveStatus === 'queued'
+                  ? { ...p, saveStatus: saveError ? 'error' : 'saved', saveError, uploadProgress: undefined }
+                  : p));
+          });
+      }
+  };
+
+  // Resolves to a conflict worth reporting, or null; throws if the server refused the change
+  const replayMutation = async ({ paperId, fileName, mutation }: QueuedMutation): Promise<SyncConflict | null> => {
+      if (mutation.kind === 'delete') {
+          const reached = await deletePaperFromDB(paperId, mutation.permanent).catch(async (error: Error) => {
+              // Refused: the paper comes back if the server still lists it in the open library
+              const stored = await getPaperFromDB(paperId);
+              if (stored && !stored.deletedAt && loadedLibraryRef.current === `${currentUser}|${stored.workspaceId || ''}`) {
+                  handlePaperRestored(stored);
+              }
+              throw error;
+          });
+          if (!reached) throw new Error("Server unreachable");
+          return null;
+      }
+
+      if (mutation.kind === 'create') {
+          const { paper } = mutation;
+          const created = await createPaperInDB(paper);
+          let stored = created.paper;
+          if (created.alreadyExisted) {
+              // Stored before the connection dropped; send the fields edited since
+              const changes = buildPaperChanges(EDITABLE_FIELDS, stored, paper);
+              if (Object.keys(changes).length > 0) stored = (await patchPaperInDB(paperId, changes, stored.version ?? 1)).paper;
+          }
+          rememberServerPaper(stored);
+          if (paper.file instanceof Blob && !stored.fileHash) {
+              const upload = await uploadPaperFile(paperId, paper.file, (percent) => {
+                  updatePaperLocally(paperId, p => ({ ...p, uploadProgress: percent }));
+              });
+              if (!finishUpload(paper, paper.file, upload)) return null;
+          }
+          updatePaperLocally(paperId, p => ({
+              ...p,
+              version: stored.version,
+              file: typeof p.file === 'string' ? p.file : paperFileUrl(p.id, p.fileHash),
+          }));
+          return null;
+      }
+
+      const { base } = mutation;
+      const edited = { ...mutation.changes, analysis: applyAnalysisChanges(base.analysis, mutation.changes.analysis) };
+      let changes = mutation.changes;
+      let version = serverPapersRef.current.get(paperId)?.version ?? mutation.baseVersion ?? 1;
+      const overwritten: string[] = [];
+      for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+          const result = await patchPaperInDB(paperId, changes, version);
+          rememberServerPaper(result.paper);
+          if (!result.conflict) {
+              updatePaperLocally(paperId, p => ({ ...p, version: result.paper.version }));
+              return overwritten.length > 0 ? { paperId, fileName, kind: 'overwritten', fields: overwritten } : null;
+          }
+          // Saved by someone else meanwhile: the offline edits are re-applied on top of
+          // their copy. Where both changed the same value the offline one wins and is reported.
+          const fields = EDITABLE_FIELDS.filter(field => field in mutation.changes);
+          fields.forEach(field => {
+              conflictingEdits(field, base[field], edited[field], result.paper[field]).forEach(edit => {
+                  if (!overwritten.includes(edit)) overwritten.push(edit);
+              });
+          });
+          const rebased: Partial<Pick<PaperData, WholeField>> = {};
+          fields.filter((field): field is WholeField => field !== 'analysis').forEach(<F extends WholeField>(field: F) => {
+              rebased[field] = rebaseField(field, base[field], edited[field], result.paper[field]);
+          });
+          changes = { ...rebased };
+          if (mutation.changes.analysis) changes.analysis = mutation.changes.analysis;
+          version = result.paper.version ?? version;
+      }
+      throw new Error("Paper keeps changing on the server, please try again");
+  };
+
   const handleLogin = (username: string) => {
       setCurrentUser(username);
-      localStorage.setItem('paperScope_currentUser', username);
   };
 
   const handleLogout = () => {
+      if (queuedChangeCount > 0 && !window.confirm(`还有 ${queuedChangeCount} 项离线修改尚未同步，退出登录将丢弃它们。确定退出吗？`)) return;
+      if (currentUser) void clearOfflineData(currentUser);
+      void logoutUser();
       setCurrentUser(null);
-      localStorage.removeItem('paperScope_currentUser');
+      setWorkspaces([]);
+      setActiveWorkspaceId(null);
       setPapers([]);
       papersRef.current = [];
-      analysisQueueRef.current = [];
-      analysisQueuedIdsRef.current.clear();
-      activeAnalysisCountRef.current = 0;
       syncPendingRef.current.clear();
       syncInFlightRef.current.clear();
+      uploadedFileIdsRef.current.clear();
+      serverPapersRef.current.clear();
+      dirtyFieldsRef.current.clear();
+      queuedCreateIdsRef.current.clear();
+      queuedValuesRef.current.clear();
+      hasQueuedChangesRef.current = false;
+      loadedLibraryRef.current = null;
+      setQueuedChangeCount(0);
+      setSyncConflicts([]);
   };
 
-  const runAnalysisQueue = () => {
-      while (
-          activeAnalysisCountRef.current < MAX_PARALLEL_ANALYSES &&
-          analysisQueueRef.current.length > 0
-      ) {
-          const task = analysisQueueRef.current.shift();
-          if (!task) break;
+  // Analyses run in the server's job queue; status changes arrive as live events
+  const enqueueAnalysis = async (id: string, currentSettings: LLMSettings) => {
+      updatePaperLocally(id, p => ({ ...p, status: 'analyzing', errorMessage: undefined, jobState: 'queued' }));
+      try {
+          await requestAnalysis(id, currentSettings);
+      } catch (error: any) {
+          updatePaperLocally(id, p => ({ ...p, status: 'error', errorMessage: error.message || "Analysis failed", jobState: undefined }));
+      }
+  };
 
-          activeAnalysisCountRef.current += 1;
-          void processPaper(task.id, task.file, task.settings).finally(() => {
-              activeAnalysisCountRef.current = Math.max(0, activeAnalysisCountRef.current - 1);
-              analysisQueuedIdsRef.current.delete(task.id);
-              runAnalysisQueue();
-          });
+  const updatePaperLocally = (id: string, update: (paper: PaperData) => PaperData) => {
+      papersRef.current = papersRef.current.map(p => (p.id === id ? update(p) : p));
+      setPapers(prev => prev.map(p => (p.id === id ? update(p) : p)));
+  };
+
+  // Brings the list in line with the server after events were missed. Local edits
+  // are kept, and papers this tab has not finished saving are left alone.
+  const resyncPapers = async (workspaceId: string | null, isCancelled: () => boolean) => {
+      const stored = await getPapersFromDB(workspaceId);
+      if (!stored || isCancelled()) return;
+      const storedIds = new Set(stored.map(p => p.id));
+      stored.forEach(paper => {
+          if (papersRef.current.some(p => p.id === paper.id)) applyServerPaper(paper);
+          else handlePaperRestored(paper);
+      });
+      papersRef.current
+          .filter(p => !storedIds.has(p.id) && serverPapersRef.current.has(p.id) && !syncInFlightRef.current.has(p.id))
+          .forEach(p => removePaperLocally(p.id));
+  };
+
+  // Changes made by other tabs and library members; this tab's own saves come back
+  // here too and are ignored once the server copy is no newer than the one we have
+  const handleLibraryEvent = (event: LibraryEvent, workspaceId: string | null, isCancelled: () => boolean) => {
+      switch (event.type) {
+          case 'paper.created':
+          case 'paper.updated': {
+              const known = serverPapersRef.current.get(event.paper.id);
+              if (known && (known.version ?? 0) > (event.paper.version ?? 0)) return;
+              if (papersRef.current.some(p => p.id === event.paper.id)) applyServerPaper(event.paper);
+              else if (event.type === 'paper.created') handlePaperRestored(event.paper);
+              return;
+          }
+          case 'paper.deleted':
+              if (papersRef.current.some(p => p.id === event.id)) removePaperLocally(event.id);
+              return;
+          case 'analysis.status': {
+              const { id, status, errorMessage, jobState, version } = event.status;
+              const known = serverPapersRef.current.get(id);
+              if (known && (known.version ?? 0) > version) return;
+              if (known) serverPapersRef.current.set(id, { ...known, status, errorMessage, version });
+              updatePaperLocally(id, p => ({ ...p, status, errorMessage, jobState, version: Math.max(p.version ?? 0, version) }));
+              return;
+          }
+          default:
+              void resyncPapers(workspaceId, isCancelled);
+      }
+  };
+
+  useEffect(() => {
+      if (!currentUser || !isConnected) return;
+      let isCancelled = false;
+      const unsubscribe = subscribeToLibrary(activeWorkspaceId, event => handleLibraryEvent(event, activeWorkspaceId, () => isCancelled));
+      return () => {
+          isCancelled = true;
+          unsubscribe();
+      };
+  }, [currentUser, isConnected, activeWorkspaceId]);
+
+  // Renders page 1 and stores it; a failure only costs the thumbnail
+  const generateThumbnail = async (paperId: string, source: Blob | string) => {
+      try {
+          const image = await renderPdfThumbnail(source);
+          const thumbnail = await uploadThumbnail(paperId, image);
+          updatePaperLocally(paperId, p => ({ ...p, thumbnail }));
+      } catch (e) {
+          console.warn(`Could not create a thumbnail for ${paperId}:`, e);
       }
   };
 
-  const enqueueAnalysis = (id: string, file: File | Blob | string, currentSettings: LLMSettings) => {
-      if (analysisQueuedIdsRef.current.has(id)) return;
-      analysisQueuedIdsRef.current.add(id);
-      analysisQueueRef.current.push({ id, file, settings: currentSettings });
-      runAnalysisQueue();
+  // Papers stored before thumbnails existed get one in the background, one at a time
+  useEffect(() => {
+      if (!isConnected || isReadOnly || isBackfillingThumbnailsRef.current) return;
+      const missing = papers.filter(p => !p.thumbnail && p.fileHash && typeof p.file === 'string' && !thumbnailAttemptedRef.current.has(p.id));
+      if (missing.length === 0) return;
+
+      isBackfillingThumbnailsRef.current = true;
+      (async () => {
+          for (const paper of missing) {
+              if (thumbnailAttemptedRef.current.has(paper.id)) continue;
+              thumbnailAttemptedRef.current.add(paper.id);
+              await generateThumbnail(paper.id, paper.file as string);
+          }
+      })().finally(() => { isBackfillingThumbnailsRef.current = false; });
+  }, [papers, isConnected, isReadOnly]);
+
+  // Offers to fold a freshly uploaded paper into an existing paper with the same PDF.
+  // Returns true if the new paper was merged (and removed).
+  const mergeDuplicateUpload = (paper: PaperData, duplicates: DuplicatePaper[]) => {
+      const existing = papersRef.current.find(p => p.id === duplicates[0].id);
+      if (!existing) return false;
+
+      const existingLabel = existing.analysis?.title || existing.fileName;
+      const merge = window.confirm(
+          `「${paper.fileName}」与已有论文「${existingLabel}」内容完全相同。\n\n` +
+          `确定：合并到已有论文（保留其分析与标注，合并标签，不再重复分析）\n取消：仍作为新论文保留`
+      );
+      if (!merge) return false;
+
+      const mergedTags = Array.from(new Set([...(existing.tags || []), ...(paper.tags || [])]));
+      if (mergedTags.length !== (existing.tags || []).length) {
+          const updated = { ...existing, tags: mergedTags };
+          setPapers(prev => prev.map(p => p.id === existing.id ? updated : p));
+          void syncPaperToDB(updated);
+      }
+      deletePaper(paper.id, true);
+      return true;
   };
 
   const handleBannerUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -275,7 +1028,7 @@ const App: React.FC = () => {
           reader.onload = (event) => {
               const result = event.target?.result as string;
               setBannerImage(result);
-              saveBannerToServer(result); 
+              savePreferences({ banner: result }).catch(e => console.warn("Failed to save banner", e));
           };
           reader.readAsDataURL(file);
       }
@@ -294,13 +1047,13 @@ const App: React.FC = () => {
   }, [papers, activeTab]);
 
   const totalPages = useMemo(() => {
-      return Math.max(1, Math.ceil(filteredPapers.length / PAPERS_PER_PAGE));
-  }, [filteredPapers.length]);
+      return Math.max(1, Math.ceil(filteredPapers.length / pageSize));
+  }, [filteredPapers.length, pageSize]);
 
   const paginatedPapers = useMemo(() => {
-      const startIndex = (currentPage - 1) * PAPERS_PER_PAGE;
-      return filteredPapers.slice(startIndex, startIndex + PAPERS_PER_PAGE);
-  }, [filteredPapers, currentPage]);
+      const startIndex = (currentPage - 1) * pageSize;
+      return filteredPapers.slice(startIndex, startIndex + pageSize);
+  }, [filteredPapers, currentPage, pageSize]);
 
   const visiblePageNumbers = useMemo(() => {
       const maxVisiblePages = 5;
@@ -317,7 +1070,7 @@ const App: React.FC = () => {
 
   useEffect(() => {
       setCurrentPage(1);
-  }, [activeTab]);
+  }, [activeTab, pageSize]);
 
   useEffect(() => {
       setCurrentPage(prev => Math.min(prev, totalPages));
@@ -329,26 +1082,51 @@ const App: React.FC = () => {
       return papers.filter(p => p.tags && p.tags.includes(tagName)).length;
   };
 
+  const handlePaperRestored = (paper: PaperData) => {
+      rememberServerPaper(paper);
+      setPapers(prev => {
+          const next = [paper, ...prev.filter(p => p.id !== paper.id)].sort((a, b) => b.uploadTime - a.uploadTime);
+          papersRef.current = next;
+          return next;
+      });
+  };
+
   const handleFilesSelected = async (files: File[]) => {
-    if (!currentUser) return;
+    if (!currentUser || isReadOnly) return;
     
-    // Check connection before processing
-    if (!isConnected) {
-        const healthy = await performHealthCheck();
-        if (!healthy) {
-             alert("无法上传：后端服务未连接。请确认运行了 'npm start'");
-             return;
+    // Offline, the files are kept in the browser and uploaded once the server is back
+    const online = isConnected || await performHealthCheck();
+
+    // Check the quota up front so files over it are never created; the server enforces it again on upload
+    const stats = online ? await getStorageStats().catch(() => null) : null;
+    if (stats?.user.quotaBytes) {
+        let remaining = stats.user.quotaBytes - stats.user.usedBytes;
+        const accepted: File[] = [];
+        const rejected: File[] = [];
+        files.forEach(file => {
+            if (file.size <= remaining) {
+                accepted.push(file);
+                remaining -= file.size;
+            } else {
+                rejected.push(file);
+            }
+        });
+        if (rejected.length > 0) {
+            alert(`存储空间不足：已使用 ${formatBytes(stats.user.usedBytes)} / ${formatBytes(stats.user.quotaBytes)}，剩余 ${formatBytes(Math.max(0, stats.user.quotaBytes - stats.user.usedBytes))}。\n以下文件未上传：\n${rejected.map(f => f.name).join('\n')}`);
         }
+        if (accepted.length === 0) return;
+        files = accepted;
     }
 
     let initialTags: string[] = [];
-    if (activeTab !== 'All' && activeTab !== 'Uncategorized') {
+    if (activeTab !== 'All' && activeTab !== 'Uncategorized' && activeTab !== 'Trash') {
         initialTags = [activeTab];
     }
 
     const newPapers: PaperData[] = files.map((file) => ({
       id: uuidv4(),
       userId: currentUser,
+      workspaceId: activeWorkspaceId || undefined,
       file,
       fileName: file.name,
       fileSize: file.size,
@@ -366,82 +1144,58 @@ const App: React.FC = () => {
       return next;
     });
     
+    // Analysis is queued once the upload finishes (see syncPaperToDB)
     newPapers.forEach((paper) => {
-        enqueueAnalysis(paper.id, paper.file, settings);
         void syncPaperToDB(paper);
     });
   };
 
-  const processPaper = async (id: string, file: File | Blob | string, currentSettings: LLMSettings) => {
-    setPapers((prev) => {
-      const next = prev.map((p) => (p.id === id ? { ...p, status: 'analyzing', errorMessage: undefined } : p));
-      papersRef.current = next;
-      return next;
-    });
-
-    try {
-      const result = await analyzePaperWithGemini(file, currentSettings);
-      
-      const latestPaper = papersRef.current.find(p => p.id === id);
-      if (!latestPaper) return;
-
-      const updatedPaper: PaperData = {
-        ...latestPaper,
-        status: 'success',
-        analysis: result,
-        errorMessage: undefined
-      };
-
-      setPapers((prev) => prev.map((p) => (p.id === id ? updatedPaper : p)));
-      papersRef.current = papersRef.current.map((p) => (p.id === id ? updatedPaper : p));
-      void syncPaperToDB(updatedPaper);
-
-    } catch (error: any) {
-      console.error(`Analysis failed for paper ${id}:`, error);
-
-      let friendlyError = "Analysis failed";
-      const msg = (error.message || "").toLowerCase();
-      
-      if (msg.includes("api key")) friendlyError = "Missing API Key";
-      else if (msg.includes("json") || msg.includes("parse") || msg.includes("unexpected token")) friendlyError = "Model returned invalid format";
-      else if (msg.includes("fetch") || msg.includes("network") || msg.includes("failed to fetch")) friendlyError = "Network connection failed";
-      else if (msg.includes("pdf") || msg.includes("file") || msg.includes("corrupt")) friendlyError = "Could not process PDF";
-      else if (msg.includes("429")) friendlyError = "Rate limit exceeded (429)";
-      else if (msg.includes("500") || msg.includes("503") || msg.includes("service")) friendlyError = "AI Service Unavailable";
-      else if (msg.includes("timeout")) friendlyError = "Request Timed Out";
-      else if (msg.includes("safety") || msg.includes("blocked")) friendlyError = "Content Blocked (Safety)";
-      else if (msg.length > 0) friendlyError = error.message.length > 60 ? error.message.substring(0, 57) + "..." : error.message;
-
-      const latestPaper = papersRef.current.find(p => p.id === id);
-      if (!latestPaper) return;
-
-      const updatedPaper: PaperData = {
-        ...latestPaper,
-        status: 'error',
-        errorMessage: friendlyError
-      };
-
-      setPapers((prev) => prev.map((p) => (p.id === id ? updatedPaper : p)));
-      papersRef.current = papersRef.current.map((p) => (p.id === id ? updatedPaper : p));
-      void syncPaperToDB(updatedPaper);
-    }
-  };
-
   const retryAnalysis = (id: string) => {
     const paper = papers.find(p => p.id === id);
     if (!paper) return;
+    if (!isConnected) {
+        alert("离线时无法分析论文，请在恢复连接后重试");
+        return;
+    }
     
     // Trigger analysis again
-    enqueueAnalysis(id, paper.file, settings);
+    void enqueueAnalysis(id, settings);
+  };
+
+  // Moves the paper to the trash (restorable) unless `permanent` is set
+  // Offline the deletion is queued like any other change
+  const deletePaper = (id: string, permanent = false) => {
+    const paper = papersRef.current.find(p => p.id === id);
+    const fileName = paper?.fileName || id;
+    const serverCopy = serverPapersRef.current.get(id);
+    const dirty = dirtyFieldsRef.current.get(id);
+    removePaperLocally(id);
+    if (!isConnected || hasQueuedChangesRef.current) {
+        void queuePaperDeletion(id, fileName, permanent, !!serverCopy);
+        return;
+    }
+    void deletePaperFromDB(id, permanent).then(reached => {
+        if (reached) return;
+        setIsConnected(false);
+        void queuePaperDeletion(id, fileName, permanent, !!serverCopy);
+    }, (error: Error) => {
+        // Refused by the server: the paper is shown again, with its unsaved edits
+        if (paper) {
+            handlePaperRestored(paper);
+            if (serverCopy) rememberServerPaper(serverCopy);
+            else serverPapersRef.current.delete(id);
+            if (dirty) dirtyFieldsRef.current.set(id, dirty);
+        }
+        alert(`删除「${fileName}」失败：${error.message}`);
+    });
   };
 
-  const deletePaper = (id: string) => {
-    deletePaperFromDB(id);
+  const removePaperLocally = (id: string) => {
     setPapers((prev) => prev.filter((p) => p.id !== id));
     papersRef.current = papersRef.current.filter((p) => p.id !== id);
     syncPendingRef.current.delete(id);
-    analysisQueueRef.current = analysisQueueRef.current.filter((task) => task.id !== id);
-    analysisQueuedIdsRef.current.delete(id);
+    serverPapersRef.current.delete(id);
+    dirtyFieldsRef.current.delete(id);
     setSelectedPaperIds(prev => {
         const next = new Set(prev);
         next.delete(id);
@@ -536,37 +1290,73 @@ const App: React.FC = () => {
       setEditingTagsId(null);
   };
 
-  const handleScreenshotUpload = (id: string, file: File) => {
+  const updateScreenshotsLocally = (paperId: string, update: (screenshots: Screenshot[]) => Screenshot[]) => {
+      updatePaperLocally(paperId, p => ({ ...p, screenshots: update(p.screenshots || []) }));
+  };
+
+  const handleScreenshotUpload = async (id: string, file: File) => {
       if (!file.type.startsWith('image/')) return;
-      const reader = new FileReader();
-      reader.onload = (e) => {
-          const result = e.target?.result as string;
-          setPapers(prev => prev.map(p => {
-              if (p.id === id) {
-                  const updated = { ...p, screenshots: [...(p.screenshots || []), result] };
-                  syncPaperToDB(updated);
-                  return updated;
-              }
-              return p;
-          }));
-      };
-      reader.readAsDataURL(file);
+      if (!serverPapersRef.current.has(id)) {
+          alert("论文仍在保存中，请稍后再添加截图");
+          return;
+      }
+      try {
+          const screenshot = await uploadScreenshot(id, file);
+          updateScreenshotsLocally(id, shots => [...shots, screenshot]);
+      } catch (error: any) {
+          alert(`截图上传失败：${error.message}`);
+      }
   };
 
-  const removeScreenshot = (paperId: string, indexToRemove: number) => {
-      setPapers(prev => prev.map(p => {
-          if (p.id !== paperId) return p;
-          const updated = {
-              ...p,
-              screenshots: (p.screenshots || []).filter((_, idx) => idx !== indexToRemove)
-          };
-          syncPaperToDB(updated);
-          return updated;
-      }));
+  const removeScreenshot = async (paperId: string, screenshotId: string) => {
+      const previous = papersRef.current.find(p => p.id === paperId)?.screenshots || [];
+      updateScreenshotsLocally(paperId, shots => shots.filter(s => s.id !== screenshotId));
+      try {
+          await deleteScreenshot(paperId, screenshotId);
+      } catch (error: any) {
+          updateScreenshotsLocally(paperId, () => previous);
+          alert(`删除截图失败：${error.message}`);
+      }
+  };
+
+  const editScreenshotCaption = async (paperId: string, screenshot: Screenshot) => {
+      const caption = window.prompt("截图说明", screenshot.caption || '');
+      if (caption === null) return;
+      try {
+          const updated = await updateScreenshotCaption(paperId, screenshot.id, caption);
+          updateScreenshotsLocally(paperId, shots => shots.map(s => (s.id === updated.id ? updated : s)));
+      } catch (error: any) {
+          alert(`保存截图说明失败：${error.message}`);
+      }
+  };
+
+  // Drag and drop within one paper's Screenshot cell; the new order is shown right away
+  const draggedScreenshotRef = useRef<{ paperId: string; id: string } | null>(null);
+
+  const moveScreenshot = async (paperId: string, targetId: string) => {
+      const dragged = draggedScreenshotRef.current;
+      draggedScreenshotRef.current = null;
+      if (!dragged || dragged.paperId !== paperId || dragged.id === targetId) return;
+
+      const previous = papersRef.current.find(p => p.id === paperId)?.screenshots || [];
+      const from = previous.findIndex(s => s.id === dragged.id);
+      const to = previous.findIndex(s => s.id === targetId);
+      if (from < 0 || to < 0) return;
+      const reordered = [...previous];
+      reordered.splice(to, 0, ...reordered.splice(from, 1));
+
+      updateScreenshotsLocally(paperId, () => reordered);
+      try {
+          const saved = await reorderScreenshots(paperId, reordered.map(s => s.id));
+          updateScreenshotsLocally(paperId, () => saved);
+      } catch (error: any) {
+          updateScreenshotsLocally(paperId, () => previous);
+          alert(`调整截图顺序失败：${error.message}`);
+      }
   };
 
-  const openPdf = (paper: PaperData) => {
-    setPdfViewer({ isOpen: true, paper });
+  const openPdf = (paper: PaperData, page?: number) => {
+    setPdfViewer({ isOpen: true, paper, page });
   };
 
   const handleSavePaperUpdates = (paperId: string, highlights: Highlight[]) => {
@@ -602,6 +1392,15 @@ const App: React.FC = () => {
     }));
   };
 
+  // Restores an earlier value of the open field; the server records the revert as a new revision
+  const handleRevertAnalysis = async (revision: AnalysisRevision) => {
+    const paper = await revertAnalysisRevision(revision.paperId, revision.id);
+    applyServerPaper(paper);
+    setActiveModal(prev => (prev.paperId === paper.id && prev.fieldKey === revision.field
+        ? { ...prev, content: paper.analysis?.[revision.field as keyof AnalysisResult] || '' }
+        : prev));
+  };
+
   const startResize = (e: React.MouseEvent, key: string) => {
     e.preventDefault();
     resizingRef.current = { key, startX: e.clientX, startWidth: columnWidths[key] || 150 };
@@ -668,11 +1467,48 @@ const App: React.FC = () => {
     { label: '🧠 思维导图', key: 'mind_map', colType: AnalysisColumn.MIND_MAP },
   ];
 
+  const searchFieldLabels = Object.fromEntries(columns.map(c => [c.key, c.label]));
+
+  // File and selection columns are always shown
+  const toggleableColumns = [{ key: 'tags', label: '🏷️ 标签' }, ...columns, { key: 'screenshot', label: '🖼️ 截图' }];
+  const isColumnVisible = (key: string) => !hiddenColumns.includes(key);
+  const visibleColumns = columns.filter(c => isColumnVisible(c.key));
+
+  // Analysis hits open that cell's detail view; other hits open the PDF at the matching page
+  const handleSearchHit = (paperId: string, hit: SearchHit) => {
+    const paper = papers.find(p => p.id === paperId);
+    if (!paper) return;
+    if (hit.field === 'screenshot') {
+      // The hit names no screenshot; show the first caption containing the matched text
+      const matched = (/\u0002([^\u0003]*)\u0003/.exec(hit.snippet)?.[1] || '').toLowerCase();
+      const shot = paper.screenshots.find(s => s.caption?.toLowerCase().includes(matched));
+      if (shot) {
+        setImageModal({ isOpen: true, url: shot.url, caption: shot.caption });
+        return;
+      }
+    }
+    const column = columns.find(c => c.key === hit.field);
+    if (column && paper.analysis) {
+      openDetail(paper.id, column.key, column.label, paper.analysis[column.key as keyof AnalysisResult] || '', column.colType);
+    } else {
+      openPdf(paper, hit.page);
+    }
+  };
+
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#F8FAFC] text-gray-400 text-sm gap-2">
+        <div className="w-5 h-5 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+        Loading...
+      </div>
+    );
+  }
+
   if (!currentUser) return <AuthPage onLogin={handleLogin} />;
 
   return (
     <div className="min-h-screen flex flex-col bg-[#F8FAFC]">
-      <FileUpload onFilesSelected={handleFilesSelected} isProcessing={!isConnected} />
+      {!isReadOnly && <FileUpload onFilesSelected={handleFilesSelected} />}
 
       <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-gray-200 shadow-sm">
         <div className="max-w-[1920px] mx-auto px-6 h-16 flex items-center justify-between">
@@ -691,10 +1527,29 @@ const App: React.FC = () => {
                 title="点击检查连接"
             >
                 <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></div>
-                {isChecking ? '检查中...' : isConnected ? '系统在线' : '后端断开'}
+                {isChecking ? '检查中...' : isConnected ? '系统在线' : '离线模式'}
+                {queuedChangeCount > 0 && <span className="font-medium" title="离线修改会在恢复连接后按顺序同步">· {queuedChangeCount} 项待同步</span>}
             </div>
 
             <div className="h-6 w-px bg-gray-200 mx-2 hidden md:block"></div>
+            {/* Workspace Switcher */}
+            <div className="hidden md:flex items-center gap-1">
+                <select
+                    value={activeWorkspaceId || ''}
+                    onChange={(e) => switchWorkspace(e.target.value || null)}
+                    className="px-2 py-1.5 border border-gray-200 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 outline-none focus:ring-1 focus:ring-indigo-500 max-w-[160px]"
+                    title="切换工作区"
+                >
+                    <option value="">我的论文库</option>
+                    {workspaces.map(w => (
+                        <option key={w.id} value={w.id}>{w.name}</option>
+                    ))}
+                </select>
+                <button onClick={() => setIsWorkspaceModalOpen(true)} className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-md transition-colors" title="管理工作区">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" /></svg>
+                </button>
+                {isReadOnly && <span className="px-2 py-0.5 rounded text-[10px] font-bold border bg-gray-50 text-gray-500 border-gray-200">只读</span>}
+            </div>
             <nav className="hidden md:flex items-center gap-1">
                <button onClick={() => setActiveTab('All')} className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'All' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'}`}>
                     全部论文
@@ -710,9 +1565,13 @@ const App: React.FC = () => {
                         </button>
                     );
                 })}
+               <button onClick={() => setActiveTab('Trash')} className={`px-3 py-1.5 rounded-md text-xs font-medium transition-all ${activeTab === 'Trash' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'}`}>
+                    🗑️ 回收站
+                </button>
             </nav>
           </div>
           <div className="flex items-center gap-3">
+             <SearchBar workspaceId={activeWorkspaceId} fieldLabels={searchFieldLabels} onSelect={handleSearchHit} />
              {selectedPaperIds.size >= 1 && <button onClick={handleExportExcel} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-md shadow-sm">导出 Excel</button>}
              {selectedPaperIds.size >= 2 && <button onClick={handleCompare} className="flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md shadow-sm">对比论文</button>}
              <button onClick={() => setIsSettingsOpen(true)} className="p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M10.34 15.84c-.688-.06-1.386-.09-2.09-.09H7.5a4.5 4.5 0 110-9h.75c.704 0 1.402-.03 2.09-.09m0 9.18c.253.962.584 1.892.985 2.783.247.55.06 1.1-.463 1.112h-1.82a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" /></svg></button>
@@ -727,9 +1586,9 @@ const App: React.FC = () => {
       
       {/* Alert if disconnected */}
       {!isConnected && (
-          <div className="bg-red-600 text-white text-center py-2 text-xs font-bold sticky top-16 z-30 shadow-md animate-in slide-in-from-top-4">
+          <div className="bg-amber-500 text-white text-center py-2 text-xs font-bold sticky top-16 z-30 shadow-md animate-in slide-in-from-top-4">
               <div className="flex items-center justify-center gap-2">
-                 <span>⚠️ 无法连接到后端服务器。数据将不会保存。请在终端运行: npm start</span>
+                 <span>⚠️ 无法连接到后端服务器，已进入离线模式：可以继续阅读和标注，修改保存在本机，恢复连接后自动同步</span>
                  <button 
                     onClick={performHealthCheck} 
                     className="bg-white/20 hover:bg-white/30 text-white px-2 py-0.5 rounded text-[10px] uppercase border border-white/20 transition-colors"
@@ -740,6 +1599,24 @@ const App: React.FC = () => {
           </div>
       )}
 
+      {syncConflicts.length > 0 && (
+          <div className="bg-amber-50 border-b border-amber-200 text-amber-800 text-xs px-6 py-2">
+              <div className="max-w-[1920px] mx-auto flex items-start justify-between gap-4">
+                  <div className="space-y-0.5">
+                      <p className="font-bold">离线修改已同步，但有 {syncConflicts.length} 处需要留意：</p>
+                      {syncConflicts.map((conflict, index) => (
+                          <p key={`${conflict.paperId}-${index}`}>
+                              「{conflict.fileName}」：{conflict.kind === 'overwritten'
+                                  ? `${(conflict.fields || []).map(describeConflictField).join('、')}在离线期间也被他人修改，已保存为你的版本（分析内容可在修订历史中找回对方的版本）`
+                                  : `未能同步，修改已丢弃（${conflict.message}）`}
+                          </p>
+                      ))}
+                  </div>
+                  <button onClick={() => setSyncConflicts([])} className="shrink-0 px-2 py-0.5 rounded border border-amber-300 bg-white hover:bg-amber-100 text-[10px] font-bold">知道了</button>
+              </div>
+          </div>
+      )}
+
       <main className="flex-1 px-6 py-6 overflow-hidden flex flex-col gap-6 relative z-0">
         <div className="relative group rounded-xl overflow-hidden shadow-sm border border-gray-200 h-32 md:h-48 shrink-0 bg-gray-100">
             <img src={bannerImage} alt="Workspace Banner" className="w-full h-full object-cover opacity-90 group-hover:scale-105 transition-transform duration-700 ease-out" onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/1200x300/F1F5F9/94A3B8?text=Workspace+Cover'; }} />
@@ -755,7 +1632,9 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex-1 bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden flex flex-col relative">
-          {papers.length === 0 ? (
+          {activeTab === 'Trash' ? (
+            <TrashView workspaceId={activeWorkspaceId} readOnly={isReadOnly} onRestored={handlePaperRestored} />
+          ) : papers.length === 0 ? (
             <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-12 bg-white">
                <div className="w-16 h-16 rounded-full bg-gray-50 flex items-center justify-center mb-4 border border-gray-100"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="#94A3B8" className="w-8 h-8"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg></div>
               <p className="text-lg font-medium text-gray-900">暂无论文</p>
@@ -763,6 +1642,9 @@ const App: React.FC = () => {
             </div>
           ) : (
             <div className="flex-1 flex flex-col overflow-hidden">
+              {viewMode === 'gallery' ? (
+                <GalleryView papers={paginatedPapers} selectedIds={selectedPaperIds} onToggleSelect={toggleSelection} onOpen={(paper) => openPdf(paper)} getTagStyle={getTagStyle} />
+              ) : (
               <div className="overflow-auto custom-scrollbar flex-1 relative">
                 <table className="w-full text-left border-collapse table-fixed">
                   <thead className="bg-gray-50 sticky top-0 z-20 shadow-sm border-b border-gray-200">
@@ -774,20 +1656,24 @@ const App: React.FC = () => {
                         📄 论文文件
                         <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, 'file')} />
                       </th>
-                      <th className="relative p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider border-r border-gray-200/50 select-none group bg-gray-50 hover:bg-gray-100 transition-colors" style={{ width: columnWidths['tags'] || 160 }}>
-                        🏷️ 标签
-                        <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, 'tags')} />
-                      </th>
-                      {columns.map((col) => (
+                      {isColumnVisible('tags') && (
+                        <th className="relative p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider border-r border-gray-200/50 select-none group bg-gray-50 hover:bg-gray-100 transition-colors" style={{ width: columnWidths['tags'] || 160 }}>
+                          🏷️ 标签
+                          <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, 'tags')} />
+                        </th>
+                      )}
+                      {visibleColumns.map((col) => (
                         <th key={col.label} className="relative p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider border-r border-gray-200/50 select-none group bg-gray-50 hover:bg-gray-100 transition-colors" style={{ width: columnWidths[col.key] || 220 }}>
                           {col.label}
                           <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, col.key)} />
                         </th>
                       ))}
-                      <th className="relative p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider border-r border-gray-200/50 select-none group bg-gray-50 hover:bg-gray-100 transition-colors" style={{ width: columnWidths['screenshot'] || 200 }}>
-                        🖼️ 截图
-                        <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, 'screenshot')} />
-                      </th>
+                      {isColumnVisible('screenshot') && (
+                        <th className="relative p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider border-r border-gray-200/50 select-none group bg-gray-50 hover:bg-gray-100 transition-colors" style={{ width: columnWidths['screenshot'] || 200 }}>
+                          🖼️ 截图
+                          <div className="absolute right-0 top-0 bottom-0 w-1 cursor-col-resize hover:bg-indigo-500/50 z-10" onMouseDown={(e) => startResize(e, 'screenshot')} />
+                        </th>
+                      )}
                       <th className="p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider w-16 text-center">...</th>
                     </tr>
                   </thead>
@@ -797,6 +1683,7 @@ const App: React.FC = () => {
                       const isError = paper.status === 'error';
                       const isSaving = paper.saveStatus === 'saving';
                       const saveFailed = paper.saveStatus === 'error';
+                      const isQueued = paper.saveStatus === 'queued';
                       const isSelected = selectedPaperIds.has(paper.id);
                       const isEditingTags = editingTagsId === paper.id;
                       
@@ -807,20 +1694,33 @@ const App: React.FC = () => {
                            </td>
                           <td className="p-3 align-top overflow-hidden border-r border-gray-100" style={{ width: columnWidths['file'] || 300 }}>
                             <div className="flex items-start gap-3">
+                              {paper.thumbnail ? (
+                                <img src={paper.thumbnail} alt="" loading="lazy" onClick={() => openPdf(paper)} className="w-10 h-[52px] object-cover object-top rounded border border-gray-200 bg-white shrink-0 cursor-pointer hover:border-indigo-300 transition-colors" />
+                              ) : (
                               <div className="mt-0.5 text-gray-400 shrink-0">
                                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>
                               </div>
+                              )}
                               <div className="overflow-hidden w-full">
                                 <p className="font-medium text-gray-900 hover:text-indigo-600 text-sm truncate w-full cursor-pointer transition-colors" onClick={() => openPdf(paper)}>
                                   {paper.fileName}
                                 </p>
                                 <div className="flex flex-col gap-1 mt-1">
-                                  {isSaving && <span className="text-[10px] text-indigo-500 animate-pulse">☁️ 保存中...</span>}
-                                  {saveFailed && <span className="text-[10px] text-red-500 font-bold" title="上传失败，刷新后数据将丢失">⚠️ 保存失败</span>}
+                                  {isSaving && paper.uploadProgress === undefined && <span className="text-[10px] text-indigo-500 animate-pulse">☁️ 保存中...</span>}
+                                  {isSaving && paper.uploadProgress !== undefined && (
+                                    <div className="flex items-center gap-2 w-full max-w-[180px]" title="正在上传 PDF">
+                                      <div className="flex-1 h-1 bg-indigo-100 rounded-full overflow-hidden">
+                                        <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${paper.uploadProgress}%` }}></div>
+                                      </div>
+                                      <span className="text-[10px] text-indigo-500 font-mono">{paper.uploadProgress}%</span>
+                                    </div>
+                                  )}
+                                  {isQueued && <span className="text-[10px] text-amber-600 font-medium" title="已保存在本机，恢复连接后自动同步">⏳ 待同步</span>}
+                                  {saveFailed && <span className="text-[10px] text-red-500 font-bold" title={`上传失败，刷新后数据将丢失${paper.saveError ? `\n${paper.saveError}` : ''}`}>⚠️ 保存失败</span>}
                                   {isAnalyzing && (
                                     <span className="inline-flex w-fit items-center gap-1.5 px-2 py-0.5 rounded text-[10px] font-medium bg-amber-50 text-amber-700 border border-amber-100/50">
                                       <span className="w-1 h-1 rounded-full bg-amber-500 animate-pulse"></span>
-                                      正在分析...
+                                      {paper.jobState === 'queued' ? '排队中...' : '正在分析...'}
                                     </span>
                                   )}
                                   {isError && (
@@ -829,7 +1729,7 @@ const App: React.FC = () => {
                                               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3 shrink-0"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-8-5a.75.75 0 01.75.75v4.5a.75.75 0 01-1.5 0v-4.5A.75.75 0 0110 5zm0 10a1 1 0 100-2 1 1 0 000 2z" clipRule="evenodd" /></svg>
                                               {paper.errorMessage || "失败"}
                                           </span>
-                                          <button 
+                                          {!isReadOnly && <button 
                                               onClick={(e) => { e.stopPropagation(); retryAnalysis(paper.id); }}
                                               className="group/retry flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded transition-colors"
                                               title="Retry Analysis"
@@ -838,7 +1738,7 @@ const App: React.FC = () => {
                                                   <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
                                               </svg>
                                               Retry
-                                          </button>
+                                          </button>}
                                       </div>
                                   )}
                                   {!isAnalyzing && !isError && (
@@ -849,43 +1749,62 @@ const App: React.FC = () => {
                             </div>
                           </td>
 
-                          <td className="p-3 align-top border-r border-gray-100" style={{ width: columnWidths['tags'] || 160 }}>
-                              {isEditingTags ? (
-                                  <input type="text" value={tempTagInput} onChange={(e) => setTempTagInput(e.target.value)} onBlur={() => saveTags(paper.id)} onKeyDown={(e) => { if (e.key === 'Enter') saveTags(paper.id); if (e.key === 'Escape') setEditingTagsId(null); }} autoFocus className="w-full bg-white border border-indigo-300 rounded px-2 py-1 text-xs text-gray-900 shadow-sm focus:ring-1 focus:ring-indigo-500 outline-none" placeholder="标签1, 标签2..." />
-                              ) : (
-                                  <div onClick={() => startEditingTags(paper)} className="flex flex-wrap gap-1.5 cursor-text min-h-[24px] content-start">
-                                      {paper.tags && paper.tags.length > 0 ? (
-                                          paper.tags.map((tag, idx) => {
-                                              const style = getTagStyle(tag);
-                                              return <span key={idx} className={`inline-flex items-center px-2 py-0.5 rounded-md text-[10px] font-semibold border ${style.bg} ${style.text} ${style.border}`}>{tag}</span>;
-                                          })
-                                      ) : (
-                                          <span className="text-gray-300 text-[10px] hover:text-gray-500 border border-transparent hover:border-gray-200 px-1 rounded transition-colors opacity-0 group-hover:opacity-100">+ 添加标签</span>
-                                      )}
-                                  </div>
-                              )}
-                          </td>
-                          {columns.map((col) => (
+                          {isColumnVisible('tags') && (
+                            <td className="p-3 align-top border-r border-gray-100" style={{ width: columnWidths['tags'] || 160 }}>
+                                {isEditingTags ? (
+                                    <input type="text" value={tempTagInput} onChange={(e) => setTempTagInput(e.target.value)} onBlur={() => saveTags(paper.id)} onKeyDown={(e) => { if (e.key === 'Enter') saveTags(paper.id); if (e.key === 'Escape') setEditingTagsId(null); }} autoFocus className="w-full bg-white border border-indigo-300 rounded px-2 py-1 text-xs text-gray-900 shadow-sm focus:ring-1 focus:ring-indigo-500 outline-none" placeholder="标签1, 标签2..." />
+                                ) : (
+                                    <div onClick={() => !isReadOnly && startEditingTags(paper)} className={`flex flex-wrap gap-1.5 min-h-[24px] content-start ${isReadOnly ? '' : 'cursor-text'}`}>
+                                        {paper.tags && paper.tags.length > 0 ? (
+                                            paper.tags.map((tag, idx) => {
+                                                const style = getTagStyle(tag);
+                                                return <span key={idx} className={`inline-flex items-center px-2 py-0.5 rounded-md text-[10px] font-semibold border ${style.bg} ${style.text} ${style.border}`}>{tag}</span>;
+                                            })
+                                        ) : !isReadOnly && (
+                                            <span className="text-gray-300 text-[10px] hover:text-gray-500 border border-transparent hover:border-gray-200 px-1 rounded transition-colors opacity-0 group-hover:opacity-100">+ 添加标签</span>
+                                        )}
+                                    </div>
+                                )}
+                            </td>
+                          )}
+                          {visibleColumns.map((col) => (
                             <td key={`${paper.id}-${col.key}`} className="p-3 align-top border-r border-gray-100 overflow-hidden" style={{ width: columnWidths[col.key] || 220 }}>
                                <RenderCell paper={paper} fieldKey={col.key} label={col.label} type={col.colType} content={paper.analysis ? (paper.analysis as any)[col.key] : ''} />
                             </td>
                           ))}
-                          <td className="p-3 align-top border-r border-gray-100" style={{ width: columnWidths['screenshot'] || 200 }}>
-                              <div className="w-full h-full min-h-[60px] outline-none flex flex-wrap content-start gap-2">
-                                  {paper.screenshots && paper.screenshots.length > 0 && paper.screenshots.map((shot, idx) => (
-                                      <div key={idx} className="relative group/shot w-[60px] h-[60px] border border-gray-200 rounded overflow-hidden bg-gray-50 flex-shrink-0">
-                                          <img src={shot} alt={`Screenshot ${idx + 1}`} className="w-full h-full object-cover cursor-zoom-in hover:scale-105 transition-transform duration-200" onClick={() => setImageModal({ isOpen: true, url: shot })} />
-                                          <button onClick={(e) => { e.stopPropagation(); removeScreenshot(paper.id, idx); }} className="absolute top-0.5 right-0.5 p-0.5 bg-black/50 text-white rounded opacity-0 group-hover/shot:opacity-100 transition-opacity hover:bg-red-500"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg></button>
-                                      </div>
-                                  ))}
-                                  <label className="flex flex-col items-center justify-center w-[60px] h-[60px] cursor-pointer rounded border border-dashed border-gray-300 bg-gray-50 hover:bg-white hover:border-indigo-400 transition-all group/upload flex-shrink-0">
-                                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-gray-400 group-hover/upload:text-indigo-500"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
-                                      <input type="file" accept="image/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleScreenshotUpload(paper.id, e.target.files[0])} />
-                                  </label>
-                              </div>
-                          </td>
+                          {isColumnVisible('screenshot') && (
+                            <td className="p-3 align-top border-r border-gray-100" style={{ width: columnWidths['screenshot'] || 200 }}>
+                                <div className="w-full h-full min-h-[60px] outline-none flex flex-wrap content-start gap-2">
+                                    {paper.screenshots && paper.screenshots.length > 0 && paper.screenshots.map((shot, idx) => (
+                                        <div
+                                            key={shot.id}
+                                            draggable={!isReadOnly}
+                                            onDragStart={() => { draggedScreenshotRef.current = { paperId: paper.id, id: shot.id }; }}
+                                            onDragEnd={() => { draggedScreenshotRef.current = null; }}
+                                            onDragOver={(e) => { if (draggedScreenshotRef.current?.paperId === paper.id) e.preventDefault(); }}
+                                            onDrop={(e) => { e.preventDefault(); moveScreenshot(paper.id, shot.id); }}
+                                            className="flex flex-col gap-0.5 w-[60px] flex-shrink-0"
+                                        >
+                                            <div className="relative group/shot w-[60px] h-[60px] border border-gray-200 rounded overflow-hidden bg-gray-50">
+                                                <img src={shot.url} alt={shot.caption || `Screenshot ${idx + 1}`} title={shot.caption} loading="lazy" className="w-full h-full object-cover cursor-zoom-in hover:scale-105 transition-transform duration-200" onClick={() => setImageModal({ isOpen: true, url: shot.url, caption: shot.caption })} />
+                                                {!isReadOnly && <button onClick={(e) => { e.stopPropagation(); removeScreenshot(paper.id, shot.id); }} className="absolute top-0.5 right-0.5 p-0.5 bg-black/50 text-white rounded opacity-0 group-hover/shot:opacity-100 transition-opacity hover:bg-red-500"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-3 h-3"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg></button>}
+                                            </div>
+                                            {shot.caption ? (
+                                                <p onClick={() => !isReadOnly && editScreenshotCaption(paper.id, shot)} className={`text-[10px] leading-tight text-gray-500 truncate ${isReadOnly ? '' : 'cursor-text hover:text-gray-800'}`} title={shot.caption}>{shot.caption}</p>
+                                            ) : !isReadOnly && (
+                                                <button onClick={() => editScreenshotCaption(paper.id, shot)} className="text-[10px] leading-tight text-left text-gray-300 hover:text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">+ 说明</button>
+                                            )}
+                                        </div>
+                                    ))}
+                                    {!isReadOnly && <label className="flex flex-col items-center justify-center w-[60px] h-[60px] cursor-pointer rounded border border-dashed border-gray-300 bg-gray-50 hover:bg-white hover:border-indigo-400 transition-all group/upload flex-shrink-0">
+                                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-gray-400 group-hover/upload:text-indigo-500"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" /></svg>
+                                        <input type="file" accept="image/*" className="hidden" onChange={(e) => e.target.files?.[0] && handleScreenshotUpload(paper.id, e.target.files[0])} />
+                                    </label>}
+                                </div>
+                            </td>
+                          )}
                           <td className="p-3 align-top text-center w-16">
-                            <button onClick={() => deletePaper(paper.id)} className="text-gray-300 hover:text-red-600 transition-colors p-1 rounded"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" /></svg></button>
+                            {!isReadOnly && <button onClick={() => deletePaper(paper.id)} className="text-gray-300 hover:text-red-600 transition-colors p-1 rounded" title="移到回收站"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4"><path strokeLinecap="round" strokeLinejoin="round" d="M14.74 9l-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 01-2.244 2.077H8.084a2.25 2.25 0 01-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 00-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 013.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 00-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 00-7.5 0" /></svg></button>}
                           </td>
                         </tr>
                       );
@@ -893,10 +1812,35 @@ const App: React.FC = () => {
                   </tbody>
                 </table>
               </div>
+              )}
               <div className="border-t border-gray-200 bg-white px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-                <p className="text-xs text-gray-500">
-                  第 {filteredPapers.length === 0 ? 0 : currentPage} / {filteredPapers.length === 0 ? 0 : totalPages} 页 · 共 {filteredPapers.length} 篇
-                </p>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center rounded-md border border-gray-200 overflow-hidden">
+                    {(['table', 'gallery'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        type="button"
+                        onClick={() => setViewMode(mode)}
+                        className={`px-2.5 py-1 text-xs font-medium transition-colors ${viewMode === mode ? 'bg-gray-100 text-gray-900' : 'bg-white text-gray-500 hover:bg-gray-50'}`}
+                      >
+                        {mode === 'table' ? '表格' : '画廊'}
+                      </button>
+                    ))}
+                  </div>
+                  {viewMode === 'table' && (
+                    <ColumnMenu columns={toggleableColumns} hiddenColumns={hiddenColumns} onChange={setHiddenColumns} />
+                  )}
+                  <select
+                    value={pageSize}
+                    onChange={(e) => setPageSize(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-200 rounded-md text-xs text-gray-600 bg-white outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>每页 {size} 篇</option>)}
+                  </select>
+                  <p className="text-xs text-gray-500">
+                    第 {filteredPapers.length === 0 ? 0 : currentPage} / {filteredPapers.length === 0 ? 0 : totalPages} 页 · 共 {filteredPapers.length} 篇
+                  </p>
+                </div>
                 <div className="flex items-center gap-1 flex-wrap">
                   <button
                     type="button"
@@ -979,11 +1923,39 @@ const App: React.FC = () => {
         </div>
       </main>
 
-      <DetailModal isOpen={activeModal.isOpen} onClose={closeModal} title={activeModal.title} content={activeModal.content} type={activeModal.type} onSave={handleUpdateAnalysis} />
-      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} settings={settings} onSave={setSettings} />
-      <PdfViewerModal isOpen={pdfViewer.isOpen} paper={pdfViewer.paper} onClose={() => setPdfViewer({ isOpen: false, paper: null })} onSave={handleSavePaperUpdates} />
+      <DetailModal
+        isOpen={activeModal.isOpen}
+        onClose={closeModal}
+        title={activeModal.title}
+        content={activeModal.content}
+        type={activeModal.type}
+        onSave={handleUpdateAnalysis}
+        readOnly={isReadOnly}
+        paperId={activeModal.paperId}
+        fieldKey={activeModal.fieldKey}
+        onRevert={handleRevertAnalysis}
+      />
+      <SettingsModal
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={settings}
+        onSave={handleSaveSettings}
+        workspaceId={activeWorkspaceId}
+        readOnly={isReadOnly}
+        onLibraryImported={reloadPapers}
+      />
+      <PdfViewerModal isOpen={pdfViewer.isOpen} paper={pdfViewer.paper} onClose={() => setPdfViewer({ isOpen: false, paper: null })} onSave={handleSavePaperUpdates} readOnly={isReadOnly} initialPage={pdfViewer.page} />
       <ComparisonModal isOpen={comparisonModal.isOpen} isLoading={comparisonModal.isLoading} result={comparisonModal.result} onClose={() => setComparisonModal(prev => ({ ...prev, isOpen: false }))} />
-      <ImageModal isOpen={imageModal.isOpen} onClose={() => setImageModal({ isOpen: false, url: null })} imageUrl={imageModal.url} />
+      <WorkspaceModal
+        isOpen={isWorkspaceModalOpen}
+        onClose={() => setIsWorkspaceModalOpen(false)}
+        workspace={activeWorkspace}
+        currentUser={currentUser}
+        onWorkspaceCreated={handleWorkspaceCreated}
+        onWorkspaceUpdated={handleWorkspaceUpdated}
+        onWorkspaceRemoved={handleWorkspaceRemoved}
+      />
+      <ImageModal isOpen={imageModal.isOpen} onClose={() => setImageModal({ isOpen: false, url: null })} imageUrl={imageModal.url} caption={imageModal.caption} />
     </div>
   );
 };
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+// Storage check: reports PDFs no paper points to, papers whose PDF is missing or
+// unreadable, malformed records and stray screenshots/thumbnails. Run it on the
+// server machine, with the same STORAGE_BACKEND settings as the server:
+//   node check-storage.js [--repair] [--verify-hashes] [--json <file>]
+// It is safe while the server runs; uploads from the last hour are left alone.
+const path = require('path');
+const fs = require('fs');
+const { openDatabase } = require('./server/db');
+const { createStore } = require('./server/store');
+const { createIntegrityChecker } = require('./server/integrity');
+const { storageFromEnv } = require('./server/files');
+
+// Same locations as server.js
+const DATA_DIR = path.join(__dirname, 'data');
+const THUMBNAIL_DIR = path.join(DATA_DIR, 'thumbnails');
+const SCREENSHOT_DIR = path.join(DATA_DIR, 'screenshots');
+const QUARANTINE_DIR = path.join(DATA_DIR, 'quarantine');
+const DB_PATH = process.env.DB_PATH || path.join(DATA_DIR, 'paperscope.db');
+
+const USAGE = `Usage: node check-storage.js [options]
+
+Options:
+  --repair          Apply the listed fixes; files are moved to data/quarantine/<time>/, not deleted
+  --verify-hashes   Also re-hash every PDF (slow on large libraries)
+  --json <file>     Also write the report (and repair results) as JSON to <file>
+  --help            Show this help
+
+Exit code: 0 if nothing is left to fix, 1 if problems remain, 2 on errors.
+`;
+
+const FIX_LABELS = {
+    quarantine: 'move to quarantine',
+    restore: 'restore from orphan',
+    trash: 'move paper to trash',
+    update: 'update record',
+    delete: 'remove row',
+    clear: 'clear thumbnail',
+    none: 'needs manual attention',
+};
+
+const parseArgs = (argv) => {
+    const options = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--repair': options.repair = true; break;
+            case '--verify-hashes': options.verifyHashes = true; break;
+            case '--json':
+                options.json = argv[++i];
+                if (!options.json || options.json.startsWith('--')) throw new Error('--json needs a value');
+                break;
+            case '--help': options.help = true; break;
+            default: throw new Error(`Unknown option ${arg}`);
+        }
+    }
+    return options;
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!fs.existsSync(DB_PATH)) throw new Error(`No database at ${DB_PATH}`);
+
+    const store = createStore(openDatabase(DB_PATH, DATA_DIR));
+    const storage = storageFromEnv({ dataDir: DATA_DIR });
+    await storage.init();
+    const checker = createIntegrityChecker({
+        store,
+        storage,
+        screenshotDir: SCREENSHOT_DIR,
+        thumbnailDir: THUMBNAIL_DIR,
+        quarantineDir: QUARANTINE_DIR,
+    });
+
+    console.log(`🔍 Checking ${DATA_DIR} and ${storage.description}${options.verifyHashes ? ' (verifying hashes)' : ''}`);
+    const report = await checker.scan({ verifyHashes: options.verifyHashes });
+    console.log(`   ${report.papers} papers, ${report.files} stored PDFs`);
+
+    if (report.issues.length === 0) {
+        console.log('✅ No problems found');
+    } else {
+        console.log(`\n⚠️  ${report.issues.length} problems:`);
+        report.issues.forEach(issue => {
+            console.log(`   [${issue.type}] ${issue.detail}${issue.file ? ` (${issue.file})` : ''} → ${FIX_LABELS[issue.fix]}`);
+        });
+    }
+
+    let result = null;
+    if (options.repair && report.issues.length > 0) {
+        result = await checker.repair(report);
+        console.log(`\n🛠️  Repaired ${result.repaired}, skipped ${result.skipped}, failed ${result.failed.length}`);
+        result.failed.forEach(f => console.log(`   ❌ [${f.issue.type}] ${f.issue.detail}: ${f.error}`));
+        if (result.quarantineDir) console.log(`   📦 Quarantine and manifest: ${result.quarantineDir}`);
+    } else if (report.issues.length > 0) {
+        console.log('\nRun again with --repair to apply these fixes.');
+    }
+
+    if (options.json) {
+        fs.writeFileSync(options.json, JSON.stringify({ ...report, repair: result }, null, 2));
+        console.log(`📝 Report written to ${options.json}`);
+    }
+
+    const remaining = result ? result.skipped + result.failed.length : report.issues.length;
+    return remaining > 0 ? 1 : 0;
+};
+
+main()
+    .then(code => { process.exitCode = code; })
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 2;
+    });
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { ApiToken } from '../types';
+import { createApiToken, listApiTokens, revokeApiToken } from '../services/tokens';
+
+const EXPIRY_OPTIONS = [
+  { days: 30, name: '30 days' },
+  { days: 90, name: '90 days' },
+  { days: 365, name: '1 year' },
+  { days: 0, name: 'Never' },
+];
+
+const formatDate = (ms?: number) => (ms ? new Date(ms).toLocaleDateString() : '—');
+
+const ApiTokensSection: React.FC = () => {
+  const [scopes, setScopes] = useState<Record<string, string>>({});
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>(['papers:read']);
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newToken, setNewToken] = useState<ApiToken | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listApiTokens()
+      .then(list => { setScopes(list.scopes); setTokens(list.tokens); })
+      .catch((e: Error) => setError(e.message));
+  }, []);
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes(prev => (prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]));
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const created = await createApiToken(name.trim(), selectedScopes, expiryDays || undefined);
+      setNewToken(created);
+      setTokens(prev => [{ ...created, token: undefined }, ...prev]);
+      setName('');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+      await revokeApiToken(token.id);
+      setTokens(prev => prev.filter(t => t.id !== token.id));
+      if (newToken?.id === token.id) setNewToken(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-[11px] text-gray-400">
+        For scripts: send a token as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>.
+        The endpoints are described in <a href="/api/openapi.json" target="_blank" rel="noreferrer" className="text-indigo-600 hover:underline">openapi.json</a>.
+      </p>
+
+      {newToken?.token && (
+        <div className="p-3 rounded-lg border border-green-100 bg-green-50 space-y-1.5">
+          <p className="text-xs font-medium text-green-700">Copy the token now; it will not be shown again.</p>
+          <div className="flex items-center gap-2">
+            <input
+              readOnly
+              value={newToken.token}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 px-2 py-1 border border-green-200 rounded text-xs font-mono bg-white"
+            />
+            <button
+              type="button"
+              onClick={() => void navigator.clipboard?.writeText(newToken.token!)}
+              className="px-2 py-1 text-xs font-medium text-green-700 border border-green-200 rounded bg-white hover:bg-green-100"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {tokens.map(token => (
+            <li key={token.id} className="px-3 py-2 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-gray-800 truncate">
+                  {token.name} <span className="font-mono text-[11px] text-gray-400">{token.prefix}…</span>
+                </p>
+                <p className="text-[11px] text-gray-400">
+                  {token.scopes.join(', ')} · created {formatDate(token.createdAt)} · expires {token.expiresAt ? formatDate(token.expiresAt) : 'never'} · last used {formatDate(token.lastUsedAt)}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(token)}
+                className="text-xs text-red-600 hover:text-red-700 font-medium shrink-0"
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name, e.g. arXiv crawler"
+          maxLength={100}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <div className="space-y-1">
+          {Object.entries(scopes).map(([scope, description]) => (
+            <label key={scope} className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedScopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                className="mt-0.5 w-3.5 h-3.5 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span><span className="font-mono">{scope}</span> <span className="text-gray-400">— {description}</span></span>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {EXPIRY_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>Expires: {option.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!name.trim() || selectedScopes.length === 0 || isCreating}
+            className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-black disabled:opacity-60"
+          >
+            {isCreating ? 'Creating...' : 'Create Token'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 text-xs font-medium rounded-lg border bg-red-50 text-red-600 border-red-100">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokensSection;
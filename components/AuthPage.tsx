@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { loginUser, registerUser } from '../services/auth';
 
 interface AuthPageProps {
   onLogin: (username: string) => void;
@@ -10,8 +11,9 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setSuccess('');
@@ -21,33 +23,21 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
       return;
     }
 
-    if (isLogin) {
-      // Login Logic
-      const storedUser = localStorage.getItem(`user_${username}`);
-      if (!storedUser) {
-        setError('User not found. Please register first.');
-        return;
-      }
-
-      const userData = JSON.parse(storedUser);
-      if (userData.password === password) {
-        onLogin(username);
+    setIsSubmitting(true);
+    try {
+      if (isLogin) {
+        const loggedInUser = await loginUser(username.trim(), password);
+        onLogin(loggedInUser);
       } else {
-        setError('Invalid password.');
+        await registerUser(username.trim(), password);
+        setSuccess('Registration successful! Please login.');
+        setIsLogin(true);
+        setPassword('');
       }
-    } else {
-      // Registration Logic
-      const storedUser = localStorage.getItem(`user_${username}`);
-      if (storedUser) {
-        setError('Username already exists.');
-        return;
-      }
-
-      const newUser = { username, password };
-      localStorage.setItem(`user_${username}`, JSON.stringify(newUser));
-      setSuccess('Registration successful! Please login.');
-      setIsLogin(true);
-      setPassword('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not reach the server.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -131,9 +121,10 @@ const AuthPage: React.FC<AuthPageProps> = ({ onLogin }) => {
 
             <button
               type="submit"
-              className="w-full py-2.5 px-4 bg-gray-900 hover:bg-black text-white font-medium rounded-lg shadow-sm transition-all duration-200 text-sm"
+              disabled={isSubmitting}
+              className="w-full py-2.5 px-4 bg-gray-900 hover:bg-black text-white font-medium rounded-lg shadow-sm transition-all duration-200 text-sm disabled:opacity-60 disabled:cursor-not-allowed"
             >
-              {isLogin ? 'Sign In' : 'Sign Up'}
+              {isSubmitting ? 'Please wait...' : isLogin ? 'Sign In' : 'Sign Up'}
             </button>
           </form>
 
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface ColumnMenuProps {
+  columns: { key: string; label: string }[];
+  hiddenColumns: string[];
+  onChange: (hiddenColumns: string[]) => void;
+}
+
+const ColumnMenu: React.FC<ColumnMenuProps> = ({ columns, hiddenColumns, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const toggle = (key: string) => {
+    onChange(hiddenColumns.includes(key) ? hiddenColumns.filter(k => k !== key) : [...hiddenColumns, key]);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={`px-2.5 py-1 text-xs font-medium rounded-md border transition-colors ${isOpen ? 'bg-gray-100 text-gray-900 border-gray-300' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+      >
+        列{hiddenColumns.length > 0 && ` (${columns.length - columns.filter(c => hiddenColumns.includes(c.key)).length}/${columns.length})`}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 bottom-full mb-2 w-56 max-h-80 overflow-auto custom-scrollbar bg-white border border-gray-200 rounded-lg shadow-xl z-50 py-1">
+          {columns.map(col => (
+            <label key={col.key} className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-700 hover:bg-gray-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!hiddenColumns.includes(col.key)}
+                onChange={() => toggle(col.key)}
+                className="w-3.5 h-3.5 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span className="truncate">{col.label}</span>
+            </label>
+          ))}
+          {hiddenColumns.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="w-full text-left px-3 py-1.5 mt-1 border-t border-gray-100 text-xs text-indigo-600 hover:bg-indigo-50/60"
+            >
+              显示全部列
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMenu;
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { AnalysisColumn } from '../types';
+import { AnalysisColumn, AnalysisRevision } from '../types';
+import RevisionHistory from './RevisionHistory';
 
 interface DetailModalProps {
   isOpen: boolean;
@@ -9,6 +10,11 @@ interface DetailModalProps {
   content: string;
   type: AnalysisColumn | null;
   onSave: (newContent: string) => void;
+  readOnly?: boolean;
+  // Enables the history panel for this analysis field
+  paperId?: string;
+  fieldKey?: string;
+  onRevert?: (revision: AnalysisRevision) => Promise<void>;
 }
 
 const DetailModal: React.FC<DetailModalProps> = ({
@@ -18,22 +24,34 @@ const DetailModal: React.FC<DetailModalProps> = ({
   content,
   type,
   onSave,
+  readOnly = false,
+  paperId,
+  fieldKey,
+  onRevert,
 }) => {
   const modalRef = useRef<HTMLDivElement>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [isShowingHistory, setIsShowingHistory] = useState(false);
   const [editedContent, setEditedContent] = useState(content);
+  const hasHistory = !!(paperId && fieldKey && onRevert);
 
   useEffect(() => {
     setEditedContent(content);
     setIsEditing(false);
   }, [content, isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) setIsShowingHistory(false);
+  }, [isOpen]);
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
           if (isEditing) {
               setIsEditing(false);
               setEditedContent(content); // Reset on escape if editing
+          } else if (isShowingHistory) {
+              setIsShowingHistory(false);
           } else {
               onClose();
           }
@@ -47,7 +65,7 @@ const DetailModal: React.FC<DetailModalProps> = ({
       document.removeEventListener('keydown', handleEscape);
       document.body.style.overflow = 'unset';
     };
-  }, [isOpen, onClose, isEditing, content]);
+  }, [isOpen, onClose, isEditing, isShowingHistory, content]);
 
   if (!isOpen) return null;
 
@@ -93,7 +111,18 @@ const DetailModal: React.FC<DetailModalProps> = ({
              <h3 className="text-xl font-bold text-gray-800">{title}</h3>
           </div>
           <div className="flex items-center gap-2">
-            {!isEditing && (
+            {!isEditing && hasHistory && (
+                <button
+                    onClick={() => setIsShowingHistory(prev => !prev)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${isShowingHistory ? 'text-gray-900 bg-gray-200' : 'text-gray-600 bg-gray-100 hover:bg-gray-200'}`}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    History
+                </button>
+            )}
+            {!isEditing && !isShowingHistory && !readOnly && (
                 <button
                     onClick={() => setIsEditing(true)}
                     className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-lg transition-colors"
@@ -116,7 +145,15 @@ const DetailModal: React.FC<DetailModalProps> = ({
         </div>
         
         <div className="p-8 overflow-y-auto custom-scrollbar flex-1">
-            {isEditing ? (
+            {isShowingHistory && hasHistory ? (
+                <RevisionHistory
+                    paperId={paperId!}
+                    field={fieldKey!}
+                    currentValue={content}
+                    readOnly={readOnly}
+                    onRevert={onRevert!}
+                />
+            ) : isEditing ? (
                 <textarea
                     value={editedContent}
                     onChange={(e) => setEditedContent(e.target.value)}
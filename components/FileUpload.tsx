@@ -2,10 +2,10 @@ import React, { useState } from 'react';
 
 interface FileUploadProps {
   onFilesSelected: (files: File[]) => void;
-  isProcessing: boolean;
+  isProcessing?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, isProcessing }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelected, isProcessing = false }) => {
   const [isHovered, setIsHovered] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -0,0 +1,68 @@
+import React from 'react';
+import { PaperData } from '../types';
+
+interface TagStyle {
+  bg: string;
+  text: string;
+  border: string;
+}
+
+interface GalleryViewProps {
+  papers: PaperData[];
+  selectedIds: Set<string>;
+  onToggleSelect: (id: string) => void;
+  onOpen: (paper: PaperData) => void;
+  getTagStyle: (tag: string) => TagStyle;
+}
+
+const GalleryView: React.FC<GalleryViewProps> = ({ papers, selectedIds, onToggleSelect, onOpen, getTagStyle }) => {
+  return (
+    <div className="flex-1 overflow-auto custom-scrollbar p-4">
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-6 2xl:grid-cols-8 gap-4">
+        {papers.map(paper => {
+          const isSelected = selectedIds.has(paper.id);
+          return (
+            <div
+              key={paper.id}
+              className={`group relative flex flex-col rounded-lg border bg-white overflow-hidden transition-shadow hover:shadow-md ${isSelected ? 'border-indigo-400 ring-1 ring-indigo-300' : 'border-gray-200'}`}
+            >
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onToggleSelect(paper.id)}
+                className={`absolute top-2 left-2 z-10 w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500 cursor-pointer transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+              />
+              <button onClick={() => onOpen(paper)} className="aspect-[3/4] bg-gray-50 border-b border-gray-100 overflow-hidden">
+                {paper.thumbnail ? (
+                  <img src={paper.thumbnail} alt={paper.fileName} loading="lazy" className="w-full h-full object-cover object-top group-hover:scale-[1.02] transition-transform duration-300" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-300">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1} stroke="currentColor" className="w-12 h-12"><path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" /></svg>
+                  </div>
+                )}
+              </button>
+              <div className="p-2.5 flex flex-col gap-1.5 min-w-0">
+                <p className="text-xs font-medium text-gray-900 line-clamp-2 cursor-pointer hover:text-indigo-600 transition-colors" onClick={() => onOpen(paper)} title={paper.fileName}>
+                  {paper.analysis?.title || paper.fileName}
+                </p>
+                {paper.status === 'analyzing' && (
+                  <span className="text-[10px] text-amber-600">{paper.jobState === 'queued' ? '排队中...' : '正在分析...'}</span>
+                )}
+                {paper.tags && paper.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {paper.tags.map(tag => {
+                      const style = getTagStyle(tag);
+                      return <span key={tag} className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border ${style.bg} ${style.text} ${style.border}`}>{tag}</span>;
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GalleryView;
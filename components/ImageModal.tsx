@@ -4,9 +4,10 @@ interface ImageModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string | null;
+  caption?: string;
 }
 
-const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUrl }) => {
+const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUrl, caption }) => {
   const modalRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -45,9 +46,12 @@ const ImageModal: React.FC<ImageModalProps> = ({ isOpen, onClose, imageUrl }) =>
         </button>
         <img 
           src={imageUrl} 
-          alt="Enlarged screenshot" 
-          className="max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl border border-gray-700"
+          alt={caption || "Enlarged screenshot"} 
+          className={`max-w-full object-contain rounded-lg shadow-2xl border border-gray-700 ${caption ? 'max-h-[85vh]' : 'max-h-[90vh]'}`}
         />
+        {caption && (
+          <p className="mt-3 text-center text-sm text-white/90">{caption}</p>
+        )}
       </div>
     </div>
   );
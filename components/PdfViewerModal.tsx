@@ -1,20 +1,26 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
+import { Document, Page } from 'react-pdf';
 import { v4 as uuidv4 } from 'uuid';
 import { Highlight, PaperData } from '../types';
-
-// Set up the worker for PDF.js
-pdfjs.GlobalWorkerOptions.workerSrc = new URL(
-  'pdfjs-dist/build/pdf.worker.min.mjs',
-  import.meta.url
-).toString();
+import '../services/pdfjs';
+import { cacheRemotePaperFile, getCachedPaperFile } from '../services/offline';
+
+// Load only the byte ranges the rendered pages need instead of streaming the whole file
+// (pdf.js only honours disableAutoFetch with streaming disabled)
+const PDF_OPTIONS = {
+  disableAutoFetch: true,
+  disableStream: true,
+  rangeChunkSize: 256 * 1024,
+};
 
 interface PdfViewerModalProps {
   isOpen: boolean;
   onClose: () => void;
   paper: PaperData | null;
   onSave: (paperId: string, highlights: Highlight[]) => void;
+  readOnly?: boolean; // Viewers can browse highlights and notes but not change them
+  initialPage?: number; // Scrolled into view once it has rendered (e.g. from a search hit)
 }
 
 const COLORS = [
@@ -24,17 +30,20 @@ const COLORS = [
   { id: 'blue', hex: '#bfdbfe', label: 'Blue' },
 ];
 
-const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper, onSave }) => {
+const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper, onSave, readOnly = false, initialPage }) => {
   const modalRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const hasScrolledToPageRef = useRef(false);
   
   // PDF State
   const [numPages, setNumPages] = useState<number>(0);
   const [scale, setScale] = useState<number>(1.2);
-  const [fileData, setFileData] = useState<File | Blob | null>(null);
+  const [fileSource, setFileSource] = useState<string | Blob | null>(null);
   const [fileUrl, setFileUrl] = useState<string | null>(null);
   const [fileError, setFileError] = useState<string | null>(null);
-  const [isLoadingFile, setIsLoadingFile] = useState<boolean>(false);
+  // Offline copy of a stored PDF: null for papers that are still local Blobs
+  const [offlineCopy, setOfflineCopy] = useState<'none' | 'saving' | 'saved' | null>(null);
+  const offlineDownloadRef = useRef<AbortController | null>(null);
   
   // Highlight Data State
   const [highlights, setHighlights] = useState<Highlight[]>([]);
@@ -45,55 +54,45 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
   const [popoverPosition, setPopoverPosition] = useState<{x: number, y: number} | null>(null);
   const [tempNote, setTempNote] = useState<string>('');
 
-  // Load paper data when opened
+  // Load paper data when opened. Stored PDFs are opened by URL so pdf.js fetches
+  // byte ranges as pages are needed; a copy kept offline (see keepOffline) is used
+  // instead when there is one. Papers not uploaded yet are still local Blobs.
   useEffect(() => {
     if (!isOpen || !paper) return;
 
-    let isCancelled = false;
     let objectUrl: string | null = null;
+    let isCancelled = false;
+    setFileError(null);
 
-    const loadFile = async () => {
-      setFileError(null);
-      setIsLoadingFile(true);
-
-      try {
-        let blob: Blob;
-
-        if (typeof paper.file === 'string') {
-          const fileUrl = paper.file.startsWith('http')
-            ? paper.file
-            : new URL(paper.file, window.location.origin).toString();
-          const response = await fetch(fileUrl);
-          if (!response.ok) {
-            throw new Error(`下载失败: ${response.status}`);
-          }
-          blob = await response.blob();
-          if (!blob || blob.size === 0) {
-            throw new Error('文件为空或损坏');
-          }
-        } else {
-          blob = paper.file;
-        }
-
-        if (isCancelled) return;
-        setFileData(blob);
-
-        objectUrl = URL.createObjectURL(blob);
-        setFileUrl(objectUrl);
-      } catch (err) {
-        if (isCancelled) return;
-        const message = err instanceof Error ? err.message : String(err);
-        setFileError(message || '无法加载 PDF');
-        setFileData(null);
-        setFileUrl(null);
-      } finally {
-        if (!isCancelled) setIsLoadingFile(false);
-      }
+    const openBlob = (blob: Blob) => {
+      setFileSource(blob);
+      objectUrl = URL.createObjectURL(blob);
+      setFileUrl(objectUrl);
     };
 
-    loadFile();
+    if (typeof paper.file === 'string') {
+      const url = paper.file.startsWith('http')
+        ? paper.file
+        : new URL(paper.file, window.location.origin).toString();
+      setFileSource(null);
+      setOfflineCopy(null);
+      getCachedPaperFile(paper.id, paper.fileHash).then(cached => {
+        if (isCancelled) return;
+        setOfflineCopy(cached ? 'saved' : 'none');
+        if (cached) {
+          openBlob(cached);
+          return;
+        }
+        setFileSource(url);
+        setFileUrl(url);
+      });
+    } else {
+      setOfflineCopy(null);
+      openBlob(paper.file);
+    }
 
     setHighlights(paper.highlights || []);
+    hasScrolledToPageRef.current = false;
     setActiveHighlightId(null);
     setPopoverPosition(null);
     setTempNote('');
@@ -101,9 +100,23 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
     return () => {
       isCancelled = true;
       if (objectUrl) URL.revokeObjectURL(objectUrl);
+      offlineDownloadRef.current?.abort();
+      offlineDownloadRef.current = null;
     };
   }, [isOpen, paper]);
 
+  // Downloads the whole PDF into the offline copy; stopped if the viewer closes first
+  const keepOffline = async () => {
+    if (!paper || typeof paper.file !== 'string' || typeof fileSource !== 'string') return;
+    const controller = new AbortController();
+    offlineDownloadRef.current = controller;
+    setOfflineCopy('saving');
+    const saved = await cacheRemotePaperFile(paper.id, paper.fileHash, fileSource, controller.signal);
+    if (controller.signal.aborted) return;
+    offlineDownloadRef.current = null;
+    setOfflineCopy(saved ? 'saved' : 'none');
+  };
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
@@ -118,10 +131,24 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
     };
   }, [isOpen, onClose]);
 
+  // Also shown while the offline copy is looked up
+  const loadingIndicator = (
+    <div className="flex items-center gap-2 text-gray-500 mt-20">
+      <div className="w-6 h-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+      Loading PDF...
+    </div>
+  );
+
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
   };
 
+  const scrollToInitialPage = () => {
+    if (hasScrolledToPageRef.current || !initialPage) return;
+    hasScrolledToPageRef.current = true;
+    containerRef.current?.querySelector(`[data-page-number="${initialPage}"]`)?.scrollIntoView({ block: 'start' });
+  };
+
   const handleTextSelection = () => {
     // Close popover if selecting new text
     if (activeHighlightId) {
@@ -129,6 +156,8 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
         setPopoverPosition(null);
     }
 
+    if (readOnly) return;
+
     const selection = window.getSelection();
     if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return;
 
@@ -261,21 +290,39 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
 
           <div className="flex items-center gap-4">
              {/* Highlighter Tools - Color Picker for NEW highlights */}
-             <div className="flex items-center gap-2 bg-white px-2 py-1 rounded-lg border border-gray-200">
-                 <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Default Color</span>
-                 {COLORS.map(color => (
-                     <button
-                        key={color.id}
-                        onClick={(e) => { e.stopPropagation(); setSelectedColor(color.hex); }}
-                        className={`w-5 h-5 rounded-full border-2 transition-all ${selectedColor === color.hex ? 'border-gray-900 scale-110' : 'border-transparent hover:scale-105'}`}
-                        style={{ backgroundColor: color.hex }}
-                        title={color.label}
-                     />
-                 ))}
-             </div>
+             {readOnly ? (
+               <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider bg-white px-2 py-1 rounded-lg border border-gray-200">Read Only</span>
+             ) : (
+               <div className="flex items-center gap-2 bg-white px-2 py-1 rounded-lg border border-gray-200">
+                   <span className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Default Color</span>
+                   {COLORS.map(color => (
+                       <button
+                          key={color.id}
+                          onClick={(e) => { e.stopPropagation(); setSelectedColor(color.hex); }}
+                          className={`w-5 h-5 rounded-full border-2 transition-all ${selectedColor === color.hex ? 'border-gray-900 scale-110' : 'border-transparent hover:scale-105'}`}
+                          style={{ backgroundColor: color.hex }}
+                          title={color.label}
+                       />
+                   ))}
+               </div>
+             )}
 
              <div className="h-6 w-px bg-gray-300"></div>
 
+             {offlineCopy && (
+               <button
+                 onClick={(e) => { e.stopPropagation(); void keepOffline(); }}
+                 disabled={offlineCopy !== 'none' || !paper.fileHash}
+                 title="Download the whole PDF to this browser so it can be read offline"
+                 className="flex items-center gap-2 px-3 py-2 bg-white text-gray-700 text-sm font-medium rounded-lg border border-gray-200 hover:bg-gray-50 shadow-sm transition-colors disabled:opacity-60 disabled:hover:bg-white"
+               >
+                 {offlineCopy === 'saving'
+                   ? <div className="w-4 h-4 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                   : <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={offlineCopy === 'saved' ? 'M5 13l4 4L19 7' : 'M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4'} /></svg>}
+                 {offlineCopy === 'saved' ? 'Available Offline' : offlineCopy === 'saving' ? 'Saving...' : 'Keep Offline'}
+               </button>
+             )}
+
              {fileUrl && (
                <a
                  href={fileUrl}
@@ -289,13 +336,15 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
                </a>
              )}
 
-             <button
-                onClick={(e) => { e.stopPropagation(); handleSave(); }}
-                className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors"
-             >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
-                Save Annotations
-             </button>
+             {!readOnly && (
+               <button
+                  onClick={(e) => { e.stopPropagation(); handleSave(); }}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 shadow-sm transition-colors"
+               >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" /></svg>
+                  Save Annotations
+               </button>
+             )}
 
              <button
                 onClick={onClose}
@@ -313,16 +362,13 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
             onMouseUp={handleTextSelection}
         >
           <Document
-            file={fileData || undefined}
+            file={fileSource || undefined}
+            options={PDF_OPTIONS}
             onLoadSuccess={onDocumentLoadSuccess}
             onLoadError={(err) => setFileError(err.message || '无法加载 PDF')}
             className="shadow-xl"
-            loading={
-              <div className="flex items-center gap-2 text-gray-500 mt-20">
-                <div className="w-6 h-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                Loading PDF...
-              </div>
-            }
+            loading={loadingIndicator}
+            noData={loadingIndicator}
             error={
               <div className="text-red-500 bg-red-50 p-4 rounded-lg mt-10">
                 {fileError || 'Failed to load PDF. Check file format.'}
@@ -341,6 +387,7 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
                             renderTextLayer={true}
                             renderAnnotationLayer={true}
                             className="bg-white"
+                            onRenderSuccess={pageNum === initialPage ? scrollToInitialPage : undefined}
                             loading={<div className="h-[800px] w-[600px] bg-white animate-pulse"></div>}
                         />
                         
@@ -395,7 +442,7 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
                 {/* Popover Header */}
                 <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 bg-gray-50/50">
                     <span className="text-xs font-bold text-gray-600 uppercase tracking-wide">Annotation</span>
-                    <div className="flex gap-1">
+                    <div className={`flex gap-1 ${readOnly ? 'hidden' : ''}`}>
                         {COLORS.map(color => (
                             <button 
                                 key={color.id}
@@ -412,14 +459,16 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
                      <textarea
                         value={tempNote}
                         onChange={(e) => setTempNote(e.target.value)}
-                        placeholder="Add a note or comment..."
+                        placeholder={readOnly ? 'No note' : 'Add a note or comment...'}
+                        readOnly={readOnly}
                         className="w-full min-h-[100px] text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-3 focus:bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none resize-none mb-3"
                         autoFocus
                      />
                      <div className="flex items-center justify-between">
                          <button
                             onClick={deleteHighlight}
-                            className="text-red-500 hover:text-red-700 p-1.5 rounded-md hover:bg-red-50 transition-colors"
+                            disabled={readOnly}
+                            className={`text-red-500 hover:text-red-700 p-1.5 rounded-md hover:bg-red-50 transition-colors ${readOnly ? 'invisible' : ''}`}
                             title="Delete Highlight"
                          >
                              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
@@ -427,7 +476,7 @@ const PdfViewerModal: React.FC<PdfViewerModalProps> = ({ isOpen, onClose, paper,
                             </svg>
                          </button>
                          <button
-                            onClick={updateHighlightNote}
+                            onClick={readOnly ? handleGlobalClick : updateHighlightNote}
                             className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-md hover:bg-indigo-700 shadow-sm"
                          >
                              Done
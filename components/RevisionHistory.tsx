@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AnalysisRevision, RevisionSource } from '../types';
+import { getAnalysisRevisions } from '../services/db';
+
+interface RevisionHistoryProps {
+  paperId: string;
+  field: string;
+  currentValue: string;
+  readOnly?: boolean;
+  onRevert: (revision: AnalysisRevision) => Promise<void>;
+}
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+type CompareTarget = 'previous' | 'current';
+
+// Above this many token pairs the diff falls back to whole lines
+const MAX_WORD_DIFF_CELLS = 2_000_000;
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  ai: 'AI',
+  human: 'Edited',
+  unknown: 'Earlier',
+};
+
+const SOURCE_STYLES: Record<RevisionSource, string> = {
+  ai: 'bg-purple-50 text-purple-700 border-purple-200',
+  human: 'bg-blue-50 text-blue-700 border-blue-200',
+  unknown: 'bg-gray-50 text-gray-500 border-gray-200',
+};
+
+// Words, whitespace runs and single CJK characters, so Chinese text diffs per character
+const tokenize = (text: string, byLine: boolean) =>
+  byLine ? text.split(/(?<=\n)/) : text.match(/\s+|[\u3000-\u9fff\uff00-\uffef]|[^\s\u3000-\u9fff\uff00-\uffef]+/g) || [];
+
+// Longest-common-subsequence diff from `before` to `after`
+const diffText = (before: string, after: string): DiffPart[] => {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ paperId, field, currentValue, readOnly = false, onRevert }) => {
+  const [revisions, setRevisions] = useState<AnalysisRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>('previous');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isReverting, setIsReverting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError('');
+    getAnalysisRevisions(paperId, field)
+      .then(list => {
+        if (isCancelled) return;
+        setRevisions(list);
+        setSelectedId(list[0]?.id ?? null);
+      })
+      .catch(err => { if (!isCancelled) setError(err.message); })
+      .finally(() => { if (!isCancelled) setIsLoading(false); });
+    return () => { isCancelled = true; };
+  }, [paperId, field, currentValue]);
+
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    // Revisions are newest first, so the previous version is the next entry
+    return compareTo === 'previous'
+      ? diffText(revisions[selectedIndex + 1]?.value ?? '', selected.value)
+      : diffText(selected.value, currentValue);
+  }, [selected, selectedIndex, revisions, compareTo, currentValue]);
+
+  const handleRevert = async () => {
+    if (!selected) return;
+    setIsReverting(true);
+    setError('');
+    try {
+      await onRevert(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsReverting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-400">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return <div className="text-sm text-gray-400">{error || 'No changes have been recorded for this field yet.'}</div>;
+  }
+
+  return (
+    <div className="flex gap-6 min-h-[400px]">
+      <ul className="w-56 shrink-0 space-y-1 border-r border-gray-100 pr-4">
+        {revisions.map(r => (
+          <li key={r.id}>
+            <button
+              onClick={() => setSelectedId(r.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${r.id === selectedId ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-gray-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold border ${SOURCE_STYLES[r.source]}`}>{SOURCE_LABELS[r.source]}</span>
+                {r.value === currentValue && <span className="text-[10px] text-green-600 font-medium">Current</span>}
+              </div>
+              <p className="mt-1 text-[11px] text-gray-500 truncate">
+                {r.source === 'ai' ? (r.model || 'AI model') : (r.author || 'Unknown author')}
+                {r.revertedFrom && ' · restored'}
+              </p>
+              <p className="text-[11px] text-gray-400">{new Date(r.createdAt).toLocaleString()}</p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <div className="flex items-center gap-1 text-xs">
+              <span className="text-gray-500 mr-1">Compare with:</span>
+              {(['previous', 'current'] as CompareTarget[]).map(target => (
+                <button
+                  key={target}
+                  onClick={() => setCompareTo(target)}
+                  className={`px-2 py-1 rounded-md font-medium transition-colors ${compareTo === target ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  {target === 'previous' ? 'Previous version' : 'Current text'}
+                </button>
+              ))}
+            </div>
+            {!readOnly && selected.value !== currentValue && (
+              <button
+                onClick={handleRevert}
+                disabled={isReverting}
+                className="px-3 py-1.5 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded-lg transition-colors disabled:opacity-60"
+              >
+                {isReverting ? 'Restoring...' : 'Restore this version'}
+              </button>
+            )}
+          </div>
+          {error && (
+            <div className="mb-3 p-2 bg-red-50 text-red-600 text-xs rounded-lg border border-red-100">{error}</div>
+          )}
+          <div className="flex-1 p-4 bg-gray-50 rounded-lg border border-gray-100 text-sm leading-relaxed text-gray-700 whitespace-pre-wrap break-words">
+            {diff.map((part, i) => (
+              part.type === 'same'
+                ? <span key={i}>{part.text}</span>
+                : part.type === 'added'
+                  ? <ins key={i} className="bg-green-100 text-green-900 no-underline rounded-sm">{part.text}</ins>
+                  : <del key={i} className="bg-red-100 text-red-800 rounded-sm">{part.text}</del>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
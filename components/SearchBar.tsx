@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SearchHit, SearchResult } from '../types';
+import { searchPapersInDB } from '../services/db';
+
+interface SearchBarProps {
+  workspaceId: string | null;
+  fieldLabels: Record<string, string>; // Labels for AnalysisResult keys
+  onSelect: (paperId: string, hit: SearchHit) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FIXED_LABELS: Record<string, string> = {
+  fileName: '📄 文件名',
+  tag: '🏷️ 标签',
+  highlight: '🖍️ 高亮',
+  comment: '📝 笔记',
+  screenshot: '🖼️ 截图说明',
+  pdf: '📖 正文',
+};
+
+// Snippets mark matches with \u0002 … \u0003
+const renderSnippet = (snippet: string) =>
+  snippet.split('\u0002').map((part, i) => {
+    if (i === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+    const [match, rest = ''] = part.split('\u0003');
+    return (
+      <React.Fragment key={i}>
+        <mark className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">{match}</mark>{rest}
+      </React.Fragment>
+    );
+  });
+
+const SearchBar: React.FC<SearchBarProps> = ({ workspaceId, fieldLabels, onSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setError('');
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsSearching(true);
+      searchPapersInDB(trimmed, workspaceId, controller.signal)
+        .then(found => { setResults(found); setError(''); })
+        .catch(err => { if (!controller.signal.aborted) setError(err.message); })
+        .finally(() => { if (!controller.signal.aborted) setIsSearching(false); });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, workspaceId]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const fieldLabel = (hit: SearchHit) => {
+    const label = FIXED_LABELS[hit.field] || fieldLabels[hit.field] || hit.field;
+    return hit.page ? `${label} · 第 ${hit.page} 页` : label;
+  };
+
+  const handleSelect = (paperId: string, hit: SearchHit) => {
+    setIsOpen(false);
+    onSelect(paperId, hit);
+  };
+
+  return (
+    <div ref={containerRef} className="relative hidden lg:block">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}
+        placeholder="搜索分析、标签、笔记与全文..."
+        className="w-72 px-3 py-1.5 border border-gray-200 rounded-md text-xs text-gray-700 bg-white outline-none focus:ring-1 focus:ring-indigo-500"
+      />
+      {isOpen && query.trim() && (
+        <div className="absolute right-0 mt-2 w-[28rem] max-h-[70vh] overflow-auto custom-scrollbar bg-white border border-gray-200 rounded-lg shadow-xl z-50">
+          {error ? (
+            <div className="p-3 text-xs text-red-600">{error}</div>
+          ) : results.length === 0 ? (
+            <div className="p-3 text-xs text-gray-400">{isSearching ? '搜索中...' : '没有找到匹配的论文'}</div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {results.map(result => (
+                <li key={result.paperId} className="p-3">
+                  <p className="text-sm font-medium text-gray-900 truncate">{result.title || result.fileName}</p>
+                  <ul className="mt-1 space-y-1">
+                    {result.hits.map((hit, i) => (
+                      <li key={i}>
+                        <button
+                          onClick={() => handleSelect(result.paperId, hit)}
+                          className="w-full text-left px-2 py-1 rounded hover:bg-indigo-50/60 transition-colors"
+                        >
+                          <span className="block text-[10px] font-medium text-indigo-600">{fieldLabel(hit)}</span>
+                          <span className="block text-xs text-gray-600 line-clamp-2 break-words">{renderSnippet(hit.snippet)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
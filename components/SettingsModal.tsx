@@ -1,13 +1,25 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { LLMSettings, DEFAULT_SETTINGS } from '../types';
+import { LLMSettings, DEFAULT_SETTINGS, BackupImportMode } from '../types';
+import { getBackupUrl, importBackup } from '../services/backup';
+import StorageSection from './StorageSection';
+import ApiTokensSection from './ApiTokensSection';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: LLMSettings;
   onSave: (settings: LLMSettings) => void;
+  workspaceId?: string | null; // Library used for backup and restore
+  readOnly?: boolean;
+  onLibraryImported?: () => void;
 }
 
+const IMPORT_MODES: { id: BackupImportMode; name: string }[] = [
+  { id: 'skip', name: 'Skip papers that already exist' },
+  { id: 'overwrite', name: 'Overwrite existing papers' },
+  { id: 'keep-both', name: 'Keep both (import as copies)' },
+];
+
 const GOOGLE_MODELS = [
   { id: 'gemini-3-flash-preview', name: 'Gemini 3.0 Flash Preview (Fast & Efficient)' },
   { id: 'gemini-3-pro-preview', name: 'Gemini 3.0 Pro Preview (Complex Reasoning)' },
@@ -19,13 +31,22 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   onClose,
   settings,
   onSave,
+  workspaceId = null,
+  readOnly = false,
+  onLibraryImported,
 }) => {
   const [formData, setFormData] = useState<LLMSettings>(settings);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<BackupImportMode>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const modalRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isOpen) {
         setFormData(settings);
+        setImportFile(null);
+        setImportMessage(null);
     }
   }, [isOpen, settings]);
 
@@ -47,6 +68,29 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     onClose();
   };
 
+  const handleImport = async () => {
+    if (!importFile) return;
+    setIsImporting(true);
+    setImportMessage(null);
+    try {
+      const summary = await importBackup(importFile, importMode, workspaceId);
+      const parts = [
+        `${summary.imported} imported`,
+        summary.overwritten && `${summary.overwritten} overwritten`,
+        summary.keptBoth && `${summary.keptBoth} copied`,
+        summary.skipped && `${summary.skipped} skipped`,
+        summary.failed && `${summary.failed} failed`,
+      ].filter(Boolean);
+      setImportMessage({ type: summary.failed ? 'error' : 'success', text: `Restore finished: ${parts.join(', ')}.` });
+      setImportFile(null);
+      onLibraryImported?.();
+    } catch (err) {
+      setImportMessage({ type: 'error', text: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
@@ -59,6 +103,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           </button>
         </div>
 
+        <div className="max-h-[80vh] overflow-y-auto custom-scrollbar">
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
           
           <div className="flex items-center justify-between p-3 bg-indigo-50 rounded-lg border border-indigo-100">
@@ -98,9 +143,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                     name="apiKey"
                     value={formData.apiKey}
                     onChange={handleChange}
-                    placeholder="sk-..."
+                    placeholder={formData.hasApiKey ? 'Saved key (type to replace)' : 'sk-...'}
+                    autoComplete="new-password"
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-sm"
                   />
+                  {formData.hasApiKey && !formData.apiKey && (
+                    <p className="text-[10px] text-gray-400 mt-1">
+                      A key is stored encrypted on the server.{' '}
+                      <button type="button" onClick={() => setFormData(prev => ({ ...prev, hasApiKey: false }))} className="text-red-500 hover:text-red-700 font-medium">
+                        Remove saved key
+                      </button>
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -182,7 +236,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           <div className="pt-4 flex justify-end gap-3">
              <button
               type="button"
-              onClick={() => { setFormData(DEFAULT_SETTINGS); }}
+              onClick={() => { setFormData(prev => ({ ...DEFAULT_SETTINGS, hasApiKey: prev.hasApiKey })); }}
               className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
             >
               Reset Defaults
@@ -195,6 +249,67 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
             </button>
           </div>
         </form>
+
+        <div className="px-6 pb-6 pt-5 space-y-3 border-t border-gray-100">
+          <label className="block text-xs font-semibold text-gray-500 uppercase">Storage</label>
+          <StorageSection />
+        </div>
+
+        <div className="px-6 pb-6 pt-5 space-y-3 border-t border-gray-100">
+          <label className="block text-xs font-semibold text-gray-500 uppercase">API Tokens</label>
+          <ApiTokensSection />
+        </div>
+
+        <div className="px-6 pb-6 pt-5 space-y-3 border-t border-gray-100">
+          <label className="block text-xs font-semibold text-gray-500 uppercase">Library Backup</label>
+          <p className="text-[11px] text-gray-400">
+            One archive with all papers of the current library: metadata, tags, highlights, screenshots and PDFs.
+          </p>
+          <a
+            href={getBackupUrl(workspaceId)}
+            download
+            className="inline-block px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg shadow-sm"
+          >
+            Download Backup
+          </a>
+
+          {!readOnly && (
+            <div className="space-y-2 pt-2">
+              <input
+                type="file"
+                accept=".gz,.tgz,application/gzip"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                className="block w-full text-xs text-gray-600 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:text-xs file:font-medium file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+              />
+              <div className="flex items-center gap-2">
+                <select
+                  value={importMode}
+                  onChange={(e) => setImportMode(e.target.value as BackupImportMode)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  {IMPORT_MODES.map(mode => (
+                    <option key={mode.id} value={mode.id}>{mode.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={!importFile || isImporting}
+                  className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-black disabled:opacity-60"
+                >
+                  {isImporting ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {importMessage && (
+            <div className={`p-3 text-xs font-medium rounded-lg border ${importMessage.type === 'success' ? 'bg-green-50 text-green-700 border-green-100' : 'bg-red-50 text-red-600 border-red-100'}`}>
+              {importMessage.text}
+            </div>
+          )}
+        </div>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { StorageStats, UserStorage } from '../types';
+import { formatBytes, getStorageStats, setUserQuota } from '../services/storage';
+
+const MB = 1024 * 1024;
+
+const UsageBar: React.FC<{ used: number; quota: number | null }> = ({ used, quota }) => {
+  if (!quota) return null;
+  const percent = Math.min(100, Math.round((used / quota) * 100));
+  const color = percent >= 95 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-indigo-500';
+  return (
+    <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+      <div className={`h-full ${color} transition-all`} style={{ width: `${percent}%` }} />
+    </div>
+  );
+};
+
+// Quota input in MB: empty = server default, 0 = unlimited
+const QuotaInput: React.FC<{ user: UserStorage; onSaved: () => void }> = ({ user, onSaved }) => {
+  const initial = user.quotaBytes === null ? '' : String(Math.round(user.quotaBytes / MB));
+  const [value, setValue] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setValue(initial), [initial]);
+
+  const save = async () => {
+    if (value === initial) return;
+    const trimmed = value.trim();
+    const mb = Number(trimmed);
+    if (trimmed !== '' && !(Number.isFinite(mb) && mb >= 0)) {
+      setError('Invalid');
+      return;
+    }
+    try {
+      await setUserQuota(user.username, trimmed === '' ? null : Math.round(mb * MB));
+      setError(null);
+      onSaved();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="text"
+        inputMode="numeric"
+        value={value}
+        placeholder="default"
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); void save(); } }}
+        className={`w-20 px-2 py-1 border rounded text-xs text-right outline-none focus:ring-2 focus:ring-indigo-500 ${error ? 'border-red-300' : 'border-gray-300'}`}
+        title={error || 'Quota in MB. Empty uses the server default, 0 is unlimited.'}
+      />
+      <span className="text-[10px] text-gray-400">MB</span>
+    </div>
+  );
+};
+
+const StorageSection: React.FC = () => {
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    getStorageStats()
+      .then(data => { setStats(data); setError(null); })
+      .catch((e: Error) => setError(e.message));
+  };
+
+  useEffect(refresh, []);
+
+  if (error) {
+    return <p className="text-xs text-red-600">Could not load storage usage: {error}</p>;
+  }
+  if (!stats) {
+    return <p className="text-xs text-gray-400">Loading storage usage...</p>;
+  }
+
+  const { user } = stats;
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <div className="flex items-baseline justify-between text-sm">
+          <span className="font-medium text-gray-800">{formatBytes(user.usedBytes)}</span>
+          <span className="text-xs text-gray-500">{user.quotaBytes ? `of ${formatBytes(user.quotaBytes)}` : 'No quota'}</span>
+        </div>
+        <UsageBar used={user.usedBytes} quota={user.quotaBytes} />
+        <p className="text-[11px] text-gray-400">
+          {user.papers} papers ({user.trashedPapers} in trash) · {user.analyses} analyses · PDFs {formatBytes(user.pdfBytes)} · Screenshots {formatBytes(user.screenshotBytes)}
+        </p>
+      </div>
+
+      {stats.isAdmin && stats.users && stats.total && (
+        <div className="space-y-2 pt-2">
+          <label className="block text-xs font-semibold text-gray-500 uppercase">All Users</label>
+          <div className="max-h-56 overflow-auto custom-scrollbar border border-gray-200 rounded-lg">
+            <table className="w-full text-xs">
+              <thead className="bg-gray-50 text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-2 py-1.5 text-left font-medium">User</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Papers</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Used</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Quota</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {stats.users.map(u => (
+                  <tr key={u.username}>
+                    <td className="px-2 py-1.5 text-gray-800 truncate max-w-[8rem]">{u.username}</td>
+                    <td className="px-2 py-1.5 text-right text-gray-600">{u.papers}</td>
+                    <td className="px-2 py-1.5 text-right text-gray-600" title={`PDFs ${formatBytes(u.pdfBytes)} · Screenshots ${formatBytes(u.screenshotBytes)}`}>
+                      {formatBytes(u.usedBytes)}
+                      {u.effectiveQuotaBytes ? ` (${Math.round((u.usedBytes / u.effectiveQuotaBytes) * 100)}%)` : ''}
+                    </td>
+                    <td className="px-2 py-1.5 flex justify-end"><QuotaInput user={u} onSaved={refresh} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[11px] text-gray-400">
+            Total: {stats.total.users} users · {stats.total.papers} papers · {stats.total.analyses} analyses · {formatBytes(stats.total.usedBytes)} stored.
+            Disk: uploads{stats.total.storageBackend === 's3' ? ' (S3)' : ''} {stats.total.disk.uploads === null ? 'unavailable' : formatBytes(stats.total.disk.uploads)}, screenshots {formatBytes(stats.total.disk.screenshots)}, thumbnails {formatBytes(stats.total.disk.thumbnails)}, database {formatBytes(stats.total.disk.database)}.
+            Default quota: {stats.defaultQuotaBytes ? formatBytes(stats.defaultQuotaBytes) : 'unlimited'}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StorageSection;
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { PaperData, TrashedPaper } from '../types';
+import { deletePaperFromDB, getTrashFromDB, restorePaperFromDB } from '../services/db';
+
+interface TrashViewProps {
+  workspaceId: string | null;
+  readOnly?: boolean;
+  onRestored: (paper: PaperData) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashView: React.FC<TrashViewProps> = ({ workspaceId, readOnly = false, onRestored }) => {
+  const [items, setItems] = useState<TrashedPaper[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError('');
+    getTrashFromDB(workspaceId)
+      .then(listing => {
+        if (isCancelled) return;
+        setItems(listing.papers);
+        setRetentionDays(listing.retentionDays);
+      })
+      .catch(err => { if (!isCancelled) setError(err.message); })
+      .finally(() => { if (!isCancelled) setIsLoading(false); });
+    return () => { isCancelled = true; };
+  }, [workspaceId]);
+
+  const handleRestore = async (item: TrashedPaper) => {
+    setBusyId(item.id);
+    setError('');
+    try {
+      const restored = await restorePaperFromDB(item.id);
+      setItems(prev => prev.filter(p => p.id !== item.id));
+      onRestored(restored);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashedPaper) => {
+    if (!window.confirm(`永久删除「${item.title || item.fileName}」？PDF、标注和截图都将无法恢复。`)) return;
+    setBusyId(item.id);
+    setError('');
+    try {
+      if (!(await deletePaperFromDB(item.id, true))) throw new Error('无法连接服务器');
+      setItems(prev => prev.filter(p => p.id !== item.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const daysLeft = (deletedAt: number) => Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  if (isLoading) {
+    return <div className="flex-1 flex items-center justify-center text-sm text-gray-400">加载中...</div>;
+  }
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-100 bg-gray-50 text-xs text-gray-500">
+        回收站中的论文会在删除 {retentionDays} 天后被永久清除。恢复后标注与截图保持不变。
+      </div>
+      {error && (
+        <div className="m-4 p-3 bg-red-50 text-red-600 text-xs font-medium rounded-lg border border-red-100">{error}</div>
+      )}
+      {items.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-400">回收站为空</div>
+      ) : (
+        <ul className="flex-1 overflow-auto custom-scrollbar divide-y divide-gray-100">
+          {items.map(item => (
+            <li key={item.id} className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-gray-50/80">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.title || item.fileName}</p>
+                <p className="text-[11px] text-gray-400 mt-0.5 truncate">
+                  {item.fileName} · 删除于 {new Date(item.deletedAt).toLocaleString()} · {daysLeft(item.deletedAt)} 天后清除
+                  {item.highlightCount > 0 && ` · ${item.highlightCount} 条标注`}
+                  {item.screenshotCount > 0 && ` · ${item.screenshotCount} 张截图`}
+                </p>
+              </div>
+              {!readOnly && (
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    onClick={() => handleRestore(item)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1 text-xs font-medium text-indigo-600 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 rounded transition-colors disabled:opacity-60"
+                  >
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => handlePurge(item)}
+                    disabled={busyId === item.id}
+                    className="px-3 py-1 text-xs font-medium text-gray-400 hover:text-red-600 transition-colors disabled:opacity-60"
+                  >
+                    永久删除
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Workspace, WorkspaceRole } from '../types';
+import { addWorkspaceMember, createWorkspace, deleteWorkspace, removeWorkspaceMember, updateWorkspaceMember } from '../services/workspaces';
+
+interface WorkspaceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  workspace: Workspace | null; // Active workspace, null for the personal library
+  currentUser: string;
+  onWorkspaceCreated: (workspace: Workspace) => void;
+  onWorkspaceUpdated: (workspace: Workspace) => void;
+  onWorkspaceRemoved: (workspaceId: string) => void;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: '所有者',
+  editor: '编辑者',
+  viewer: '只读',
+};
+
+const WorkspaceModal: React.FC<WorkspaceModalProps> = ({
+  isOpen,
+  onClose,
+  workspace,
+  currentUser,
+  onWorkspaceCreated,
+  onWorkspaceUpdated,
+  onWorkspaceRemoved,
+}) => {
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>('editor');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setError('');
+      setMemberName('');
+      setNewWorkspaceName('');
+    }
+  }, [isOpen, workspace?.id]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const isOwner = workspace?.role === 'owner';
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+    run(async () => {
+      const created = await createWorkspace(newWorkspaceName.trim());
+      setNewWorkspaceName('');
+      onWorkspaceCreated(created);
+    });
+  };
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!workspace || !memberName.trim()) return;
+    run(async () => {
+      const updated = await addWorkspaceMember(workspace.id, memberName.trim(), memberRole);
+      setMemberName('');
+      onWorkspaceUpdated(updated);
+    });
+  };
+
+  const handleRoleChange = (username: string, role: WorkspaceRole) => {
+    if (!workspace) return;
+    run(async () => {
+      onWorkspaceUpdated(await updateWorkspaceMember(workspace.id, username, role));
+    });
+  };
+
+  const handleRemoveMember = (username: string) => {
+    if (!workspace) return;
+    const isSelf = username === currentUser;
+    if (!window.confirm(isSelf ? `确定退出工作区 "${workspace.name}"？` : `确定将 ${username} 移出工作区？`)) return;
+    run(async () => {
+      await removeWorkspaceMember(workspace.id, username);
+      if (isSelf) {
+        onWorkspaceRemoved(workspace.id);
+      } else {
+        onWorkspaceUpdated({ ...workspace, members: workspace.members.filter(m => m.username !== username) });
+      }
+    });
+  };
+
+  const handleDeleteWorkspace = () => {
+    if (!workspace || !window.confirm(`确定删除工作区 "${workspace.name}"？`)) return;
+    run(async () => {
+      await deleteWorkspace(workspace.id);
+      onWorkspaceRemoved(workspace.id);
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-gray-100 bg-gray-50">
+          <h3 className="text-lg font-bold text-gray-800">{workspace ? workspace.name : '工作区'}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          {workspace && (
+            <div className="space-y-3">
+              <label className="block text-xs font-semibold text-gray-500 uppercase">成员</label>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {workspace.members.map(member => (
+                  <li key={member.username} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span className="font-medium text-gray-800">
+                      {member.username}
+                      {member.username === currentUser && <span className="ml-1 text-[10px] text-gray-400">(你)</span>}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {isOwner ? (
+                        <select
+                          value={member.role}
+                          disabled={isBusy}
+                          onChange={(e) => handleRoleChange(member.username, e.target.value as WorkspaceRole)}
+                          className="px-2 py-1 border border-gray-300 rounded text-xs bg-white"
+                        >
+                          {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => (
+                            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-gray-500">{ROLE_LABELS[member.role]}</span>
+                      )}
+                      {(isOwner || member.username === currentUser) && (
+                        <button
+                          onClick={() => handleRemoveMember(member.username)}
+                          disabled={isBusy}
+                          className="text-xs text-gray-400 hover:text-red-600 transition-colors"
+                        >
+                          {member.username === currentUser ? '退出' : '移除'}
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {isOwner && (
+                <form onSubmit={handleAddMember} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={memberName}
+                    onChange={(e) => setMemberName(e.target.value)}
+                    placeholder="用户名"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-sm"
+                  />
+                  <select
+                    value={memberRole}
+                    onChange={(e) => setMemberRole(e.target.value as WorkspaceRole)}
+                    className="px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                  >
+                    {(Object.keys(ROLE_LABELS) as WorkspaceRole[]).map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button type="submit" disabled={isBusy} className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 disabled:opacity-60">
+                    添加
+                  </button>
+                </form>
+              )}
+
+              {isOwner && (
+                <button onClick={handleDeleteWorkspace} disabled={isBusy} className="text-xs text-red-500 hover:text-red-700">
+                  删除工作区
+                </button>
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="space-y-2">
+            <label className="block text-xs font-semibold text-gray-500 uppercase">新建工作区</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="例如：周三读书会"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none text-sm"
+              />
+              <button type="submit" disabled={isBusy} className="px-4 py-2 bg-gray-900 text-white text-sm rounded-lg hover:bg-black disabled:opacity-60">
+                创建
+              </button>
+            </div>
+          </form>
+
+          {error && (
+            <div className="p-3 bg-red-50 text-red-600 text-xs font-medium rounded-lg border border-red-100">{error}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceModal;
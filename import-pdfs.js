@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+// Bulk import of PDFs already on disk. Run it on the server machine:
+//   node import-pdfs.js <folder> --user <name> [options]
+// It writes to the same database and PDF storage (STORAGE_BACKEND) as server.js. Analyses it
+// queues are run by the server (right away if it is running, otherwise on its next start).
+const path = require('path');
+const fs = require('fs');
+const { openDatabase } = require('./server/db');
+const { createStore } = require('./server/store');
+const { createIngester, savedAnalysisSettings } = require('./server/ingest');
+const { storageFromEnv } = require('./server/files');
+
+// Same locations as server.js
+const DATA_DIR = path.join(__dirname, 'data');
+const DB_PATH = process.env.DB_PATH || path.join(DATA_DIR, 'paperscope.db');
+
+const USAGE = `Usage: node import-pdfs.js <folder> --user <name> [options]
+
+Options:
+  --user <name>        Owner of the imported papers (required)
+  --workspace <id>     Import into this workspace instead of the personal library
+  --tag <tag>          Add this tag to every paper (repeatable)
+  --folder-tags        Tag each paper with the names of its sub-folders below <folder>
+  --no-recursive       Only import PDFs directly inside <folder>
+  --analyze            Queue an analysis for each imported paper (uses the user's saved model settings)
+  --move               Move the files into the library instead of copying them
+  --dry-run            Report what would be imported without changing anything
+  --report <file>      Also write the results as JSON to <file>
+  --help               Show this help
+`;
+
+const parseArgs = (argv) => {
+    const options = { tags: [], recursive: true };
+    const valueOf = (flag, i) => {
+        const value = argv[i + 1];
+        if (value === undefined || value.startsWith('--')) throw new Error(`${flag} needs a value`);
+        return value;
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--user': options.user = valueOf(arg, i++); break;
+            case '--workspace': options.workspace = valueOf(arg, i++); break;
+            case '--tag': options.tags.push(valueOf(arg, i++)); break;
+            case '--report': options.report = valueOf(arg, i++); break;
+            case '--folder-tags': options.folderTags = true; break;
+            case '--no-recursive': options.recursive = false; break;
+            case '--analyze': options.analyze = true; break;
+            case '--move': options.move = true; break;
+            case '--dry-run': options.dryRun = true; break;
+            case '--help': options.help = true; break;
+            default:
+                if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+                if (options.folder) throw new Error(`Only one folder can be imported at a time (got ${options.folder} and ${arg})`);
+                options.folder = arg;
+        }
+    }
+    return options;
+};
+
+// PDFs below `dir` in a stable order; hidden files and folders are skipped
+const findPdfs = async (dir, recursive) => {
+    const found = [];
+    const walk = async (current) => {
+        const entries = await fs.promises.readdir(current, { withFileTypes: true });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (entry.name.startsWith('.')) continue;
+            const fullPath = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                if (recursive) await walk(fullPath);
+            } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.pdf')) {
+                found.push(fullPath);
+            }
+        }
+    };
+    await walk(dir);
+    return found;
+};
+
+const folderTagsFor = (root, filePath) => path.relative(root, path.dirname(filePath))
+    .split(path.sep)
+    .map(part => part.trim())
+    .filter(part => part && part !== '.');
+
+const formatBytes = (bytes) => (bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!options.folder || !options.user) {
+        console.error(USAGE);
+        return 2;
+    }
+
+    const root = path.resolve(options.folder);
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) throw new Error(`${root} is not a folder`);
+
+    const store = createStore(openDatabase(DB_PATH, DATA_DIR));
+    const storage = storageFromEnv({ dataDir: DATA_DIR });
+    if (!options.dryRun) await storage.init();
+
+    if (!store.getUser(options.user)) throw new Error(`User ${options.user} does not exist`);
+    if (options.workspace) {
+        const workspace = store.getWorkspace(options.workspace);
+        const member = workspace && workspace.members.find(m => m.username === options.user);
+        if (!member) throw new Error(`Workspace ${options.workspace} not found for ${options.user}`);
+        if (member.role === 'viewer') throw new Error(`${options.user} can only view workspace ${workspace.name}`);
+    }
+
+    const analysisSettings = options.analyze ? savedAnalysisSettings(store, options.user) : undefined;
+
+    const files = await findPdfs(root, options.recursive);
+    console.log(`📂 Found ${files.length} PDFs in ${root}${options.dryRun ? ' (dry run)' : ''}`);
+
+    const ingester = createIngester({ store, storage });
+    const batch = new Map();
+    const results = [];
+    for (const [index, filePath] of files.entries()) {
+        const tags = [...new Set([...options.tags, ...(options.folderTags ? folderTagsFor(root, filePath) : [])])];
+        const result = await ingester.ingestFile(filePath, {
+            username: options.user,
+            workspaceId: options.workspace,
+            tags,
+            move: options.move,
+            analysisSettings,
+            dryRun: options.dryRun,
+            batch,
+        });
+        results.push(result);
+
+        const label = `[${index + 1}/${files.length}] ${path.relative(root, filePath)}`;
+        if (result.status === 'imported') console.log(`   ✅ ${label}${tags.length ? ` (${tags.join(', ')})` : ''}`);
+        else if (result.status === 'duplicate') console.log(`   ⏭️  ${label}: same PDF as ${result.duplicateName || result.duplicateOf}`);
+        else console.log(`   ❌ ${label}: ${result.reason}`);
+    }
+
+    const imported = results.filter(r => r.status === 'imported');
+    const duplicates = results.filter(r => r.status === 'duplicate');
+    const rejected = results.filter(r => r.status === 'rejected');
+    const summary = {
+        folder: root,
+        user: options.user,
+        workspaceId: options.workspace || null,
+        dryRun: !!options.dryRun,
+        found: files.length,
+        imported: imported.length,
+        duplicates: duplicates.length,
+        rejected: rejected.length,
+        importedBytes: imported.reduce((sum, r) => sum + r.size, 0),
+        analysesQueued: options.analyze && !options.dryRun ? imported.length : 0,
+    };
+
+    console.log(`\n📦 ${options.dryRun ? 'Would import' : 'Imported'} ${summary.imported} of ${summary.found} PDFs (${formatBytes(summary.importedBytes)})`);
+    console.log(`   ${summary.duplicates} already in the library, ${summary.rejected} rejected`);
+    if (summary.analysesQueued) console.log(`   🧠 ${summary.analysesQueued} analyses queued; the server runs them`);
+    rejected.forEach(r => console.log(`   ❌ ${path.relative(root, r.filePath)}: ${r.reason}`));
+
+    if (options.report) {
+        fs.writeFileSync(options.report, JSON.stringify({ ...summary, results }, null, 2));
+        console.log(`📝 Report written to ${options.report}`);
+    }
+    return rejected.length ? 1 : 0;
+};
+
+main()
+    .then(code => { process.exitCode = code; })
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 2;
+    });
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+// Moves the stored PDFs from one storage backend to another, e.g. from data/uploads
+// into an S3 bucket. Both backends are configured with the same environment
+// variables as the server (S3_BUCKET, S3_ENDPOINT, ...):
+//   node migrate-storage.js --to s3 [--from fs] [--delete-source] [--dry-run]
+// Files already in the target with the same size are skipped, so it can run once
+// while the server is up and again after stopping it, before STORAGE_BACKEND is switched.
+const path = require('path');
+const fs = require('fs');
+const { hashFile } = require('./server/ingest');
+const { STORAGE_BACKENDS, storageFromEnv } = require('./server/files');
+
+// Same location as server.js
+const DATA_DIR = path.join(__dirname, 'data');
+
+const USAGE = `Usage: node migrate-storage.js --to <${STORAGE_BACKENDS.join('|')}> [options]
+
+Options:
+  --to <backend>     Backend to copy the PDFs into (required)
+  --from <backend>   Backend to copy them from (default: STORAGE_BACKEND, else fs)
+  --delete-source    Remove each file from the source once its copy is verified
+  --dry-run          Report what would be copied without changing anything
+  --report <file>    Also write the per-file results as JSON to <file>
+  --help             Show this help
+`;
+
+const parseArgs = (argv) => {
+    const options = { from: process.env.STORAGE_BACKEND || 'fs' };
+    const value = (i, flag) => {
+        const next = argv[i + 1];
+        if (!next || next.startsWith('--')) throw new Error(`${flag} needs a value`);
+        return next;
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--to': options.to = value(i++, arg); break;
+            case '--from': options.from = value(i++, arg); break;
+            case '--delete-source': options.deleteSource = true; break;
+            case '--dry-run': options.dryRun = true; break;
+            case '--report': options.report = value(i++, arg); break;
+            case '--help': options.help = true; break;
+            default: throw new Error(`Unknown option ${arg}`);
+        }
+    }
+    return options;
+};
+
+// Copies one file; the source copy is only removed once the target returns the same bytes
+const migrateFile = async (file, { source, target, deleteSource, dryRun }) => {
+    const existing = await target.stat(file.key);
+    const present = existing && existing.size === file.size;
+    if (dryRun) return { key: file.key, status: present ? 'skipped' : 'copied', size: file.size, dryRun: true };
+
+    let tempPath = null;
+    try {
+        let sourceHash = null;
+        if (!present) {
+            let localPath = source.localPath ? source.localPath(file.key) : null;
+            if (!localPath) {
+                tempPath = source.tempPath(file.key);
+                if (!(await source.download(file.key, tempPath))) return { key: file.key, status: 'failed', reason: 'Gone from the source' };
+                localPath = tempPath;
+            }
+            sourceHash = await hashFile(localPath);
+            await target.put(file.key, localPath, { move: !!tempPath });
+            tempPath = null;
+        }
+        if (deleteSource) {
+            if (!sourceHash) sourceHash = await source.hash(file.key);
+            if (await target.hash(file.key) !== sourceHash) return { key: file.key, status: 'failed', reason: 'Copy differs from the source; source kept' };
+            await source.remove(file.key);
+        }
+        return { key: file.key, status: present ? 'skipped' : 'copied', size: file.size, deleted: !!deleteSource };
+    } catch (e) {
+        return { key: file.key, status: 'failed', reason: e.message || String(e) };
+    } finally {
+        if (tempPath) await fs.promises.rm(tempPath, { force: true });
+    }
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+    if (options.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!options.to) {
+        console.error(USAGE);
+        return 2;
+    }
+    if (options.to === options.from) throw new Error(`Source and target are both ${options.to}`);
+
+    const source = storageFromEnv({ dataDir: DATA_DIR, kind: options.from });
+    const target = storageFromEnv({ dataDir: DATA_DIR, kind: options.to });
+    await source.init();
+    await target.init();
+
+    const files = await source.list();
+    const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+    console.log(`📦 ${files.length} files (${(totalBytes / 1024 / 1024).toFixed(1)} MB) in ${source.description} → ${target.description}${options.dryRun ? ' (dry run)' : ''}`);
+
+    const results = [];
+    for (const [index, file] of files.entries()) {
+        const result = await migrateFile(file, { source, target, deleteSource: options.deleteSource, dryRun: options.dryRun });
+        results.push(result);
+        const position = `[${index + 1}/${files.length}]`;
+        if (result.status === 'copied') console.log(`   ✅ ${position} ${file.key}`);
+        else if (result.status === 'skipped') console.log(`   ⏭️  ${position} ${file.key}: already in the target`);
+        else console.log(`   ❌ ${position} ${file.key}: ${result.reason}`);
+    }
+
+    const count = (status) => results.filter(r => r.status === status).length;
+    const failed = count('failed');
+    console.log(`\n${options.dryRun ? 'Would copy' : 'Copied'} ${count('copied')}, skipped ${count('skipped')}, failed ${failed}${options.deleteSource && !options.dryRun ? `, removed ${results.filter(r => r.deleted).length} from the source` : ''}`);
+    if (!options.dryRun && failed === 0) console.log(`👉 Set STORAGE_BACKEND=${options.to} and restart the server to use the new storage.`);
+
+    if (options.report) {
+        fs.writeFileSync(options.report, JSON.stringify({ from: options.from, to: options.to, results }, null, 2));
+        console.log(`📝 Report written to ${options.report}`);
+    }
+    return failed > 0 ? 1 : 0;
+};
+
+main()
+    .then(code => { process.exitCode = code; })
+    .catch(e => {
+        console.error(`❌ ${e.message}`);
+        process.exitCode = 2;
+    });
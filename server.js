@@ -2,189 +2,1484 @@
 const express = require('express');
 const path = require('path');
 const fs = require('fs');
+const crypto = require('crypto');
+const auth = require('./server/auth');
+const { openDatabase } = require('./server/db');
+const { createStore, isValidPaperId } = require('./server/store');
+const analysis = require('./server/analysis');
+const { createJobRunner } = require('./server/jobs');
+const backup = require('./server/backup');
+const { createTextIndexer } = require('./server/search');
+const preferences = require('./server/preferences');
+const { createEventHub } = require('./server/events');
+const { buildOpenApiDocument } = require('./server/openapi');
+const { hashFile, createIngester, savedAnalysisSettings } = require('./server/ingest');
+const { createInboxWatcher } = require('./server/inbox');
+const { createIntegrityChecker } = require('./server/integrity');
+const { storageFromEnv, paperFileKey } = require('./server/files');
 const app = express();
 
 // Use process.env.PORT for Cloud Run, fallback to 8080 for local
 const PORT = process.env.PORT || 8080;
 
-// Increase payload limit for base64 uploads (PDFs can be large)
-app.use(express.json({ limit: '500mb' }));
-app.use(express.urlencoded({ limit: '500mb', extended: true }));
+// PDFs and screenshots are streamed through their own routes; JSON bodies only
+// carry metadata plus the banner image data URL
+app.use(express.json({ limit: '50mb' }));
+app.use(express.urlencoded({ limit: '50mb', extended: true }));
 
 // Enable CORS for development
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, If-Match, Range');
+  res.header('Access-Control-Expose-Headers', 'ETag, Accept-Ranges, Content-Range, Content-Length');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   next();
 });
 
 // --- Storage Setup ---
 const DATA_DIR = path.join(__dirname, 'data');
-const UPLOAD_DIR = path.join(DATA_DIR, 'uploads');
-const DB_PATH = path.join(DATA_DIR, 'data_store.json');
-const CONFIG_PATH = path.join(DATA_DIR, 'config_store.json');
+const THUMBNAIL_DIR = path.join(DATA_DIR, 'thumbnails');
+const SCREENSHOT_DIR = path.join(DATA_DIR, 'screenshots');
+const QUARANTINE_DIR = path.join(DATA_DIR, 'quarantine');
+const DB_PATH = process.env.DB_PATH || path.join(DATA_DIR, 'paperscope.db');
+const SECRET_PATH = path.join(DATA_DIR, 'session_secret');
+const PREFERENCES_KEY_PATH = path.join(DATA_DIR, 'preferences_key');
+const MAX_UPLOAD_BYTES = (Number(process.env.MAX_UPLOAD_MB) || 500) * 1024 * 1024;
+const MAX_BACKUP_BYTES = (Number(process.env.MAX_BACKUP_MB) || 2048) * 1024 * 1024;
+const ANALYSIS_CONCURRENCY = Math.max(1, Number(process.env.ANALYSIS_CONCURRENCY) || 2);
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const DEFAULT_QUOTA_BYTES = (Number(process.env.USER_QUOTA_MB) || 0) * 1024 * 1024; // 0 = unlimited
+const ADMIN_USERS = new Set((process.env.ADMIN_USERS || '').split(',').map(name => name.trim()).filter(Boolean));
+const INBOX_DIR = process.env.INBOX_DIR ? path.resolve(process.env.INBOX_DIR) : null;
+const INBOX_USER = process.env.INBOX_USER || null;
+const INBOX_WORKSPACE = process.env.INBOX_WORKSPACE || null;
+const INBOX_TAGS = (process.env.INBOX_TAGS || '').split(',').map(tag => tag.trim()).filter(Boolean);
+const INBOX_ANALYZE = process.env.INBOX_ANALYZE !== 'false';
+const INBOX_POLL_MS = (Number(process.env.INBOX_POLL_SECONDS) || 10) * 1000;
 
-// Ensure directories exist
+// Ensure directories exist, open the database (runs pending migrations and imports
+// the legacy JSON stores on first start) and set up the PDF storage (STORAGE_BACKEND)
+let store;
+let storage;
 try {
     if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
-    if (!fs.existsSync(UPLOAD_DIR)) fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-    
-    // Initialize DB files if they don't exist
-    if (!fs.existsSync(DB_PATH)) fs.writeFileSync(DB_PATH, JSON.stringify([]));
-    if (!fs.existsSync(CONFIG_PATH)) fs.writeFileSync(CONFIG_PATH, JSON.stringify({ banner: '/banner.jpg' }));
+    if (!fs.existsSync(THUMBNAIL_DIR)) fs.mkdirSync(THUMBNAIL_DIR, { recursive: true });
+    if (!fs.existsSync(SCREENSHOT_DIR)) fs.mkdirSync(SCREENSHOT_DIR, { recursive: true });
+
+    store = createStore(openDatabase(DB_PATH, DATA_DIR));
+    storage = storageFromEnv({ dataDir: DATA_DIR });
     
     console.log("✅ Storage System Initialized");
 } catch (e) {
     console.error("❌ FATAL ERROR: Could not initialize storage.", e);
+    process.exit(1);
 }
 
-// --- Helpers ---
-const getData = () => {
-  try {
-    if (!fs.existsSync(DB_PATH)) return [];
-    const content = fs.readFileSync(DB_PATH, 'utf-8');
-    return content ? JSON.parse(content) : [];
-  } catch (e) {
-    console.error("❌ Error reading DB:", e);
-    return [];
-  }
+// --- Sessions ---
+const SESSION_SECRET = auth.loadSessionSecret(SECRET_PATH);
+const PREFERENCES_KEY = preferences.loadEncryptionKey(PREFERENCES_KEY_PATH);
+
+const API_TOKEN_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// Resolve the caller (if any) from an API token (Authorization: Bearer) or the session cookie.
+// A request carrying a bearer token never falls back to the cookie.
+app.use((req, res, next) => {
+    req.user = null;
+    req.apiToken = null;
+
+    const bearer = auth.parseBearerToken(req.headers.authorization);
+    if (bearer) {
+        const token = store.findApiTokenByHash(auth.hashApiToken(bearer));
+        const now = Date.now();
+        if (token && !(token.expiresAt && token.expiresAt < now) && store.getUser(token.username)) {
+            req.user = { username: token.username };
+            req.apiToken = token;
+            if (!token.lastUsedAt || now - token.lastUsedAt > API_TOKEN_TOUCH_INTERVAL_MS) store.touchApiToken(token.id, now);
+        }
+        return next();
+    }
+
+    const cookies = auth.parseCookies(req.headers.cookie);
+    const username = auth.verifySessionToken(cookies[auth.SESSION_COOKIE], SESSION_SECRET);
+    req.user = username && store.getUser(username) ? { username } : null;
+    next();
+});
+
+const rejectUnauthenticated = (req, res) => {
+    if (auth.parseBearerToken(req.headers.authorization)) {
+        return res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({ error: "Invalid or expired API token" });
+    }
+    res.status(401).json({ error: "Not signed in" });
 };
 
-const setData = (data) => {
-  try {
-    fs.writeFileSync(DB_PATH, JSON.stringify(data, null, 2));
-    return true;
-  } catch (e) {
-    console.error("❌ Error writing DB:", e);
-    return false;
-  }
+// Session only: account, token, preference and backup routes
+const requireAuth = (req, res, next) => {
+    if (!req.user) return rejectUnauthenticated(req, res);
+    if (req.apiToken) return res.status(403).json({ error: "This endpoint needs a signed-in session, not an API token" });
+    next();
 };
 
-const getConfig = () => {
-    try {
-        if (!fs.existsSync(CONFIG_PATH)) return { banner: '/banner.jpg' };
-        return JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
-    } catch {
-        return { banner: '/banner.jpg' };
+// Routes scripts may call (see GET /api/openapi.json). Sessions pass; API tokens need `scope`.
+const requireScope = (scope) => (req, res, next) => {
+    if (!req.user) return rejectUnauthenticated(req, res);
+    if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+        return res.status(403).set('WWW-Authenticate', `Bearer error="insufficient_scope", scope="${scope}"`)
+            .json({ error: `API token lacks the ${scope} scope` });
     }
+    next();
 };
 
-const setConfig = (config) => {
+// --- API Routes ---
+
+// Auth
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+app.post('/api/auth/register', (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+        return res.status(400).json({ error: "Username must be 2-32 characters: letters, digits, '.', '_' or '-'." });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+    }
+
+    if (store.usernameTaken(username)) {
+        return res.status(409).json({ error: "Username already exists." });
+    }
+
     try {
-        fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
-    } catch(e) {
-        console.error("Error writing config:", e);
+        const { salt, hash } = auth.hashPassword(password);
+        store.createUser({ username, salt, passwordHash: hash });
+    } catch (e) {
+        console.error("❌ Error creating user:", e);
+        return res.status(500).json({ error: "Failed to create account" });
     }
-};
 
-// --- API Routes ---
+    console.log(`👤 Registered user: ${username}`);
+    res.status(201).json({ username });
+});
+
+app.post('/api/auth/login', (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({ error: "Please enter both username and password." });
+    }
+
+    const user = store.getUser(username);
+    if (!user || !auth.verifyPassword(password, user.salt, user.passwordHash)) {
+        return res.status(401).json({ error: "Invalid username or password." });
+    }
+
+    auth.setSessionCookie(req, res, auth.createSessionToken(user.username, SESSION_SECRET));
+    res.json({ username: user.username });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+    auth.clearSessionCookie(res);
+    res.json({ success: true });
+});
+
+app.get('/api/auth/me', requireAuth, (req, res) => {
+    res.json({ username: req.user.username });
+});
 
 // Health Check
 app.get('/api/health', (req, res) => {
-    res.json({ status: 'ok', storage: fs.existsSync(DB_PATH) ? 'writable' : 'error' });
+    let storage = 'error';
+    try {
+        store.getConfig('banner');
+        storage = 'writable';
+    } catch (e) {
+        console.error("❌ Storage health check failed:", e);
+    }
+    res.json({ status: 'ok', storage });
+});
+
+// --- Access Control ---
+// Ownership is always derived from the session, never from the request body.
+// Personal papers belong to their uploader; workspace papers follow the member's role.
+const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'];
+
+const getWorkspaceRole = (workspace, user) => {
+    if (!workspace || !user) return null;
+    const member = (workspace.members || []).find(m => m.username === user.username);
+    return member ? member.role : null;
+};
+
+const getPaperRole = (paper, user) => {
+    if (!paper || !user) return null;
+    if (paper.workspaceId) {
+        return getWorkspaceRole(store.getWorkspace(paper.workspaceId), user);
+    }
+    return paper.userId === user.username ? 'owner' : null;
+};
+
+const canWrite = (role) => role === 'owner' || role === 'editor';
+
+// --- Paper Payloads ---
+// Fields clients may set; status, ownership, hashes and versions are server-owned
+const isHighlightRect = (r) => !!r && typeof r === 'object' && ['x', 'y', 'width', 'height'].every(key => Number.isFinite(r[key]));
+const isOptionalString = (v) => v === undefined || v === null || typeof v === 'string';
+const isHighlight = (h) => !!h && typeof h === 'object'
+    && typeof h.id === 'string' && h.id.length > 0
+    && Number.isInteger(h.page)
+    && Array.isArray(h.rects) && h.rects.every(isHighlightRect)
+    && typeof h.color === 'string'
+    && isOptionalString(h.text) && isOptionalString(h.comment);
+
+const EDITABLE_PAPER_FIELDS = {
+    fileName: (v) => typeof v === 'string',
+    tags: (v) => Array.isArray(v) && v.every(t => typeof t === 'string'),
+    highlights: (v) => Array.isArray(v) && v.every(isHighlight),
+    analysis: (v) => !!v && typeof v === 'object' && !Array.isArray(v),
+};
+
+const invalidEditableFields = (body) => Object.keys(EDITABLE_PAPER_FIELDS).filter(key => key in body && !EDITABLE_PAPER_FIELDS[key](body[key]));
+
+const pickEditableFields = (body) => {
+    const fields = {};
+    Object.entries(EDITABLE_PAPER_FIELDS).forEach(([key, isValid]) => {
+        if (key in body && isValid(body[key])) fields[key] = body[key];
+    });
+    return fields;
+};
+
+// Short content-hash prefix that versions file URLs
+const fileVersion = (hash) => hash.slice(0, 16);
+
+const toClientPaper = (paper) => ({
+    ...paper,
+    file: paper.fileHash ? `/api/files/${paper.id}.pdf?v=${fileVersion(paper.fileHash)}` : `/api/files/${paper.id}.pdf`,
+    thumbnail: paper.thumbnailAt ? thumbnailUrl(paper) : undefined,
+    screenshots: paper.screenshots.map(toClientScreenshot),
+});
+const paperETag = (paper) => `"${paper.version}"`;
+
+// Accepts "3", W/"3" or a bare 3
+const parseIfMatch = (header) => {
+    const match = /^(?:W\/)?"?(\d+)"?$/.exec(String(header || '').trim());
+    return match ? Number(match[1]) : null;
+};
+
+// --- Live Updates ---
+// Every open client follows its library over GET /api/events (server-sent events).
+// Routes that change a paper publish the stored copy so other tabs and members can merge it.
+const events = createEventHub({ canReceive: (user, scope) => !!getPaperRole(scope, user) });
+
+const publishPaper = (paperId, type = 'paper.updated') => {
+    const paper = store.getPaper(paperId);
+    if (!paper || paper.deletedAt) return;
+    events.publish(type, { paper: toClientPaper(paper) }, paper);
+};
+
+const publishPaperDeleted = (paper) => events.publish('paper.deleted', { id: paper.id }, paper);
+
+// `jobState` is the queue state while the analysis is pending ('queued' or 'running')
+const publishAnalysisStatus = (paperId, jobState) => {
+    const paper = store.getPaper(paperId);
+    if (!paper || paper.deletedAt) return;
+    events.publish('analysis.status', {
+        id: paper.id,
+        status: paper.status,
+        errorMessage: paper.errorMessage,
+        jobState,
+        version: paper.version,
+    }, paper);
+};
+
+app.get('/api/events', requireScope('papers:read'), (req, res) => {
+    const workspaceId = req.query.workspaceId || null;
+    if (workspaceId && !getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+        return res.status(404).json({ error: "Workspace not found" });
+    }
+    events.subscribe(req, res, { user: req.user, workspaceId });
+});
+
+// Workspaces
+const serializeWorkspace = (workspace, user) => ({
+    id: workspace.id,
+    name: workspace.name,
+    createdAt: workspace.createdAt,
+    role: getWorkspaceRole(workspace, user),
+    members: workspace.members,
+});
+
+const ownerCount = (workspace) => workspace.members.filter(m => m.role === 'owner').length;
+
+// Loads the workspace and the caller's role; sends 404 and returns null if not a member
+const loadWorkspace = (req, res) => {
+    const workspace = store.getWorkspace(req.params.id);
+    const role = getWorkspaceRole(workspace, req.user);
+    if (!role) {
+        res.status(404).json({ error: "Workspace not found" });
+        return null;
+    }
+    return { workspace, role };
+};
+
+app.get('/api/workspaces', requireScope('papers:read'), (req, res) => {
+    res.json(store.listWorkspacesForUser(req.user.username).map(w => serializeWorkspace(w, req.user)));
+});
+
+app.post('/api/workspaces', requireAuth, (req, res) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) return res.status(400).json({ error: "Workspace name is required" });
+
+    try {
+        const workspace = store.createWorkspace({ id: crypto.randomUUID(), name, owner: req.user.username });
+        res.status(201).json(serializeWorkspace(workspace, req.user));
+    } catch (e) {
+        console.error("❌ Error creating workspace:", e);
+        res.status(500).json({ error: "Failed to create workspace" });
+    }
+});
+
+app.patch('/api/workspaces/:id', requireAuth, (req, res) => {
+    const loaded = loadWorkspace(req, res);
+    if (!loaded) return;
+    if (loaded.role !== 'owner') return res.status(403).json({ error: "Only owners can rename a workspace" });
+
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (!name) return res.status(400).json({ error: "Workspace name is required" });
+    store.renameWorkspace(loaded.workspace.id, name);
+    res.json(serializeWorkspace(store.getWorkspace(loaded.workspace.id), req.user));
+});
+
+app.delete('/api/workspaces/:id', requireAuth, (req, res) => {
+    const loaded = loadWorkspace(req, res);
+    if (!loaded) return;
+    if (loaded.role !== 'owner') return res.status(403).json({ error: "Only owners can delete a workspace" });
+    if (store.countWorkspacePapers(loaded.workspace.id) > 0) {
+        return res.status(409).json({ error: "Remove all papers from the workspace (including the trash) before deleting it" });
+    }
+
+    store.deleteWorkspace(loaded.workspace.id);
+    res.json({ success: true });
+});
+
+app.post('/api/workspaces/:id/members', requireAuth, (req, res) => {
+    const loaded = loadWorkspace(req, res);
+    if (!loaded) return;
+    if (loaded.role !== 'owner') return res.status(403).json({ error: "Only owners can manage members" });
+
+    const { username, role: memberRole } = req.body || {};
+    const { workspace } = loaded;
+    if (!WORKSPACE_ROLES.includes(memberRole)) return res.status(400).json({ error: "Invalid role" });
+    if (!store.getUser(username)) return res.status(404).json({ error: "User not found" });
+    if (workspace.members.some(m => m.username === username)) {
+        return res.status(409).json({ error: "User is already a member" });
+    }
+
+    store.addMember(workspace.id, username, memberRole);
+    res.status(201).json(serializeWorkspace(store.getWorkspace(workspace.id), req.user));
 });
 
-// Config: Env (Provides API Key to frontend)
-app.get('/api/config/env', (req, res) => {
-    // SECURITY NOTE: This exposes the API Key to the client browser. 
-    // Necessary for the client-side Gemini SDK to function in this architecture.
-    res.json({ apiKey: process.env.API_KEY || "" });
+app.patch('/api/workspaces/:id/members/:username', requireAuth, (req, res) => {
+    const loaded = loadWorkspace(req, res);
+    if (!loaded) return;
+    if (loaded.role !== 'owner') return res.status(403).json({ error: "Only owners can manage members" });
+
+    const { workspace } = loaded;
+    const member = workspace.members.find(m => m.username === req.params.username);
+    if (!member) return res.status(404).json({ error: "Member not found" });
+    const newRole = req.body?.role;
+    if (!WORKSPACE_ROLES.includes(newRole)) return res.status(400).json({ error: "Invalid role" });
+    if (member.role === 'owner' && newRole !== 'owner' && ownerCount(workspace) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+    }
+
+    store.updateMemberRole(workspace.id, member.username, newRole);
+    res.json(serializeWorkspace(store.getWorkspace(workspace.id), req.user));
 });
 
-// Get all papers
-app.get('/api/papers', (req, res) => {
+// Owners can remove anyone; any member can remove themselves (leave)
+app.delete('/api/workspaces/:id/members/:username', requireAuth, (req, res) => {
+    const loaded = loadWorkspace(req, res);
+    if (!loaded) return;
+
+    const { workspace, role } = loaded;
+    const isSelf = req.params.username === req.user.username;
+    if (role !== 'owner' && !isSelf) return res.status(403).json({ error: "Only owners can manage members" });
+
+    const member = workspace.members.find(m => m.username === req.params.username);
+    if (!member) return res.status(404).json({ error: "Member not found" });
+    if (member.role === 'owner' && ownerCount(workspace) === 1) {
+        return res.status(409).json({ error: "A workspace needs at least one owner" });
+    }
+
+    store.removeMember(workspace.id, member.username);
+    res.json({ success: true });
+});
+
+// Get papers of the personal library, or of a workspace via ?workspaceId=
+app.get('/api/papers', requireScope('papers:read'), (req, res) => {
   try {
-    const papers = getData();
-    const sanitizedPapers = papers.map(p => ({
-        ...p,
-        file: `/api/files/${p.id}.pdf` 
-    }));
-    res.json(sanitizedPapers);
+    const workspaceId = req.query.workspaceId;
+    let papers;
+    if (workspaceId) {
+        if (!getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+            return res.status(404).json({ error: "Workspace not found" });
+        }
+        papers = store.listWorkspacePapers(workspaceId);
+    } else {
+        papers = store.listPersonalPapers(req.user.username);
+    }
+
+    res.json(papers.map(toClientPaper));
   } catch (e) {
     console.error(e);
     res.status(500).json({ error: "Failed to load papers" });
   }
 });
 
-// Serve PDF File
-app.get('/api/files/:filename', (req, res) => {
+// Analysis status of every paper in a library (the app itself follows /api/events)
+app.get('/api/papers/status', requireScope('papers:read'), (req, res) => {
+    const workspaceId = req.query.workspaceId;
+    if (workspaceId && !getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+        return res.status(404).json({ error: "Workspace not found" });
+    }
+    res.json(store.listPaperStatuses({ username: req.user.username, workspaceId }));
+});
+
+app.get('/api/papers/:id', requireScope('papers:read'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    if (!getPaperRole(paper, req.user)) return res.status(404).json({ error: "Paper not found" });
+    res.set('ETag', paperETag(paper)).json(toClientPaper(paper));
+});
+
+// Local files go through res.sendFile; files in a bucket are streamed through, with
+// Range and If-None-Match handled here so PDF.js can still load them in chunks
+const sendStoredFile = async (req, res, key, headers) => {
+    if (storage.localPath) {
+        if (!(await storage.exists(key))) return res.status(404).send('File not found');
+        return res.sendFile(storage.localPath(key), { headers, acceptRanges: true });
+    }
+
+    const info = await storage.stat(key);
+    if (!info) return res.status(404).send('File not found');
+    res.set({ ...headers, 'Content-Type': 'application/pdf', 'Accept-Ranges': 'bytes' });
+    if (req.fresh) return res.status(304).end();
+
+    const ranges = req.headers.range ? req.range(info.size) : null;
+    if (ranges === -1) return res.status(416).set('Content-Range', `bytes */${info.size}`).end();
+    const range = Array.isArray(ranges) && ranges.length === 1 ? ranges[0] : null;
+    const file = await storage.openRead(key, range ? { start: range.start, end: range.end } : {});
+    if (!file) return res.status(404).send('File not found');
+
+    if (range) res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${file.totalSize}`);
+    res.set('Content-Length', String(file.size));
+    file.stream.on('error', (e) => res.destroy(e)).pipe(res);
+};
+
+// Serve PDF File. Byte ranges let pdf.js render the first pages before the rest arrives.
+// The ETag is the content hash; URLs carrying the current hash (?v=, see toClientPaper)
+// always return the same bytes and may be cached for good, plain URLs are revalidated.
+app.get('/api/files/:filename', requireScope('papers:read'), async (req, res) => {
     const filename = req.params.filename;
     if (!filename || filename.includes('..') || !filename.endsWith('.pdf')) {
         return res.status(400).send('Invalid filename');
     }
+
+    const paperId = filename.slice(0, -'.pdf'.length);
+    const paper = store.getPaper(paperId);
+    if (!getPaperRole(paper, req.user)) {
+        return res.status(404).send('File not found');
+    }
     
-    const filePath = path.join(UPLOAD_DIR, filename);
-    if (fs.existsSync(filePath)) {
-        res.sendFile(filePath);
-    } else {
-        res.status(404).send('File not found');
+    const headers = { 'Cache-Control': 'private, no-cache' };
+    if (paper.fileHash) {
+        headers.ETag = `"${paper.fileHash}"`;
+        if (req.query.v === fileVersion(paper.fileHash)) headers['Cache-Control'] = 'private, max-age=31536000, immutable';
+    }
+    try {
+        await sendStoredFile(req, res, paperFileKey(paper.id), headers);
+    } catch (e) {
+        console.error(`❌ Could not read ${filename}:`, e.message);
+        if (!res.headersSent) res.status(502).send('File storage unavailable');
+        else res.destroy(e);
     }
 });
 
-// Save or Update a paper
-app.post('/api/papers', (req, res) => {
+// Create a paper. Existing papers are edited through PATCH /api/papers/:id.
+// The app picks the id; scripts may leave it out and take it from the response.
+app.post('/api/papers', requireScope('papers:write'), (req, res) => {
   try {
-    const paper = req.body;
+    const paper = req.body && typeof req.body === 'object' ? { ...req.body } : null;
+    if (!paper) return res.status(400).json({ error: "Invalid paper data" });
+    if (paper.id !== undefined && !isValidPaperId(paper.id)) {
+        return res.status(400).json({ error: "Paper id must be a UUID or consist of letters, digits, '-' and '_'" });
+    }
+    // New papers come with `analysis: null` until they are analyzed
+    const invalid = invalidEditableFields(paper).filter(key => paper[key] !== null);
+    if (invalid.length) return res.status(400).json({ error: `Invalid value for ${invalid.join(', ')}` });
+    paper.id = paper.id || crypto.randomUUID();
     console.log(`📥 Saving: ${paper.fileName || paper.id}`);
 
-    if (!paper || !paper.id) return res.status(400).json({ error: "Invalid paper data" });
+    // 1. Check permissions
+    const existing = store.getPaper(paper.id);
+    if (existing) {
+        if (!getPaperRole(existing, req.user)) return res.status(404).json({ error: "Paper not found" });
+        return res.status(409).json({ error: "Paper already exists", paper: toClientPaper(existing) });
+    }
+    if (paper.workspaceId) {
+        const role = getWorkspaceRole(store.getWorkspace(paper.workspaceId), req.user);
+        if (!role) return res.status(404).json({ error: "Workspace not found" });
+        if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    }
 
-    // 1. Handle File Storage
-    if (paper.file && typeof paper.file === 'string' && paper.file.length > 500) {
-        let base64Data = paper.file;
-        if (base64Data.includes(';base64,')) {
-            base64Data = base64Data.split(';base64,')[1];
+    // 2. Store metadata. Uploader and workspace come from the session; analysis
+    // status is owned by the job queue.
+    const metadata = { ...pickEditableFields(paper), id: paper.id, fileSize: paper.fileSize, uploadTime: paper.uploadTime || Date.now() };
+    metadata.userId = req.user.username;
+    metadata.workspaceId = paper.workspaceId || undefined;
+
+    const created = store.savePaper(metadata);
+    res.status(201).set('ETag', paperETag(created)).json(toClientPaper(created));
+    publishPaper(created.id, 'paper.created');
+
+  } catch (e) {
+    console.error("   ❌ Save Error:", e.message);
+    res.status(500).json({ error: "Failed to save paper: " + e.message });
+  }
+});
+
+// Partial update with optimistic concurrency. The client sends the version it
+// last saw in If-Match; if the paper changed since, it gets a 409 with the
+// current copy and can re-apply its edits on top.
+app.patch('/api/papers/:id', requireScope('papers:write'), (req, res) => {
+    const existing = store.getPaper(req.params.id);
+    const role = getPaperRole(existing, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (existing.deletedAt) return res.status(410).json({ error: "Paper is in the trash" });
+
+    const expectedVersion = parseIfMatch(req.headers['if-match']);
+    if (expectedVersion === null) {
+        return res.status(428).json({ error: "If-Match header with the paper version is required" });
+    }
+
+    const body = req.body || {};
+    const invalid = invalidEditableFields(body);
+    if (invalid.length) return res.status(400).json({ error: `Invalid value for ${invalid.join(', ')}` });
+
+    const changes = pickEditableFields(body);
+    if (Object.keys(changes).length === 0) return res.status(400).json({ error: "No editable fields in request" });
+
+    try {
+        const result = store.patchPaper(existing.id, changes, expectedVersion, req.user.username);
+        if (result.conflict) {
+            return res.status(409).set('ETag', paperETag(result.paper))
+                .json({ error: "Paper was changed by someone else", paper: toClientPaper(result.paper) });
         }
-        
-        const filePath = path.join(UPLOAD_DIR, `${paper.id}.pdf`);
+        res.set('ETag', paperETag(result.paper)).json(toClientPaper(result.paper));
+        publishPaper(existing.id);
+    } catch (e) {
+        console.error("   ❌ Patch Error:", e.message);
+        res.status(500).json({ error: "Failed to update paper: " + e.message });
+    }
+});
+
+// --- Analysis Revisions ---
+// Every change to an analysis field, by the AI or a person; ?field= narrows to one field
+app.get('/api/papers/:id/revisions', requireScope('papers:read'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    if (!getPaperRole(paper, req.user)) return res.status(404).json({ error: "Paper not found" });
+    const field = typeof req.query.field === 'string' ? req.query.field : undefined;
+    res.json(store.listRevisions(paper.id, field));
+});
+
+app.post('/api/papers/:id/revisions/:revisionId/revert', requireScope('papers:write'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (paper.deletedAt) return res.status(410).json({ error: "Paper is in the trash" });
+
+    const revision = store.getRevision(Number(req.params.revisionId));
+    if (!revision || revision.paperId !== paper.id) return res.status(404).json({ error: "Revision not found" });
+
+    const updated = store.revertRevision(revision.id, req.user.username);
+    console.log(`⏪ Reverted ${revision.field} of ${paper.id} to revision ${revision.id}`);
+    res.set('ETag', paperETag(updated)).json(toClientPaper(updated));
+    publishPaper(paper.id);
+});
+
+// --- Deduplication ---
+// Papers live in one library: a workspace, or the uploader's personal library
+const inSameLibrary = (a, b) => a.workspaceId
+    ? b.workspaceId === a.workspaceId
+    : !b.workspaceId && b.userId === a.userId;
+
+// Other papers in the same library whose stored PDF has identical content
+const findDuplicates = (paperId, user) => {
+    const paper = store.getPaper(paperId);
+    if (!paper || !paper.fileHash) return [];
+    return store.findPapersByHash(paper.fileHash)
+        .filter(p => p.id !== paper.id && inSameLibrary(paper, p) && getPaperRole(p, user))
+        .map(p => ({ id: p.id, fileName: p.fileName, title: p.analysis?.title, uploadTime: p.uploadTime }));
+};
+
+// Papers stored before hashes existed get one computed in the background on startup
+const backfillFileHashes = async () => {
+    const ids = store.listPaperIdsWithoutHash();
+    let count = 0;
+    for (const id of ids) {
         try {
-             fs.writeFileSync(filePath, Buffer.from(base64Data, 'base64'));
-        } catch (fileErr) {
-            console.error("   ❌ Failed to write PDF:", fileErr);
-            return res.status(500).json({ error: "Disk write failed" });
+            const info = await storage.stat(paperFileKey(id));
+            if (!info) continue;
+            const fileHash = await storage.hash(paperFileKey(id));
+            store.setPaperFile(id, { hash: fileHash, size: info.size });
+            count++;
+        } catch (e) {
+            console.error(`   ❌ Could not hash ${id}.pdf:`, e.message);
         }
     }
+    if (count) console.log(`🔑 Computed file hashes for ${count} existing papers`);
+};
 
-    // 2. Update Metadata
-    const papers = getData();
-    const index = papers.findIndex(p => p.id === paper.id);
-    const metadata = { ...paper };
-    delete metadata.file; 
+app.get('/api/papers/:id/duplicates', requireScope('papers:read'), (req, res) => {
+    if (!getPaperRole(store.getPaper(req.params.id), req.user)) {
+        return res.status(404).json({ error: "Paper not found" });
+    }
+    res.json(findDuplicates(req.params.id, req.user));
+});
 
-    if (index !== -1) {
-      papers[index] = { ...papers[index], ...metadata };
-    } else {
-      papers.push(metadata);
+// Upload the PDF of an existing paper as a raw request body, streamed to a local temp
+// file and then handed to the file storage, so a failed upload never replaces a good file.
+app.put('/api/papers/:id/file', requireScope('papers:write'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (paper.deletedAt) return res.status(410).json({ error: "Paper is in the trash" });
+
+    const declaredLength = Number(req.headers['content-length']);
+    if (declaredLength > MAX_UPLOAD_BYTES) {
+        return res.status(413).json({ error: `File exceeds the ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB upload limit` });
     }
-    
-    if (setData(papers)) res.json({ success: true });
-    else res.status(500).json({ error: "Database write failed" });
+    // The new file replaces the paper's current one, so that one's bytes are available again
+    const allowance = storageAllowance(paper.userId, paper.fileHash ? paper.fileSize : 0);
+    if (declaredLength > allowance) return res.status(413).json({ error: quotaError(paper.userId) });
 
-  } catch (e) {
-    console.error("   ❌ Save Error:", e.message);
-    res.status(500).json({ error: "Failed to save paper: " + e.message });
-  }
+    const key = paperFileKey(paper.id);
+    const tempPath = storage.tempPath(key);
+    const out = fs.createWriteStream(tempPath);
+    const hash = crypto.createHash('sha256');
+    let bytes = 0;
+    let failed = false;
+
+    const fail = (status, message, err) => {
+        if (failed) return;
+        failed = true;
+        if (err) console.error(`   ❌ Upload failed for ${paper.id}:`, err.message || err);
+        req.unpipe(out);
+        out.destroy();
+        fs.rm(tempPath, { force: true }, () => {});
+        if (!res.headersSent) res.status(status).json({ error: message });
+    };
+
+    req.on('data', (chunk) => {
+        bytes += chunk.length;
+        hash.update(chunk);
+        if (bytes > MAX_UPLOAD_BYTES) {
+            fail(413, `File exceeds the ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB upload limit`);
+            req.resume();
+        } else if (bytes > allowance) {
+            fail(413, quotaError(paper.userId));
+            req.resume();
+        }
+    });
+    req.on('aborted', () => fail(400, "Upload aborted"));
+    out.on('error', (err) => fail(500, "Disk write failed", err));
+    out.on('finish', () => {
+        if (failed) return;
+        if (bytes === 0) return fail(400, "Empty upload");
+        storage.put(key, tempPath, { move: true }).then(() => {
+            const fileHash = hash.digest('hex');
+            store.setPaperFile(paper.id, { hash: fileHash, size: bytes });
+            textIndexer.pump();
+            console.log(`📄 Stored PDF for ${paper.fileName || paper.id} (${(bytes / 1024 / 1024).toFixed(2)} MB)`);
+            res.json({ success: true, size: bytes, fileHash, duplicates: findDuplicates(paper.id, req.user) });
+            publishPaper(paper.id);
+        }, (err) => fail(500, "Could not store the file", err));
+    });
+
+    req.pipe(out);
+});
+
+// --- Storage & Quotas ---
+// PDF and screenshot bytes count against the user who uploaded the paper. Quotas come
+// from users.quota_bytes or USER_QUOTA_MB; admins (ADMIN_USERS) see everyone's usage.
+const formatBytes = (bytes) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+const isAdmin = (user) => !!user && ADMIN_USERS.has(user.username);
+
+const quotaFor = (username) => {
+    const user = username && store.getUser(username);
+    if (!user) return 0;
+    return user.quotaBytes ?? DEFAULT_QUOTA_BYTES;
+};
+
+// Bytes `username` may still add; `freedBytes` are released by the same write (a replaced file)
+const storageAllowance = (username, freedBytes = 0) => {
+    const quota = quotaFor(username);
+    if (!quota) return Infinity;
+    return quota - store.getUserUsage(username).usedBytes + freedBytes;
+};
+
+const quotaError = (username) =>
+    `Storage quota exceeded: ${formatBytes(store.getUserUsage(username).usedBytes)} of ${formatBytes(quotaFor(username))} used`;
+
+const directorySize = (dir) => {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true })
+            .filter(entry => entry.isFile())
+            .reduce((sum, entry) => sum + fs.statSync(path.join(dir, entry.name)).size, 0);
+    } catch {
+        return 0;
+    }
+};
+
+const fileSize = (filePath) => (fs.existsSync(filePath) ? fs.statSync(filePath).size : 0);
+
+// Bytes in the PDF storage; null when it cannot be listed
+const storedBytes = async () => {
+    try {
+        return (await storage.list()).reduce((sum, file) => sum + file.size, 0);
+    } catch (e) {
+        console.error("❌ Could not list the PDF storage:", e.message);
+        return null;
+    }
+};
+
+app.get('/api/stats', requireAuth, async (req, res) => {
+    const username = req.user.username;
+    const quota = quotaFor(username);
+    const stats = {
+        user: { username, ...store.getUserUsage(username), quotaBytes: quota || null },
+        isAdmin: isAdmin(req.user),
+    };
+
+    if (stats.isAdmin) {
+        stats.defaultQuotaBytes = DEFAULT_QUOTA_BYTES || null;
+        stats.users = store.listUserUsage().map(u => ({ ...u, effectiveQuotaBytes: (u.quotaBytes ?? DEFAULT_QUOTA_BYTES) || null }));
+        stats.total = {
+            ...store.getTotalUsage(),
+            users: stats.users.length,
+            storageBackend: storage.kind,
+            disk: {
+                uploads: await storedBytes(),
+                screenshots: directorySize(SCREENSHOT_DIR),
+                thumbnails: directorySize(THUMBNAIL_DIR),
+                database: fileSize(DB_PATH) + fileSize(`${DB_PATH}-wal`),
+            },
+        };
+    }
+    res.json(stats);
+});
+
+// Body: { quotaBytes } — a byte count, 0 for unlimited or null for the server default
+app.put('/api/admin/quotas/:username', requireAuth, (req, res) => {
+    if (!isAdmin(req.user)) return res.status(403).json({ error: "Admins only" });
+    const quotaBytes = req.body ? req.body.quotaBytes : undefined;
+    if (quotaBytes !== null && !(Number.isInteger(quotaBytes) && quotaBytes >= 0)) {
+        return res.status(400).json({ error: "quotaBytes must be a non-negative integer or null" });
+    }
+    if (!store.setUserQuota(req.params.username, quotaBytes)) return res.status(404).json({ error: "User not found" });
+
+    console.log(`📊 Quota for ${req.params.username} set to ${quotaBytes === null ? 'default' : quotaBytes ? formatBytes(quotaBytes) : 'unlimited'} by ${req.user.username}`);
+    res.json({ username: req.params.username, quotaBytes, usage: store.getUserUsage(req.params.username) });
+});
+
+// --- Inbox Folder ---
+// PDFs saved into INBOX_DIR (e.g. by a scanner or a download folder sync) become papers
+// of INBOX_USER, tagged with INBOX_TAGS and queued for analysis with the user's saved
+// model settings. Refused files go to INBOX_DIR/rejected; both outcomes are logged.
+const INBOX_LOG_LIMIT = 100;
+
+const inboxProblem = () => {
+    if (!INBOX_USER) return "INBOX_USER is not set";
+    if (!store.getUser(INBOX_USER)) return `User ${INBOX_USER} does not exist`;
+    if (INBOX_WORKSPACE) {
+        const role = getWorkspaceRole(store.getWorkspace(INBOX_WORKSPACE), { username: INBOX_USER });
+        if (!role) return `Workspace ${INBOX_WORKSPACE} not found for ${INBOX_USER}`;
+        if (!canWrite(role)) return `${INBOX_USER} can only view workspace ${INBOX_WORKSPACE}`;
+    }
+    return null;
+};
+
+const logInboxResult = (result) => {
+    const fileName = path.basename(result.filePath);
+    const reason = result.status === 'duplicate'
+        ? `Same PDF as ${result.duplicateName || result.duplicateOf}`
+        : result.reason;
+    store.addInboxEntry({ fileName, status: result.status, reason, paperId: result.paperId || result.duplicateOf });
+
+    if (result.status !== 'imported') {
+        console.log(`📥 Inbox ${result.status === 'duplicate' ? 'skipped' : 'rejected'} ${fileName}: ${reason}`);
+        return;
+    }
+    console.log(`📥 Inbox imported ${fileName} for ${INBOX_USER} (${formatBytes(result.size)})`);
+    publishPaper(result.paperId, 'paper.created');
+    if (INBOX_ANALYZE) {
+        publishAnalysisStatus(result.paperId, 'queued');
+        jobRunner.pump();
+    }
+    textIndexer.pump();
+};
+
+const inbox = INBOX_DIR && createInboxWatcher({
+    dir: INBOX_DIR,
+    ingester: createIngester({ store, storage }),
+    ingestOptions: () => ({
+        username: INBOX_USER,
+        workspaceId: INBOX_WORKSPACE || undefined,
+        tags: INBOX_TAGS,
+        analysisSettings: INBOX_ANALYZE ? savedAnalysisSettings(store, INBOX_USER) : undefined,
+    }),
+    // Checked per file, since the user or workspace may change while the server runs
+    checkFile: (size) => {
+        const problem = inboxProblem();
+        if (problem) return problem;
+        return size > storageAllowance(INBOX_USER) ? quotaError(INBOX_USER) : null;
+    },
+    onResult: logInboxResult,
+    pollMs: INBOX_POLL_MS,
+});
+
+const startInbox = () => {
+    if (!inbox) return;
+    const problem = inboxProblem();
+    if (problem) {
+        console.error(`❌ Inbox folder disabled: ${problem}`);
+        return;
+    }
+    try {
+        inbox.start();
+        console.log(`📥 Watching ${INBOX_DIR} for ${INBOX_USER}${INBOX_WORKSPACE ? ` (workspace ${INBOX_WORKSPACE})` : ''}`);
+    } catch (e) {
+        console.error(`❌ Inbox folder disabled: ${e.message}`);
+    }
+};
+
+// Configuration and recent log, for admins and the inbox user
+app.get('/api/inbox', requireAuth, (req, res) => {
+    if (!INBOX_DIR) return res.json({ enabled: false });
+    if (!isAdmin(req.user) && req.user.username !== INBOX_USER) return res.status(403).json({ error: "Admins only" });
+    res.json({
+        enabled: true,
+        user: INBOX_USER,
+        workspaceId: INBOX_WORKSPACE,
+        tags: INBOX_TAGS,
+        analyze: INBOX_ANALYZE,
+        problem: inboxProblem(),
+        entries: store.listInboxLog(INBOX_LOG_LIMIT),
+    });
+});
+
+// --- Thumbnails ---
+// Page 1 is rendered to a JPEG by the client (pdf.js) after upload, or later for papers
+// stored before thumbnails existed, and kept in data/thumbnails/<id>.jpg.
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+// Refuses ids that would resolve outside THUMBNAIL_DIR
+const thumbnailPath = (id) => {
+    const filePath = path.resolve(THUMBNAIL_DIR, `${id}.jpg`);
+    if (path.dirname(filePath) !== path.resolve(THUMBNAIL_DIR)) throw new Error(`Invalid paper id "${id}"`);
+    return filePath;
+};
+const thumbnailUrl = (paper) => `/api/papers/${paper.id}/thumbnail?v=${paper.thumbnailAt}`;
+const isJpeg = (buffer) => buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+
+app.get('/api/papers/:id/thumbnail', requireScope('papers:read'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    if (!getPaperRole(paper, req.user)) return res.status(404).json({ error: "Paper not found" });
+    if (!paper.thumbnailAt || !fs.existsSync(thumbnailPath(paper.id))) {
+        return res.status(404).json({ error: "Thumbnail not found" });
+    }
+
+    const versioned = req.query.v === String(paper.thumbnailAt);
+    res.sendFile(thumbnailPath(paper.id), {
+        headers: { 'Cache-Control': versioned ? 'private, max-age=31536000, immutable' : 'private, no-cache' },
+    });
+});
+
+app.put('/api/papers/:id/thumbnail', requireScope('papers:write'), express.raw({ type: 'image/jpeg', limit: MAX_THUMBNAIL_BYTES }), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (paper.deletedAt) return res.status(410).json({ error: "Paper is in the trash" });
+    if (!Buffer.isBuffer(req.body) || !isJpeg(req.body)) {
+        return res.status(400).json({ error: "Thumbnail must be a JPEG image" });
+    }
+
+    try {
+        fs.writeFileSync(thumbnailPath(paper.id), req.body);
+        store.setPaperThumbnail(paper.id, Date.now());
+        res.json({ thumbnail: thumbnailUrl(store.getPaper(paper.id)) });
+        publishPaper(paper.id);
+    } catch (e) {
+        console.error(`   ❌ Could not store thumbnail for ${paper.id}:`, e.message);
+        res.status(500).json({ error: "Failed to store thumbnail" });
+    }
+});
+
+// --- Screenshots ---
+// Images are kept in data/screenshots/<id>; paper records only carry { id, url, caption }.
+// An id always refers to the same bytes, so image responses can be cached for good.
+const MAX_SCREENSHOT_BYTES = 20 * 1024 * 1024;
+const SCREENSHOT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const screenshotPath = (id) => path.join(SCREENSHOT_DIR, id);
+const toClientScreenshot = (screenshot) => ({
+    id: screenshot.id,
+    url: `/api/papers/${screenshot.paperId}/screenshots/${screenshot.id}`,
+    caption: screenshot.caption,
+});
+
+// The type is taken from the bytes, not from the Content-Type the client sent
+const detectImageType = (buffer) => {
+    if (buffer.length > 8 && buffer.readUInt32BE(0) === 0x89504e47) return 'image/png';
+    if (isJpeg(buffer)) return 'image/jpeg';
+    if (buffer.length > 6 && buffer.toString('latin1', 0, 4) === 'GIF8') return 'image/gif';
+    if (buffer.length > 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'image/webp';
+    return null;
+};
+
+const removeScreenshot = (screenshot) => {
+    store.deleteScreenshot(screenshot.id);
+    fs.rmSync(screenshotPath(screenshot.id), { force: true });
+};
+
+// Stores the bytes (a Buffer, or a temp file that is moved into place) as a new screenshot
+const addScreenshot = async (paperId, { buffer, tempPath, mimeType, caption }) => {
+    const id = crypto.randomUUID();
+    if (tempPath) await fs.promises.rename(tempPath, screenshotPath(id));
+    else await fs.promises.writeFile(screenshotPath(id), buffer);
+    const { size } = await fs.promises.stat(screenshotPath(id));
+    return store.addScreenshot({ id, paperId, mimeType, size, caption });
+};
+
+const normalizeCaption = (caption) => (typeof caption === 'string' ? caption.trim().slice(0, 500) : '');
+
+// Resolves :id and :sid for the routes below; sends the error response and returns null on failure
+const findScreenshot = (req, res, { write = false } = {}) => {
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) {
+        res.status(404).json({ error: "Paper not found" });
+        return null;
+    }
+    if (write && !canWrite(role)) {
+        res.status(403).json({ error: "Read-only access" });
+        return null;
+    }
+    if (write && paper.deletedAt) {
+        res.status(410).json({ error: "Paper is in the trash" });
+        return null;
+    }
+    const screenshot = req.params.sid ? store.getScreenshot(req.params.sid) : null;
+    if (req.params.sid && (!screenshot || screenshot.paperId !== paper.id)) {
+        res.status(404).json({ error: "Screenshot not found" });
+        return null;
+    }
+    return { paper, screenshot };
+};
+
+app.get('/api/papers/:id/screenshots', requireScope('papers:read'), (req, res) => {
+    const found = findScreenshot(req, res);
+    if (found) res.json(found.paper.screenshots.map(toClientScreenshot));
+});
+
+// The image is the raw request body; an optional caption comes as ?caption=
+app.post('/api/papers/:id/screenshots', requireScope('papers:write'), express.raw({ type: SCREENSHOT_TYPES, limit: MAX_SCREENSHOT_BYTES }), async (req, res) => {
+    const found = findScreenshot(req, res, { write: true });
+    if (!found) return;
+    const mimeType = Buffer.isBuffer(req.body) ? detectImageType(req.body) : null;
+    if (!mimeType) return res.status(400).json({ error: "Screenshot must be a PNG, JPEG, GIF or WebP image" });
+    if (req.body.length > storageAllowance(found.paper.userId)) {
+        return res.status(413).json({ error: quotaError(found.paper.userId) });
+    }
+
+    try {
+        const screenshot = await addScreenshot(found.paper.id, { buffer: req.body, mimeType, caption: normalizeCaption(req.query.caption) });
+        res.status(201).json(toClientScreenshot(screenshot));
+        publishPaper(found.paper.id);
+    } catch (e) {
+        console.error(`   ❌ Could not store screenshot for ${found.paper.id}:`, e.message);
+        res.status(500).json({ error: "Failed to store screenshot" });
+    }
+});
+
+// Body: { ids } with every screenshot of the paper in the new order
+app.put('/api/papers/:id/screenshots/order', requireScope('papers:write'), (req, res) => {
+    const found = findScreenshot(req, res, { write: true });
+    if (!found) return;
+    const ids = req.body && req.body.ids;
+    if (!Array.isArray(ids) || !store.reorderScreenshots(found.paper.id, ids)) {
+        return res.status(400).json({ error: "ids must list every screenshot of the paper exactly once" });
+    }
+    res.json(store.listScreenshots(found.paper.id).map(toClientScreenshot));
+    publishPaper(found.paper.id);
+});
+
+app.get('/api/papers/:id/screenshots/:sid', requireScope('papers:read'), (req, res) => {
+    const found = findScreenshot(req, res);
+    if (!found) return;
+    if (!fs.existsSync(screenshotPath(found.screenshot.id))) return res.status(404).json({ error: "Screenshot not found" });
+
+    // Types outside the upload allow-list (e.g. from old data URLs) are only offered as downloads
+    const isImage = SCREENSHOT_TYPES.includes(found.screenshot.mimeType);
+    res.sendFile(screenshotPath(found.screenshot.id), {
+        headers: {
+            'Content-Type': isImage ? found.screenshot.mimeType : 'application/octet-stream',
+            'Content-Disposition': isImage ? 'inline' : 'attachment',
+            'X-Content-Type-Options': 'nosniff',
+            'Cache-Control': 'private, max-age=31536000, immutable',
+        },
+    });
+});
+
+app.patch('/api/papers/:id/screenshots/:sid', requireScope('papers:write'), (req, res) => {
+    const found = findScreenshot(req, res, { write: true });
+    if (!found) return;
+    if (!req.body || typeof req.body.caption !== 'string') return res.status(400).json({ error: "caption must be a string" });
+    res.json(toClientScreenshot(store.setScreenshotCaption(found.screenshot.id, normalizeCaption(req.body.caption))));
+    publishPaper(found.paper.id);
+});
+
+app.delete('/api/papers/:id/screenshots/:sid', requireScope('papers:write'), (req, res) => {
+    const found = findScreenshot(req, res, { write: true });
+    if (!found) return;
+    try {
+        removeScreenshot(found.screenshot);
+        res.json({ success: true });
+        publishPaper(found.paper.id);
+    } catch (e) {
+        console.error(`   ❌ Could not delete screenshot ${found.screenshot.id}:`, e.message);
+        res.status(500).json({ error: "Failed to delete screenshot" });
+    }
+});
+
+// --- Analysis ---
+// LLM calls run here so API_KEY stays on the server. The client only sends its
+// model settings; the key for an OpenAI-compatible endpoint is the one saved in
+// the user's preferences unless the request carries its own.
+// Analyses go through the durable job queue; status changes are published as events.
+const withStoredApiKey = (settings, username) => {
+    const sanitized = analysis.sanitizeSettings(settings);
+    if (sanitized.apiKey || !username) return sanitized;
+    const stored = preferences.decryptSecret(store.getPreferences(username).apiKey, PREFERENCES_KEY);
+    return stored ? { ...sanitized, apiKey: stored } : sanitized;
+};
+
+const runAnalysisJob = async (job) => {
+    try {
+        const pdf = await storage.read(paperFileKey(job.paperId));
+        if (!pdf) throw new Error("PDF file not found for this paper");
+        console.log(`🧠 Analyzing: ${job.paperId}`);
+        publishAnalysisStatus(job.paperId, 'running');
+        const result = await analysis.analyzePdf(pdf, withStoredApiKey(job.settings, job.requestedBy), process.env.API_KEY);
+        const { model } = analysis.sanitizeSettings(job.settings);
+        store.setPaperAnalysis(job.paperId, result, { author: job.requestedBy, model });
+        console.log(`   ✅ Analysis done: ${job.paperId}`);
+        publishPaper(job.paperId);
+    } catch (e) {
+        console.error(`   ❌ Analysis failed for ${job.paperId}:`, e.message);
+        store.setPaperStatus(job.paperId, 'error', analysis.describeError(e));
+        publishAnalysisStatus(job.paperId);
+        throw e;
+    }
+};
+
+const jobRunner = createJobRunner({ store, concurrency: ANALYSIS_CONCURRENCY, runJob: runAnalysisJob });
+
+// Queue an analysis. The (sanitized) settings are kept with the job until it
+// finishes so it can be resumed after a restart.
+app.post('/api/analyze', requireScope('analysis:run'), async (req, res) => {
+    const { paperId, settings } = req.body || {};
+    const paper = paperId && store.getPaper(paperId);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (paper.deletedAt) return res.status(410).json({ error: "Paper is in the trash" });
+
+    try {
+        if (!(await storage.exists(paperFileKey(paper.id)))) {
+            return res.status(404).json({ error: "PDF file not found for this paper" });
+        }
+    } catch (e) {
+        console.error("❌ Could not reach the PDF storage:", e.message);
+        return res.status(502).json({ error: "File storage unavailable" });
+    }
+
+    const job = store.enqueueJob({ paperId: paper.id, requestedBy: req.user.username, settings: analysis.sanitizeSettings(settings) });
+    jobRunner.pump();
+    const { state } = store.getJob(job.id);
+    if (state === 'queued') publishAnalysisStatus(paper.id, state);
+    res.status(202).json({ id: job.id, paperId: job.paperId, state });
+});
+
+app.post('/api/compare', requireScope('analysis:run'), async (req, res) => {
+    const { paperIds, settings } = req.body || {};
+    if (!Array.isArray(paperIds) || paperIds.length < 2) {
+        return res.status(400).json({ error: "Select at least two papers to compare" });
+    }
+
+    const papers = paperIds.map(id => store.getPaper(id));
+    if (papers.some(p => !getPaperRole(p, req.user))) {
+        return res.status(404).json({ error: "Paper not found" });
+    }
+
+    try {
+        console.log(`🧠 Comparing ${papers.length} papers`);
+        res.json(await analysis.comparePapers(papers, withStoredApiKey(settings, req.user.username), process.env.API_KEY));
+    } catch (e) {
+        console.error("   ❌ Comparison failed:", e.message);
+        res.status(502).json({ error: `Comparison failed: ${analysis.describeError(e)}` });
+    }
+});
+
+// --- Search ---
+// Analysis fields, tags, highlights, comments and PDF text are indexed in SQLite (FTS5).
+// PDF text is extracted in the background after each upload.
+const textIndexer = createTextIndexer({ store, storage });
+const MAX_SEARCH_RESULTS = 50;
+
+app.get('/api/search', requireScope('papers:read'), (req, res) => {
+    const query = String(req.query.q || '').trim();
+    const workspaceId = req.query.workspaceId;
+    if (!query) return res.status(400).json({ error: "Search query is required" });
+    if (workspaceId && !getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+        return res.status(404).json({ error: "Workspace not found" });
+    }
+
+    const limit = Math.min(MAX_SEARCH_RESULTS, Math.max(1, Number(req.query.limit) || 20));
+    try {
+        res.json(store.searchPapers({ query, username: req.user.username, workspaceId, limit }));
+    } catch (e) {
+        console.error("   ❌ Search failed:", e.message);
+        res.status(500).json({ error: "Search failed" });
+    }
+});
+
+// --- Tags ---
+// Tags live on the papers (set with PATCH /api/papers/:id); this lists those in use
+app.get('/api/tags', requireScope('papers:read'), (req, res) => {
+    const workspaceId = req.query.workspaceId;
+    if (workspaceId && !getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+        return res.status(404).json({ error: "Workspace not found" });
+    }
+    res.json(store.listTagCounts({ username: req.user.username, workspaceId }));
+});
+
+// --- Trash ---
+// Deleting a paper moves it to the trash; it is purged for good after TRASH_RETENTION_DAYS
+// or when deleted again from the trash with ?permanent=true.
+const purgePaper = async (id) => {
+    const screenshots = store.listScreenshots(id);
+    store.deletePaper(id);
+    screenshots.forEach(s => fs.rmSync(screenshotPath(s.id), { force: true }));
+    fs.rmSync(thumbnailPath(id), { force: true });
+    await storage.remove(paperFileKey(id));
+};
+
+const purgeExpiredTrash = async () => {
+    const ids = store.listExpiredTrashIds(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    for (const id of ids) {
+        try {
+            await purgePaper(id);
+        } catch (e) {
+            console.error(`   ❌ Could not purge ${id}:`, e.message);
+        }
+    }
+    if (ids.length) console.log(`🗑️  Purged ${ids.length} papers from the trash`);
+};
+
+app.get('/api/trash', requireScope('papers:read'), (req, res) => {
+    const workspaceId = req.query.workspaceId;
+    if (workspaceId && !getWorkspaceRole(store.getWorkspace(workspaceId), req.user)) {
+        return res.status(404).json({ error: "Workspace not found" });
+    }
+    const papers = store.listTrash({ username: req.user.username, workspaceId }).map(p => ({
+        id: p.id,
+        fileName: p.fileName,
+        title: p.analysis?.title,
+        tags: p.tags,
+        highlightCount: p.highlights.length,
+        screenshotCount: p.screenshots.length,
+        deletedAt: p.deletedAt,
+    }));
+    res.json({ retentionDays: TRASH_RETENTION_DAYS, papers });
+});
+
+app.post('/api/papers/:id/restore', requireScope('papers:write'), (req, res) => {
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    if (!paper.deletedAt) return res.status(409).json({ error: "Paper is not in the trash" });
+
+    store.restorePaper(paper.id);
+    console.log(`♻️  Restored: ${paper.fileName || paper.id}`);
+    res.json(toClientPaper(store.getPaper(paper.id)));
+    publishPaper(paper.id, 'paper.created');
 });
 
 // Delete
-app.delete('/api/papers/:id', (req, res) => {
+app.delete('/api/papers/:id', requireScope('papers:write'), async (req, res) => {
   try {
-    const id = req.params.id;
-    let papers = getData();
-    papers = papers.filter(p => p.id !== id);
-    setData(papers);
-    const filePath = path.join(UPLOAD_DIR, `${id}.pdf`);
-    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    const paper = store.getPaper(req.params.id);
+    const role = getPaperRole(paper, req.user);
+    if (!role) return res.status(404).json({ error: "Paper not found" });
+    if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+
+    if (req.query.permanent === 'true') {
+        await purgePaper(paper.id);
+    } else if (!paper.deletedAt) {
+        store.trashPaper(paper.id);
+    }
     res.json({ success: true });
+    publishPaperDeleted(paper);
   } catch (e) {
     res.status(500).json({ error: "Failed to delete paper" });
   }
 });
 
+// --- Backup ---
+// Export or import one library (personal, or a workspace via ?workspaceId) as a .tar.gz archive
+app.get('/api/backup', requireAuth, async (req, res) => {
+    const workspaceId = req.query.workspaceId;
+    let papers;
+    let source = { username: req.user.username };
+    if (workspaceId) {
+        const workspace = store.getWorkspace(workspaceId);
+        if (!getWorkspaceRole(workspace, req.user)) return res.status(404).json({ error: "Workspace not found" });
+        papers = store.listWorkspacePapers(workspaceId);
+        source = { workspaceId, workspaceName: workspace.name };
+    } else {
+        papers = store.listPersonalPapers(req.user.username);
+    }
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="paperscope-backup-${stamp}.tar.gz"`);
+    try {
+        await backup.writeBackup({ papers, config: { banner: store.getConfig('banner', null) }, source, storage, screenshotDir: SCREENSHOT_DIR }, res);
+        console.log(`💾 Exported backup with ${papers.length} papers for ${req.user.username}`);
+    } catch (e) {
+        console.error("❌ Backup export failed:", e);
+        if (!res.headersSent) res.status(500).json({ error: "Failed to export backup" });
+        else res.destroy(e);
+    }
+});
+
+// The archive is sent as the raw request body (Content-Type: application/gzip)
+app.post('/api/backup/import', requireAuth, async (req, res) => {
+    const mode = req.query.mode || 'skip';
+    if (!backup.IMPORT_MODES.includes(mode)) {
+        return res.status(400).json({ error: `Mode must be one of: ${backup.IMPORT_MODES.join(', ')}` });
+    }
+
+    const workspaceId = req.query.workspaceId || undefined;
+    if (workspaceId) {
+        const role = getWorkspaceRole(store.getWorkspace(workspaceId), req.user);
+        if (!role) return res.status(404).json({ error: "Workspace not found" });
+        if (!canWrite(role)) return res.status(403).json({ error: "Read-only access" });
+    }
+
+    if (Number(req.headers['content-length']) > MAX_BACKUP_BYTES) {
+        return res.status(413).json({ error: `Backup exceeds the ${Math.round(MAX_BACKUP_BYTES / 1024 / 1024)} MB import limit` });
+    }
+
+    const tempDir = await fs.promises.mkdtemp(path.join(DATA_DIR, '.import-'));
+    try {
+        const archive = await backup.readBackup(req, tempDir, { maxBytes: MAX_BACKUP_BYTES });
+        const summary = await backup.applyBackup({
+            backup: archive,
+            mode,
+            store,
+            target: { username: req.user.username, workspaceId },
+            canSee: (paper) => !!getPaperRole(paper, req.user),
+            canOverwrite: (paper) => canWrite(getPaperRole(paper, req.user)),
+            // The banner is every user's default, so only admins may replace it
+            restoreConfig: isAdmin(req.user),
+            checkQuota: (username, bytes, freedBytes) => {
+                if (bytes > storageAllowance(username, freedBytes)) throw new backup.ImportLimitError(quotaError(username));
+            },
+            placeFile: async (id, tempPath) => {
+                const { size } = await fs.promises.stat(tempPath);
+                const fileHash = await hashFile(tempPath);
+                await storage.put(paperFileKey(id), tempPath, { move: true });
+                store.setPaperFile(id, { hash: fileHash, size });
+            },
+            replaceScreenshots: async (id, screenshots) => {
+                store.listScreenshots(id).forEach(removeScreenshot);
+                for (const screenshot of screenshots) await addScreenshot(id, screenshot);
+            },
+        });
+        textIndexer.pump();
+        console.log(`📦 Imported backup for ${req.user.username}:`, summary);
+        res.json(summary);
+        // Too many changes to list one by one; clients reload the library
+        events.publish('library.changed', {}, { workspaceId, userId: req.user.username });
+    } catch (e) {
+        console.error("❌ Backup import failed:", e.message);
+        const status = e instanceof backup.ImportLimitError ? 413 : 400;
+        if (!res.headersSent) res.status(status).json({ error: e.message || "Failed to import backup" });
+    } finally {
+        fs.rm(tempDir, { recursive: true, force: true }, () => {});
+    }
+});
+
+// --- Storage Integrity ---
+// Admins can check data/ against the database and repair what is found; the same
+// check runs offline with `node check-storage.js`. Repairs quarantine files instead
+// of deleting them (data/quarantine/<time>/ with a manifest.json).
+const integrity = createIntegrityChecker({
+    store,
+    storage,
+    screenshotDir: SCREENSHOT_DIR,
+    thumbnailDir: THUMBNAIL_DIR,
+    quarantineDir: QUARANTINE_DIR,
+});
+let integrityBusy = false;
+
+// ?verifyHashes=true re-hashes every PDF (slow on large libraries)
+app.get('/api/admin/integrity', requireAuth, async (req, res) => {
+    if (!isAdmin(req.user)) return res.status(403).json({ error: "Admins only" });
+    try {
+        res.json(await integrity.scan({ verifyHashes: req.query.verifyHashes === 'true' }));
+    } catch (e) {
+        console.error("❌ Storage check failed:", e);
+        res.status(500).json({ error: "Storage check failed" });
+    }
+});
+
+// Body: { verifyHashes? } — scans again and applies every fix from that scan
+app.post('/api/admin/integrity/repair', requireAuth, async (req, res) => {
+    if (!isAdmin(req.user)) return res.status(403).json({ error: "Admins only" });
+    if (integrityBusy) return res.status(409).json({ error: "A repair is already running" });
+    integrityBusy = true;
+    try {
+        const report = await integrity.scan({ verifyHashes: !!(req.body && req.body.verifyHashes) });
+        const result = await integrity.repair(report);
+        console.log(`🛠️  Storage repair by ${req.user.username}: ${result.repaired} repaired, ${result.skipped} skipped, ${result.failed.length} failed`);
+        res.json({ report, ...result });
+
+        result.changedPaperIds.forEach(id => publishPaper(id));
+        result.trashedPaperIds.forEach(id => {
+            const paper = store.getPaper(id);
+            if (paper) publishPaperDeleted(paper);
+        });
+        if (result.changedPaperIds.length > 0) textIndexer.pump();
+    } catch (e) {
+        console.error("❌ Storage repair failed:", e);
+        if (!res.headersSent) res.status(500).json({ error: "Storage repair failed" });
+    } finally {
+        integrityBusy = false;
+    }
+});
+
+// --- Preferences ---
+// One document per user; the banner falls back to the global one from config
+const toClientPreferences = ({ preferences: prefs, apiKey }) => ({
+    llm: { ...(prefs.llm || {}), hasApiKey: !!apiKey },
+    ui: prefs.ui || {},
+    banner: prefs.banner || store.getConfig('banner', '/banner.jpg'),
+});
+
+app.get('/api/preferences', requireAuth, (req, res) => {
+    res.json(toClientPreferences(store.getPreferences(req.user.username)));
+});
+
+// Body: { llm?, ui?, banner? }; sections are merged into the stored preferences
+app.patch('/api/preferences', requireAuth, (req, res) => {
+    const { patch, apiKey, errors } = preferences.parsePreferencesPatch(req.body);
+    if (errors.length) return res.status(400).json({ error: `Invalid value for ${errors.join(', ')}` });
+
+    try {
+        const current = store.getPreferences(req.user.username);
+        const next = {
+            preferences: preferences.mergePreferences(current.preferences, patch),
+            apiKey: apiKey === undefined ? current.apiKey : (apiKey && preferences.encryptSecret(apiKey, PREFERENCES_KEY)),
+        };
+        store.savePreferences(req.user.username, next);
+        res.json(toClientPreferences(next));
+    } catch (e) {
+        console.error("❌ Could not save preferences:", e);
+        res.status(500).json({ error: "Failed to save preferences" });
+    }
+});
+
+// --- API Tokens ---
+// Personal tokens for scripts, sent as "Authorization: Bearer ps_...". The token is
+// only returned when it is created; the server keeps a hash. Managing tokens needs a session.
+const MAX_TOKEN_NAME_LENGTH = 100;
+const MAX_TOKEN_LIFETIME_DAYS = 3650;
+const MAX_TOKENS_PER_USER = 50;
+
+const toClientToken = (token) => ({
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    createdAt: token.createdAt,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+});
+
+app.get('/api/tokens', requireAuth, (req, res) => {
+    res.json({ scopes: auth.API_SCOPES, tokens: store.listApiTokens(req.user.username).map(toClientToken) });
+});
+
+// Body: { name, scopes, expiresInDays? } — without expiresInDays the token does not expire
+app.post('/api/tokens', requireAuth, (req, res) => {
+    const { name, scopes, expiresInDays } = req.body || {};
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_TOKEN_NAME_LENGTH) {
+        return res.status(400).json({ error: `Name must be 1-${MAX_TOKEN_NAME_LENGTH} characters` });
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => scope in auth.API_SCOPES)) {
+        return res.status(400).json({ error: `Scopes must be one or more of: ${Object.keys(auth.API_SCOPES).join(', ')}` });
+    }
+    if (expiresInDays != null && !(Number.isInteger(expiresInDays) && expiresInDays >= 1 && expiresInDays <= MAX_TOKEN_LIFETIME_DAYS)) {
+        return res.status(400).json({ error: `expiresInDays must be between 1 and ${MAX_TOKEN_LIFETIME_DAYS}` });
+    }
+    if (store.listApiTokens(req.user.username).length >= MAX_TOKENS_PER_USER) {
+        return res.status(409).json({ error: `At most ${MAX_TOKENS_PER_USER} tokens per user; revoke one first` });
+    }
+
+    const { token, hash, prefix } = auth.generateApiToken();
+    const created = store.createApiToken({
+        id: crypto.randomUUID(),
+        username: req.user.username,
+        name: name.trim(),
+        tokenHash: hash,
+        prefix,
+        scopes: [...new Set(scopes)],
+        expiresAt: expiresInDays ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000 : undefined,
+    });
+    console.log(`🔑 Created API token "${created.name}" for ${req.user.username} (${created.scopes.join(', ')})`);
+    res.status(201).json({ ...toClientToken(created), token });
+});
+
+app.delete('/api/tokens/:id', requireAuth, (req, res) => {
+    if (!store.deleteApiToken(req.params.id, req.user.username)) return res.status(404).json({ error: "Token not found" });
+    console.log(`🔑 Revoked API token ${req.params.id} of ${req.user.username}`);
+    res.json({ success: true });
+});
+
+// Machine-readable description of the routes API tokens can call
+app.get('/api/openapi.json', (req, res) => {
+    res.json(buildOpenApiDocument({ scopes: auth.API_SCOPES }));
+});
+
 // Config
-app.get('/api/config/banner', (req, res) => { res.json(getConfig()); });
-app.post('/api/config/banner', (req, res) => { setConfig({ banner: req.body.banner }); res.json({ success: true }); });
+// The global banner is the default for users who have not picked their own
+app.get('/api/config/banner', (req, res) => { res.json({ banner: store.getConfig('banner', '/banner.jpg') }); });
 
 // Serve static
 app.use(express.static(path.join(__dirname, 'dist')));
@@ -199,6 +1494,21 @@ const server = app.listen(PORT, () => {
   console.log(`🚀 SERVER STARTED SUCCESSFULLY!`);
   console.log(`👉 Backend URL: http://localhost:${PORT}`);
   console.log(`==========================================\n`);
+  storage.init()
+    .then(() => console.log(`📦 PDF storage: ${storage.description}`))
+    .catch(e => console.error(`❌ PDF storage is not usable: ${e.message}`));
+  jobRunner.start();
+  // Picks up analyses and PDFs added by other processes, e.g. the import command
+  setInterval(() => {
+    jobRunner.pump();
+    textIndexer.pump();
+  }, 15 * 1000).unref();
+  startInbox();
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, 60 * 60 * 1000).unref();
+  backfillFileHashes()
+    .catch(e => console.error("❌ Hash backfill failed:", e))
+    .then(() => textIndexer.start());
 });
 
 server.on('error', (e) => {
@@ -0,0 +1,138 @@
+const crypto = require('crypto');
+const fs = require('fs');
+
+/**
+ * Account helpers: salted password hashing, signed session tokens and
+ * personal API tokens for scripts.
+ */
+
+const SESSION_COOKIE = 'paperscope_session';
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SCRYPT_KEYLEN = 64;
+
+// Secret used to sign session tokens. Prefer the env var so several instances
+// can share sessions; otherwise generate one and keep it next to the data.
+const loadSessionSecret = (secretPath) => {
+    if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+    try {
+        if (fs.existsSync(secretPath)) {
+            const existing = fs.readFileSync(secretPath, 'utf-8').trim();
+            if (existing) return existing;
+        }
+        const secret = crypto.randomBytes(32).toString('hex');
+        fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+        return secret;
+    } catch (e) {
+        console.error("❌ Could not persist session secret, sessions will not survive a restart.", e);
+        return crypto.randomBytes(32).toString('hex');
+    }
+};
+
+const hashPassword = (password) => {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+    return { salt, hash };
+};
+
+const verifyPassword = (password, salt, expectedHash) => {
+    if (!salt || !expectedHash) return false;
+    const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN);
+    const expected = Buffer.from(expectedHash, 'hex');
+    return expected.length === hash.length && crypto.timingSafeEqual(hash, expected);
+};
+
+const sign = (payload, secret) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+// Token format: base64url(JSON { u, exp }) + "." + HMAC
+const createSessionToken = (username, secret) => {
+    const payload = Buffer.from(JSON.stringify({ u: username, exp: Date.now() + SESSION_TTL_MS })).toString('base64url');
+    return `${payload}.${sign(payload, secret)}`;
+};
+
+const verifySessionToken = (token, secret) => {
+    if (!token || typeof token !== 'string') return null;
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+        if (!data.u || !data.exp || data.exp < Date.now()) return null;
+        return data.u;
+    } catch {
+        return null;
+    }
+};
+
+const parseCookies = (header) => {
+    const cookies = {};
+    if (!header) return cookies;
+    header.split(';').forEach(part => {
+        const index = part.indexOf('=');
+        if (index === -1) return;
+        const key = part.slice(0, index).trim();
+        const value = part.slice(index + 1).trim();
+        try {
+            cookies[key] = decodeURIComponent(value);
+        } catch {
+            cookies[key] = value;
+        }
+    });
+    return cookies;
+};
+
+const setSessionCookie = (req, res, token) => {
+    res.cookie(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        maxAge: SESSION_TTL_MS,
+        path: '/',
+    });
+};
+
+const clearSessionCookie = (res) => {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+};
+
+// What an API token may do. Routes that accept tokens name one of these;
+// everything else (account, tokens, preferences, backups) needs a session.
+const API_SCOPES = {
+    'papers:read': 'List and read papers, PDFs, screenshots, tags and search',
+    'papers:write': 'Create, edit and delete papers, upload PDFs and screenshots',
+    'analysis:run': 'Queue analyses and run comparisons',
+};
+const API_TOKEN_PREFIX = 'ps_';
+
+// Tokens are random and long, so a plain SHA-256 is enough to store them
+const hashApiToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateApiToken = () => {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    return { token, hash: hashApiToken(token), prefix: token.slice(0, API_TOKEN_PREFIX.length + 6) };
+};
+
+// "Authorization: Bearer <token>"; null if the header is missing or another scheme
+const parseBearerToken = (header) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(String(header || '').trim());
+    return match ? match[1] : null;
+};
+
+module.exports = {
+    SESSION_COOKIE,
+    loadSessionSecret,
+    hashPassword,
+    verifyPassword,
+    createSessionToken,
+    verifySessionToken,
+    parseCookies,
+    setSessionCookie,
+    clearSessionCookie,
+    API_SCOPES,
+    hashApiToken,
+    generateApiToken,
+    parseBearerToken,
+};
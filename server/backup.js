@@ -0,0 +1,281 @@
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+const crypto = require('crypto');
+const tar = require('tar-stream');
+const { decodeDataUrl } = require('./db');
+const { isValidPaperId } = require('./store');
+const { paperFileKey } = require('./files');
+
+/**
+ * Library backup archives (.tar.gz). Layout:
+ *   manifest.json   format marker, source library, paper count
+ *   config.json     global config (banner)
+ *   papers.json     paper metadata incl. tags, highlights, screenshot metadata, analysis
+ *   files/<id>.pdf  stored PDFs
+ *   screenshots/<id> screenshot images
+ * Version 1 archives carried screenshots as data URLs inside papers.json.
+ */
+
+const BACKUP_FORMAT = 'paperscope-backup';
+const BACKUP_VERSION = 2;
+const IMPORT_MODES = ['skip', 'overwrite', 'keep-both'];
+const MAX_JSON_ENTRY_BYTES = 256 * 1024 * 1024;
+const PDF_ENTRY_PATTERN = /^files\/([^/\\]+)\.pdf$/;
+const SCREENSHOT_ENTRY_PATTERN = /^screenshots\/([^/\\]+)$/;
+
+// The archive, or the space its files need, is over a limit; the route answers 413
+class ImportLimitError extends Error {}
+
+const addBufferEntry = (pack, name, buffer) => new Promise((resolve, reject) => {
+    pack.entry({ name, size: buffer.length, mtime: new Date() }, buffer, (err) => (err ? reject(err) : resolve()));
+});
+
+const addFileEntry = (pack, name, filePath) => new Promise((resolve, reject) => {
+    const { size, mtime } = fs.statSync(filePath);
+    const entry = pack.entry({ name, size, mtime }, (err) => (err ? reject(err) : resolve()));
+    fs.createReadStream(filePath).on('error', reject).pipe(entry);
+});
+
+const addStreamEntry = (pack, name, stream, size) => new Promise((resolve, reject) => {
+    const entry = pack.entry({ name, size, mtime: new Date() }, (err) => (err ? reject(err) : resolve()));
+    stream.on('error', reject).pipe(entry);
+});
+
+// Streams a gzipped archive of `papers` (with their PDFs and screenshots) into `out`
+const writeBackup = async ({ papers, config, source, storage, screenshotDir }, out) => {
+    const pack = tar.pack();
+    const done = new Promise((resolve, reject) => {
+        out.on('finish', resolve);
+        out.on('error', reject);
+    });
+    pack.pipe(zlib.createGzip()).pipe(out);
+
+    const manifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: Date.now(),
+        source,
+        paperCount: papers.length,
+    };
+    await addBufferEntry(pack, 'manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+    await addBufferEntry(pack, 'config.json', Buffer.from(JSON.stringify(config, null, 2)));
+    await addBufferEntry(pack, 'papers.json', Buffer.from(JSON.stringify(papers)));
+
+    for (const paper of papers) {
+        const file = await storage.openRead(paperFileKey(paper.id));
+        if (file) await addStreamEntry(pack, `files/${paper.id}.pdf`, file.stream, file.size);
+        for (const screenshot of paper.screenshots) {
+            const imagePath = path.join(screenshotDir, screenshot.id);
+            if (fs.existsSync(imagePath)) await addFileEntry(pack, `screenshots/${screenshot.id}`, imagePath);
+        }
+    }
+
+    pack.finalize();
+    await done;
+};
+
+const readEntry = (stream, limit) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    stream.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > limit) {
+            stream.destroy();
+            return reject(new Error("Archive entry is too large"));
+        }
+        chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+});
+
+// Unpacks an uploaded archive into `tempDir`. JSON entries are parsed in memory,
+// PDFs and screenshots are written to tempDir and indexed by paper / screenshot id.
+// Both the upload and the unpacked files are limited to `maxBytes`.
+const readBackup = (input, tempDir, { maxBytes = Infinity } = {}) => new Promise((resolve, reject) => {
+    const extract = tar.extract();
+    const result = { manifest: null, config: {}, papers: [], files: new Map(), screenshots: new Map() };
+    const limitError = () => new ImportLimitError(`Backup exceeds the ${Math.round(maxBytes / 1024 / 1024)} MB import limit`);
+    let fileCount = 0;
+    let unpackedBytes = 0;
+    const writeTemp = (stream, target) => new Promise((res, rej) => {
+        stream.on('data', (chunk) => {
+            unpackedBytes += chunk.length;
+            if (unpackedBytes > maxBytes) stream.destroy(limitError());
+        });
+        stream.pipe(fs.createWriteStream(target)).on('finish', res).on('error', rej);
+        stream.on('error', rej);
+    });
+
+    extract.on('entry', (header, stream, next) => {
+        const name = header.name.replace(/^\.\//, '');
+        const pdfMatch = PDF_ENTRY_PATTERN.exec(name);
+        const screenshotMatch = SCREENSHOT_ENTRY_PATTERN.exec(name);
+
+        let work;
+        if (header.type !== 'file') {
+            stream.resume();
+            work = Promise.resolve();
+        } else if (name === 'manifest.json' || name === 'config.json' || name === 'papers.json') {
+            work = readEntry(stream, MAX_JSON_ENTRY_BYTES).then((buffer) => {
+                const value = JSON.parse(buffer.toString('utf-8'));
+                if (name === 'manifest.json') result.manifest = value;
+                else if (name === 'config.json') result.config = value || {};
+                else result.papers = Array.isArray(value) ? value : [];
+            });
+        } else if (pdfMatch) {
+            const target = path.join(tempDir, `${fileCount++}.pdf`);
+            work = writeTemp(stream, target).then(() => result.files.set(pdfMatch[1], target));
+        } else if (screenshotMatch) {
+            const target = path.join(tempDir, `${fileCount++}.img`);
+            work = writeTemp(stream, target).then(() => result.screenshots.set(screenshotMatch[1], target));
+        } else {
+            stream.resume();
+            work = Promise.resolve();
+        }
+
+        work.then(() => next(), (err) => {
+            extract.destroy(err);
+            reject(err);
+        });
+    });
+    extract.on('finish', () => {
+        if (!result.manifest || result.manifest.format !== BACKUP_FORMAT) {
+            return reject(new Error("Not a PaperScope backup archive"));
+        }
+        if (result.manifest.version > BACKUP_VERSION) {
+            return reject(new Error("Backup was created by a newer version of PaperScope"));
+        }
+        resolve(result);
+    });
+    extract.on('error', reject);
+
+    const gunzip = zlib.createGunzip();
+    gunzip.on('error', () => reject(new Error("Archive is not a valid .tar.gz file")));
+    let uploadedBytes = 0;
+    input.on('data', (chunk) => {
+        uploadedBytes += chunk.length;
+        if (uploadedBytes <= maxBytes) return;
+        input.unpipe(gunzip);
+        input.resume();
+        extract.destroy();
+        reject(limitError());
+    });
+    input.on('error', reject);
+    input.pipe(gunzip).pipe(extract);
+});
+
+// Metadata the server owns is never taken from an archive
+const toImportedPaper = (paper, id) => ({
+    id,
+    fileName: paper.fileName || 'untitled.pdf',
+    fileSize: paper.fileSize || 0,
+    uploadTime: paper.uploadTime || Date.now(),
+    status: paper.status === 'analyzing' ? (paper.analysis ? 'success' : 'idle') : (paper.status || 'idle'),
+    analysis: paper.analysis || null,
+    errorMessage: paper.errorMessage,
+    tags: Array.isArray(paper.tags) ? paper.tags : [],
+    highlights: Array.isArray(paper.highlights) ? paper.highlights : [],
+});
+
+// Screenshots to store for an archived paper: { mimeType, caption } plus either the
+// unpacked tempPath (version 2) or the decoded buffer of a data URL (version 1)
+const archivedScreenshots = (paper, unpacked) => (Array.isArray(paper.screenshots) ? paper.screenshots : [])
+    .map((screenshot) => {
+        if (typeof screenshot === 'string') return decodeDataUrl(screenshot);
+        const tempPath = screenshot && unpacked.get(screenshot.id);
+        if (!tempPath) return null;
+        return {
+            tempPath,
+            mimeType: typeof screenshot.mimeType === 'string' ? screenshot.mimeType : 'application/octet-stream',
+            caption: typeof screenshot.caption === 'string' ? screenshot.caption : undefined,
+        };
+    })
+    .filter(Boolean);
+
+const screenshotBytes = (screenshot) => (screenshot.buffer ? screenshot.buffer.length : fs.statSync(screenshot.tempPath).size);
+
+/**
+ * Applies an unpacked backup to the target library. Conflicts are keyed on
+ * paper id: 'skip' keeps the existing paper, 'overwrite' replaces it (when the
+ * user may edit it, otherwise the import falls back to keeping both) and
+ * 'keep-both' imports the archived paper under a new id. Ids taken by papers
+ * the user cannot see, and ids that are not safe file names, are always
+ * imported under a new id. The global config is only restored, in 'overwrite'
+ * mode, when `restoreConfig` is set (admins). `checkQuota(owner, bytes, freedBytes)`
+ * throws an ImportLimitError when the files would not fit; nothing is imported then.
+ */
+const applyBackup = async ({ backup, mode, store, target, canSee, canOverwrite, restoreConfig, checkQuota, placeFile, replaceScreenshots }) => {
+    const summary = { imported: 0, overwritten: 0, keptBoth: 0, skipped: 0, failed: 0 };
+
+    // Decide every paper's outcome first, so an import over the quota changes nothing
+    const plans = [];
+    for (const paper of backup.papers) {
+        if (!paper || !paper.id) continue;
+        let id = isValidPaperId(paper.id) ? paper.id : crypto.randomUUID();
+        const existing = id === paper.id ? store.getPaper(id) : null;
+        let outcome = 'imported';
+        if (existing && canSee(existing)) {
+            if (mode === 'skip') {
+                summary.skipped++;
+                continue;
+            }
+            outcome = mode === 'overwrite' && canOverwrite(existing) ? 'overwritten' : 'keptBoth';
+        }
+        if (existing && outcome !== 'overwritten') id = crypto.randomUUID();
+
+        const file = backup.files.get(paper.id);
+        const screenshots = archivedScreenshots(paper, backup.screenshots);
+        const replaced = outcome === 'overwritten' ? existing : null;
+        plans.push({
+            paper,
+            id,
+            existing,
+            outcome,
+            file,
+            screenshots,
+            owner: replaced ? replaced.userId : target.username,
+            bytes: (file ? fs.statSync(file).size : 0) + screenshots.reduce((sum, s) => sum + screenshotBytes(s), 0),
+            // An overwritten paper's stored PDF and screenshots are replaced, which frees their bytes
+            freedBytes: replaced
+                ? (replaced.fileHash && file ? replaced.fileSize : 0) + store.listScreenshots(replaced.id).reduce((sum, s) => sum + s.size, 0)
+                : 0,
+        });
+    }
+
+    const needed = new Map();
+    plans.forEach(({ owner, bytes, freedBytes }) => {
+        const total = needed.get(owner) || { bytes: 0, freedBytes: 0 };
+        needed.set(owner, { bytes: total.bytes + bytes, freedBytes: total.freedBytes + freedBytes });
+    });
+    needed.forEach(({ bytes, freedBytes }, owner) => checkQuota(owner, bytes, freedBytes));
+
+    for (const { paper, id, existing, outcome, file, screenshots, owner, bytes, freedBytes } of plans) {
+        try {
+            // Again per paper, in case uploads elsewhere used up the space meanwhile
+            checkQuota(owner, bytes, freedBytes);
+            if (outcome === 'overwritten') {
+                store.savePaper(toImportedPaper(paper, id));
+                if (existing.deletedAt) store.restorePaper(id);
+            } else {
+                store.savePaper({ ...toImportedPaper(paper, id), userId: target.username, workspaceId: target.workspaceId });
+            }
+            summary[outcome]++;
+
+            if (file) await placeFile(id, file);
+            await replaceScreenshots(id, screenshots);
+        } catch (e) {
+            if (e instanceof ImportLimitError) throw e;
+            console.error(`   ❌ Could not import paper ${paper.id}:`, e.message);
+            summary.failed++;
+        }
+    }
+
+    if (restoreConfig && mode === 'overwrite' && backup.config && typeof backup.config.banner === 'string') {
+        store.setConfig('banner', backup.config.banner);
+    }
+    return summary;
+};
+
+module.exports = { IMPORT_MODES, ImportLimitError, writeBackup, readBackup, applyBackup };
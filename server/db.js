@@ -0,0 +1,438 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+/**
+ * SQLite connection, versioned schema migrations and the one-time importer
+ * for the legacy JSON stores (data_store.json, users_store.json, ...).
+ */
+
+const SCREENSHOT_DIR_NAME = 'screenshots';
+const DATA_URL_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)?((?:;[^,;]*)*?)(;base64)?,(.*)$/s;
+
+// { mimeType, buffer } for a data URL, null for anything else
+const decodeDataUrl = (value) => {
+    const match = typeof value === 'string' && DATA_URL_PATTERN.exec(value);
+    if (!match) return null;
+    return {
+        mimeType: match[1] || 'application/octet-stream',
+        buffer: match[3] ? Buffer.from(match[4], 'base64') : Buffer.from(decodeURIComponent(match[4])),
+    };
+};
+
+// Writes a data URL screenshot to <dataDir>/screenshots/<id> and adds its row.
+// Returns false (and stores nothing) when the value is not a data URL.
+const storeDataUrlScreenshot = (db, dataDir, paperId, position, dataUrl) => {
+    const decoded = decodeDataUrl(dataUrl);
+    if (!decoded) return false;
+    const id = crypto.randomUUID();
+    const dir = path.join(dataDir, SCREENSHOT_DIR_NAME);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, id), decoded.buffer);
+    db.prepare(`INSERT INTO paper_screenshots (id, paper_id, position, mime_type, size, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)`).run(id, paperId, position, decoded.mimeType, decoded.buffer.length, Date.now());
+    return true;
+};
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+const MIGRATIONS = [
+    {
+        version: 1,
+        name: 'initial schema',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE users (
+                    username TEXT PRIMARY KEY,
+                    salt TEXT NOT NULL,
+                    password_hash TEXT NOT NULL,
+                    created_at INTEGER NOT NULL
+                );
+
+                CREATE TABLE workspaces (
+                    id TEXT PRIMARY KEY,
+                    name TEXT NOT NULL,
+                    created_at INTEGER NOT NULL
+                );
+
+                CREATE TABLE workspace_members (
+                    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+                    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+                    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+                    PRIMARY KEY (workspace_id, username)
+                );
+
+                CREATE TABLE papers (
+                    id TEXT PRIMARY KEY,
+                    user_id TEXT,
+                    workspace_id TEXT REFERENCES workspaces(id),
+                    file_name TEXT NOT NULL DEFAULT '',
+                    file_size INTEGER NOT NULL DEFAULT 0,
+                    upload_time INTEGER NOT NULL DEFAULT 0,
+                    status TEXT NOT NULL DEFAULT 'idle',
+                    analysis TEXT,
+                    error_message TEXT
+                );
+                CREATE INDEX idx_papers_user ON papers(user_id);
+                CREATE INDEX idx_papers_workspace ON papers(workspace_id);
+
+                CREATE TABLE paper_tags (
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    tag TEXT NOT NULL,
+                    position INTEGER NOT NULL,
+                    PRIMARY KEY (paper_id, tag)
+                );
+
+                CREATE TABLE highlights (
+                    id TEXT PRIMARY KEY,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    page INTEGER NOT NULL,
+                    rects TEXT NOT NULL,
+                    color TEXT NOT NULL,
+                    text TEXT,
+                    comment TEXT,
+                    position INTEGER NOT NULL
+                );
+                CREATE INDEX idx_highlights_paper ON highlights(paper_id);
+
+                CREATE TABLE screenshots (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    position INTEGER NOT NULL,
+                    data TEXT NOT NULL
+                );
+                CREATE INDEX idx_screenshots_paper ON screenshots(paper_id);
+
+                CREATE TABLE config (
+                    key TEXT PRIMARY KEY,
+                    value TEXT NOT NULL
+                );
+            `);
+        },
+    },
+    {
+        version: 2,
+        name: 'paper file hashes',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE papers ADD COLUMN file_hash TEXT;
+                CREATE INDEX idx_papers_file_hash ON papers(file_hash);
+            `);
+        },
+    },
+    {
+        version: 3,
+        name: 'analysis jobs',
+        up: (db) => {
+            db.exec(`
+                CREATE TABLE analysis_jobs (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    requested_by TEXT,
+                    state TEXT NOT NULL CHECK (state IN ('queued', 'running', 'failed', 'done')),
+                    settings TEXT,
+                    error TEXT,
+                    created_at INTEGER NOT NULL,
+                    started_at INTEGER,
+                    finished_at INTEGER
+                );
+                CREATE INDEX idx_analysis_jobs_state ON analysis_jobs(state, id);
+                CREATE INDEX idx_analysis_jobs_paper ON analysis_jobs(paper_id);
+            `);
+        },
+    },
+    {
+        version: 4,
+        name: 'paper trash',
+        up: (db) => {
+            db.exec(`
+                ALTER TABLE papers ADD COLUMN deleted_at INTEGER;
+                CREATE INDEX idx_papers_deleted_at ON papers(deleted_at);
+            `);
+        },
+    },
+    {
+        version: 5,
+        name: 'paper versions',
+        up: (db) => {
+            db.exec('ALTER TABLE papers ADD COLUMN version INTEGER NOT NULL DEFAULT 1');
+        },
+    },
+    {
+        version: 6,
+        name: 'full-text search',
+        up: (db) => {
+            // One row per searchable field (analysis fields, tags, highlights, PDF pages).
+            // The trigram tokenizer matches substrings, so CJK text needs no word splitting.
+            // text_hash records which file_hash the indexed PDF text was extracted from.
+            db.exec(`
+                CREATE VIRTUAL TABLE paper_search USING fts5(
+                    paper_id UNINDEXED,
+                    field UNINDEXED,
+                    page UNINDEXED,
+                    content,
+                    tokenize = 'trigram'
+                );
+                ALTER TABLE papers ADD COLUMN text_hash TEXT;
+            `);
+        },
+    },
+    {
+        version: 7,
+        name: 'analysis revisions',
+        up: (db) => {
+            // Every change to an AnalysisResult field. source 'unknown' marks the value a
+            // field already had before its first recorded change.
+            db.exec(`
+                CREATE TABLE analysis_revisions (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    field TEXT NOT NULL,
+                    value TEXT NOT NULL,
+                    source TEXT NOT NULL CHECK (source IN ('ai', 'human', 'unknown')),
+                    author TEXT,
+                    model TEXT,
+                    reverted_from INTEGER,
+                    created_at INTEGER NOT NULL
+                );
+                CREATE INDEX idx_analysis_revisions_paper ON analysis_revisions(paper_id, field, id);
+            `);
+        },
+    },
+    {
+        version: 8,
+        name: 'paper thumbnails',
+        up: (db) => {
+            // When the first-page thumbnail (data/thumbnails/<id>.jpg) was stored; NULL if none
+            db.exec('ALTER TABLE papers ADD COLUMN thumbnail_at INTEGER');
+        },
+    },
+    {
+        version: 9,
+        name: 'screenshot files',
+        up: (db, { dataDir }) => {
+            // Screenshot images move out of the database into data/screenshots/<id>
+            db.exec(`
+                CREATE TABLE paper_screenshots (
+                    id TEXT PRIMARY KEY,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    position INTEGER NOT NULL,
+                    mime_type TEXT NOT NULL,
+                    size INTEGER NOT NULL,
+                    caption TEXT,
+                    created_at INTEGER NOT NULL
+                );
+                CREATE INDEX idx_paper_screenshots_paper ON paper_screenshots(paper_id, position);
+            `);
+
+            // One row at a time: the data URLs can add up to far more than fits in memory
+            const ids = db.prepare('SELECT id FROM screenshots ORDER BY paper_id, position').pluck().all();
+            const getOld = db.prepare('SELECT paper_id, position, data FROM screenshots WHERE id = ?');
+            let skipped = 0;
+            ids.forEach(id => {
+                const row = getOld.get(id);
+                if (!storeDataUrlScreenshot(db, dataDir, row.paper_id, row.position, row.data)) skipped++;
+            });
+            if (ids.length) console.log(`🖼️  Moved ${ids.length - skipped} screenshots to ${SCREENSHOT_DIR_NAME}/`);
+            if (skipped) console.warn(`⚠️  Dropped ${skipped} screenshots that were not data URLs`);
+
+            db.exec('DROP TABLE screenshots');
+        },
+    },
+    {
+        version: 10,
+        name: 'user preferences',
+        up: (db) => {
+            // preferences is a JSON document ({ llm, ui, banner }); api_key is encrypted
+            // by the server (see server/preferences.js) and never part of that document
+            db.exec(`
+                CREATE TABLE user_preferences (
+                    username TEXT PRIMARY KEY REFERENCES users(username) ON DELETE CASCADE,
+                    preferences TEXT NOT NULL,
+                    api_key TEXT,
+                    updated_at INTEGER NOT NULL
+                );
+            `);
+        },
+    },
+    {
+        version: 11,
+        name: 'user storage quotas',
+        up: (db) => {
+            // Bytes of PDFs and screenshots a user may store. NULL uses the server default, 0 is unlimited.
+            db.exec('ALTER TABLE users ADD COLUMN quota_bytes INTEGER');
+        },
+    },
+    {
+        version: 12,
+        name: 'api tokens',
+        up: (db) => {
+            // Only a SHA-256 of each token is kept; `prefix` identifies it in listings
+            db.exec(`
+                CREATE TABLE api_tokens (
+                    id TEXT PRIMARY KEY,
+                    username TEXT NOT NULL REFERENCES users(username) ON DELETE CASCADE,
+                    name TEXT NOT NULL,
+                    token_hash TEXT NOT NULL UNIQUE,
+                    prefix TEXT NOT NULL,
+                    scopes TEXT NOT NULL,
+                    created_at INTEGER NOT NULL,
+                    expires_at INTEGER,
+                    last_used_at INTEGER
+                );
+                CREATE INDEX idx_api_tokens_user ON api_tokens(username);
+            `);
+        },
+    },
+    {
+        version: 13,
+        name: 'inbox log',
+        up: (db) => {
+            // What the watched inbox folder took in or turned away; paper_id is not a
+            // foreign key so entries outlive purged papers
+            db.exec(`
+                CREATE TABLE inbox_log (
+                    id INTEGER PRIMARY KEY AUTOINCREMENT,
+                    file_name TEXT NOT NULL,
+                    status TEXT NOT NULL,
+                    reason TEXT,
+                    paper_id TEXT,
+                    created_at INTEGER NOT NULL
+                );
+            `);
+        },
+    },
+    {
+        version: 14,
+        name: 'highlight keys per paper',
+        up: (db) => {
+            // Highlight ids are chosen by the client, so they are only unique within a paper
+            db.exec(`
+                CREATE TABLE highlights_new (
+                    id TEXT NOT NULL,
+                    paper_id TEXT NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+                    page INTEGER NOT NULL,
+                    rects TEXT NOT NULL,
+                    color TEXT NOT NULL,
+                    text TEXT,
+                    comment TEXT,
+                    position INTEGER NOT NULL,
+                    PRIMARY KEY (paper_id, id)
+                );
+                INSERT INTO highlights_new SELECT id, paper_id, page, rects, color, text, comment, position FROM highlights;
+                DROP TABLE highlights;
+                ALTER TABLE highlights_new RENAME TO highlights;
+            `);
+        },
+    },
+];
+
+const runMigrations = (db, dataDir) => {
+    db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+    )`);
+
+    const current = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get().version || 0;
+    const pending = MIGRATIONS.filter(m => m.version > current).sort((a, b) => a.version - b.version);
+
+    pending.forEach(migration => {
+        db.transaction(() => {
+            migration.up(db, { dataDir });
+            db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+                .run(migration.version, migration.name, Date.now());
+        })();
+        console.log(`🗄️  Applied migration ${migration.version}: ${migration.name}`);
+    });
+};
+
+const readJsonFile = (filePath, fallback) => {
+    try {
+        if (!fs.existsSync(filePath)) return fallback;
+        const content = fs.readFileSync(filePath, 'utf-8');
+        return content ? JSON.parse(content) : fallback;
+    } catch (e) {
+        console.error(`❌ Could not read legacy store ${filePath}:`, e);
+        return fallback;
+    }
+};
+
+// Imports the pre-SQLite JSON stores once. The JSON files are left untouched as a backup.
+const importLegacyJsonStores = (db, dataDir) => {
+    if (db.prepare("SELECT 1 FROM config WHERE key = 'legacy_json_imported'").get()) return;
+
+    const papers = readJsonFile(path.join(dataDir, 'data_store.json'), []);
+    const users = readJsonFile(path.join(dataDir, 'users_store.json'), []);
+    const workspaces = readJsonFile(path.join(dataDir, 'workspaces_store.json'), []);
+    const config = readJsonFile(path.join(dataDir, 'config_store.json'), null);
+
+    const insertUser = db.prepare('INSERT OR IGNORE INTO users (username, salt, password_hash, created_at) VALUES (?, ?, ?, ?)');
+    const insertWorkspace = db.prepare('INSERT OR IGNORE INTO workspaces (id, name, created_at) VALUES (?, ?, ?)');
+    const insertMember = db.prepare('INSERT OR IGNORE INTO workspace_members (workspace_id, username, role) VALUES (?, ?, ?)');
+    const insertPaper = db.prepare(`INSERT OR IGNORE INTO papers
+        (id, user_id, workspace_id, file_name, file_size, upload_time, status, analysis, error_message)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+    const insertTag = db.prepare('INSERT OR IGNORE INTO paper_tags (paper_id, tag, position) VALUES (?, ?, ?)');
+    const insertHighlight = db.prepare(`INSERT OR IGNORE INTO highlights
+        (id, paper_id, page, rects, color, text, comment, position) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+    const setConfig = db.prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)');
+    const userExists = db.prepare('SELECT 1 FROM users WHERE username = ?');
+
+    db.transaction(() => {
+        users.forEach(u => {
+            if (u && u.username && u.salt && u.passwordHash) {
+                insertUser.run(u.username, u.salt, u.passwordHash, u.createdAt || Date.now());
+            }
+        });
+
+        const workspaceIds = new Set();
+        workspaces.forEach(w => {
+            if (!w || !w.id) return;
+            insertWorkspace.run(w.id, w.name || 'Workspace', w.createdAt || Date.now());
+            workspaceIds.add(w.id);
+            (w.members || []).forEach(m => {
+                if (userExists.get(m.username)) insertMember.run(w.id, m.username, m.role);
+            });
+        });
+
+        papers.forEach(p => {
+            if (!p || !p.id) return;
+            insertPaper.run(
+                p.id,
+                p.userId || null,
+                p.workspaceId && workspaceIds.has(p.workspaceId) ? p.workspaceId : null,
+                p.fileName || '',
+                p.fileSize || 0,
+                p.uploadTime || 0,
+                p.status || 'idle',
+                p.analysis ? JSON.stringify(p.analysis) : null,
+                p.errorMessage || null
+            );
+            (p.tags || []).forEach((tag, i) => insertTag.run(p.id, tag, i));
+            (p.highlights || []).forEach((h, i) => {
+                insertHighlight.run(h.id, p.id, h.page, JSON.stringify(h.rects || []), h.color, h.text || null, h.comment || null, i);
+            });
+            (p.screenshots || []).forEach((data, i) => storeDataUrlScreenshot(db, dataDir, p.id, i, data));
+        });
+
+        if (config && config.banner) setConfig.run('banner', JSON.stringify(config.banner));
+        setConfig.run('legacy_json_imported', JSON.stringify(Date.now()));
+    })();
+
+    if (papers.length || users.length || workspaces.length) {
+        console.log(`📦 Imported legacy JSON store: ${papers.length} papers, ${users.length} users, ${workspaces.length} workspaces`);
+    }
+};
+
+const openDatabase = (dbPath, dataDir) => {
+    const db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.pragma('busy_timeout = 5000');
+    runMigrations(db, dataDir);
+    importLegacyJsonStores(db, dataDir);
+    return db;
+};
+
+module.exports = { openDatabase, decodeDataUrl, MIGRATIONS };
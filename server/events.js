@@ -0,0 +1,88 @@
+const crypto = require('crypto');
+
+/**
+ * Server-sent events for open clients. Each connection follows one library
+ * (the personal one, or a workspace) and receives the paper changes made there
+ * by anyone, including the user's other tabs.
+ *
+ * Event ids are "<boot id>-<sequence>". A reconnecting client sends the last id
+ * it saw (Last-Event-ID); the events it missed are replayed from a short
+ * history, or it is told to `resync` when they are no longer available.
+ */
+
+const HEARTBEAT_MS = 25 * 1000;
+const HISTORY_SIZE = 500;
+
+// `canReceive(user, scope)` decides per client whether it may see an event;
+// it is checked on delivery so members removed from a workspace stop receiving.
+const createEventHub = ({ canReceive }) => {
+    const bootId = crypto.randomBytes(4).toString('hex');
+    const clients = new Set();
+    const history = [];
+    let sequence = 0;
+
+    const matches = (client, event) =>
+        (event.scope.workspaceId || null) === client.workspaceId && canReceive(client.user, event.scope);
+
+    const write = (client, event) => {
+        client.res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    // Events after `lastEventId`, or null if some of them are gone
+    const missedSince = (lastEventId) => {
+        const [boot, seq] = String(lastEventId).split('-');
+        const lastSeq = Number(seq);
+        if (boot !== bootId || !Number.isInteger(lastSeq) || lastSeq > sequence) return null;
+        if (lastSeq === sequence) return [];
+        const oldest = history.length ? history[0].sequence : sequence + 1;
+        if (lastSeq < oldest - 1) return null;
+        return history.filter(event => event.sequence > lastSeq);
+    };
+
+    const subscribe = (req, res, { user, workspaceId }) => {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        const client = { res, user, workspaceId: workspaceId || null };
+        res.write(`retry: 3000\n\n`);
+
+        const lastEventId = req.headers['last-event-id'];
+        if (lastEventId) {
+            const missed = missedSince(lastEventId);
+            if (missed) missed.filter(event => matches(client, event)).forEach(event => write(client, event));
+            else res.write(`id: ${bootId}-${sequence}\nevent: resync\ndata: {}\n\n`);
+        } else {
+            res.write(`id: ${bootId}-${sequence}\nevent: ready\ndata: {}\n\n`);
+        }
+
+        clients.add(client);
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            clients.delete(client);
+        });
+    };
+
+    // `scope` is the paper (or { workspaceId, userId }) the event is about
+    const publish = (type, data, scope) => {
+        sequence++;
+        const event = { id: `${bootId}-${sequence}`, sequence, type, data, scope: { workspaceId: scope.workspaceId, userId: scope.userId } };
+        history.push(event);
+        if (history.length > HISTORY_SIZE) history.shift();
+
+        clients.forEach(client => {
+            try {
+                if (matches(client, event)) write(client, event);
+            } catch (e) {
+                console.error("   ❌ Could not deliver event:", e.message);
+            }
+        });
+    };
+
+    return { subscribe, publish };
+};
+
+module.exports = { createEventHub };
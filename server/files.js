@@ -0,0 +1,380 @@
+const fs = require('fs');
+const path = require('path');
+const http = require('http');
+const https = require('https');
+const crypto = require('crypto');
+const { pipeline } = require('stream/promises');
+
+/**
+ * Where uploaded PDFs are kept. Routes, the job runner, the text indexer, backups,
+ * imports and the storage check go through this interface rather than data/uploads,
+ * so the files can live on the local disk ('fs', the default) or in an S3-compatible
+ * bucket ('s3': AWS S3, MinIO, Ceph, R2, ...). Screenshots and thumbnails stay local.
+ *
+ * Files are named by key ("<paperId>.pdf", see paperFileKey). Each backend provides
+ *   put(key, filePath, { move? })    store a local file; `move` takes it away
+ *   openRead(key, { start?, end? })  -> { stream, size, totalSize } or null if missing
+ *   stat(key)                        -> { size, mtimeMs } or null if missing
+ *   remove(key), rename(fromKey, toKey), list() -> [{ key, size, mtimeMs }], init()
+ * and createFileStorage adds read(), exists(), hash(), download() and tempPath().
+ * Uploads are written to a temp file under `tempDir` first, which is always local.
+ */
+
+const STORAGE_BACKENDS = ['fs', 's3'];
+
+const paperFileKey = (paperId) => `${paperId}.pdf`;
+
+// --- Local disk ---
+
+const createFsBackend = ({ dir }) => {
+    // Keys come from paper ids; anything that would land outside `dir` is refused
+    const fullPath = (key) => {
+        const resolved = path.resolve(dir, key);
+        if (path.dirname(resolved) !== path.resolve(dir)) throw new Error(`Invalid file key "${key}"`);
+        return resolved;
+    };
+    const missing = (e) => e.code === 'ENOENT';
+
+    const put = async (key, filePath, { move = false } = {}) => {
+        if (move) {
+            try {
+                await fs.promises.rename(filePath, fullPath(key));
+                return;
+            } catch (e) {
+                if (e.code !== 'EXDEV') throw e;
+            }
+        }
+        // Copied under a temp name so a half-written file never replaces a good one
+        const temp = path.join(dir, `.${path.parse(key).name}.${crypto.randomBytes(4).toString('hex')}.part`);
+        try {
+            await fs.promises.copyFile(filePath, temp);
+            await fs.promises.rename(temp, fullPath(key));
+        } catch (e) {
+            await fs.promises.rm(temp, { force: true });
+            throw e;
+        }
+        if (move) await fs.promises.unlink(filePath);
+    };
+
+    const openRead = async (key, { start, end } = {}) => {
+        try {
+            const { size: totalSize } = await fs.promises.stat(fullPath(key));
+            const from = start ?? 0;
+            const to = end ?? totalSize - 1;
+            const stream = fs.createReadStream(fullPath(key), { start: from, end: Math.max(from, to) });
+            return { stream, size: Math.max(0, to - from + 1), totalSize };
+        } catch (e) {
+            if (missing(e)) return null;
+            throw e;
+        }
+    };
+
+    const stat = async (key) => {
+        try {
+            const { size, mtimeMs } = await fs.promises.stat(fullPath(key));
+            return { size, mtimeMs };
+        } catch (e) {
+            if (missing(e)) return null;
+            throw e;
+        }
+    };
+
+    // Temp files of uploads in progress start with a dot and are not listed
+    const list = async () => {
+        const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(e => {
+            if (missing(e)) return [];
+            throw e;
+        });
+        const files = [];
+        for (const entry of entries) {
+            if (!entry.isFile() || entry.name.startsWith('.')) continue;
+            const info = await stat(entry.name);
+            if (info) files.push({ key: entry.name, ...info });
+        }
+        return files;
+    };
+
+    return {
+        kind: 'fs',
+        description: dir,
+        tempDir: dir,
+        localPath: fullPath,
+        init: () => fs.promises.mkdir(dir, { recursive: true }),
+        put,
+        openRead,
+        stat,
+        remove: (key) => fs.promises.rm(fullPath(key), { force: true }),
+        rename: (fromKey, toKey) => fs.promises.rename(fullPath(fromKey), fullPath(toKey)),
+        list,
+    };
+};
+
+// --- S3-compatible bucket ---
+// Requests are signed with AWS Signature Version 4. Bodies are streamed and sent
+// with UNSIGNED-PAYLOAD, which S3 and MinIO accept over both HTTP and HTTPS.
+
+const sha256Hex = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+const encodeRfc3986 = (value) => encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+const encodeKeyPath = (key) => key.split('/').map(encodeRfc3986).join('/');
+const canonicalQuery = (query) => Object.keys(query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(String(query[name]))}`)
+    .join('&');
+
+// Returns the request headers with x-amz-date, x-amz-content-sha256 and Authorization added
+const signRequest = ({ method, path: requestPath, query = {}, headers, payloadHash, region, accessKeyId, secretAccessKey, now = new Date() }) => {
+    const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const day = amzDate.slice(0, 8);
+    const signed = { 'x-amz-content-sha256': payloadHash, 'x-amz-date': amzDate };
+    Object.entries(headers).forEach(([name, value]) => {
+        signed[name.toLowerCase()] = String(value).trim().replace(/\s+/g, ' ');
+    });
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+        method,
+        requestPath,
+        canonicalQuery(query),
+        names.map(name => `${name}:${signed[name]}\n`).join(''),
+        names.join(';'),
+        payloadHash,
+    ].join('\n');
+    const scope = `${day}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = [region, 's3', 'aws4_request'].reduce(hmac, hmac(`AWS4${secretAccessKey}`, day));
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    return {
+        ...signed,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+};
+
+const readBody = async (res) => {
+    const chunks = [];
+    for await (const chunk of res) chunks.push(chunk);
+    return Buffer.concat(chunks);
+};
+
+const xmlValue = (xml, tag) => {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match ? match[1] : null;
+};
+
+const decodeXml = (text) => text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+const createS3Backend = ({ bucket, region = 'us-east-1', endpoint, accessKeyId, secretAccessKey, prefix = '', pathStyle = true, tempDir }) => {
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`);
+    const client = base.protocol === 'https:' ? https : http;
+    const hostname = pathStyle ? base.hostname : `${bucket}.${base.hostname}`;
+    const host = pathStyle ? base.host : `${bucket}.${base.host}`;
+    const bucketPath = pathStyle ? `/${bucket}` : '/';
+    const objectPath = (key) => `${pathStyle ? `/${bucket}` : ''}/${encodeKeyPath(prefix + key)}`;
+
+    const request = ({ method, requestPath, query = {}, headers = {}, body, contentLength }) => new Promise((resolve, reject) => {
+        const signedHeaders = signRequest({
+            method,
+            path: requestPath,
+            query,
+            headers: { host, ...headers },
+            payloadHash: body ? 'UNSIGNED-PAYLOAD' : sha256Hex(''),
+            region,
+            accessKeyId,
+            secretAccessKey,
+        });
+        if (contentLength !== undefined) signedHeaders['content-length'] = String(contentLength);
+        const search = canonicalQuery(query);
+        const req = client.request({
+            method,
+            hostname,
+            port: base.port || undefined,
+            path: search ? `${requestPath}?${search}` : requestPath,
+            headers: signedHeaders,
+        }, resolve);
+        req.on('error', reject);
+        if (body) {
+            body.on('error', (e) => req.destroy(e));
+            body.pipe(req);
+        } else {
+            req.end();
+        }
+    });
+
+    // Consumes the response and throws with the S3 error code, e.g. "NoSuchBucket"
+    const fail = async (res, what) => {
+        const xml = (await readBody(res).catch(() => Buffer.alloc(0))).toString('utf-8');
+        const code = xmlValue(xml, 'Code');
+        const message = xmlValue(xml, 'Message');
+        throw new Error(`S3 ${what} failed: ${res.statusCode}${code ? ` ${code}` : ''}${message ? ` (${decodeXml(message)})` : ''}`);
+    };
+
+    const put = async (key, filePath, { move = false } = {}) => {
+        const { size } = await fs.promises.stat(filePath);
+        const res = await request({
+            method: 'PUT',
+            requestPath: objectPath(key),
+            headers: { 'content-type': 'application/pdf' },
+            body: fs.createReadStream(filePath),
+            contentLength: size,
+        });
+        if (res.statusCode !== 200) await fail(res, `upload of ${key}`);
+        res.resume();
+        if (move) await fs.promises.unlink(filePath);
+    };
+
+    const openRead = async (key, { start, end } = {}) => {
+        const ranged = start !== undefined || end !== undefined;
+        const headers = ranged ? { range: `bytes=${start ?? 0}-${end ?? ''}` } : {};
+        const res = await request({ method: 'GET', requestPath: objectPath(key), headers });
+        if (res.statusCode === 404) {
+            res.resume();
+            return null;
+        }
+        if (res.statusCode !== 200 && res.statusCode !== 206) await fail(res, `download of ${key}`);
+        const size = Number(res.headers['content-length']);
+        const range = /\/(\d+)$/.exec(res.headers['content-range'] || '');
+        return { stream: res, size, totalSize: range ? Number(range[1]) : size };
+    };
+
+    const stat = async (key) => {
+        const res = await request({ method: 'HEAD', requestPath: objectPath(key) });
+        res.resume();
+        if (res.statusCode === 404) return null;
+        if (res.statusCode !== 200) throw new Error(`S3 lookup of ${key} failed: ${res.statusCode}`);
+        return { size: Number(res.headers['content-length']), mtimeMs: Date.parse(res.headers['last-modified']) || 0 };
+    };
+
+    const remove = async (key) => {
+        const res = await request({ method: 'DELETE', requestPath: objectPath(key) });
+        if (res.statusCode !== 204 && res.statusCode !== 200 && res.statusCode !== 404) await fail(res, `delete of ${key}`);
+        res.resume();
+    };
+
+    // CopyObject can answer 200 and still report an error in the body
+    const rename = async (fromKey, toKey) => {
+        const res = await request({
+            method: 'PUT',
+            requestPath: objectPath(toKey),
+            headers: { 'x-amz-copy-source': `/${bucket}/${encodeKeyPath(prefix + fromKey)}` },
+        });
+        if (res.statusCode !== 200) await fail(res, `copy of ${fromKey}`);
+        const xml = (await readBody(res)).toString('utf-8');
+        if (xml.includes('<Error>')) throw new Error(`S3 copy of ${fromKey} failed: ${xmlValue(xml, 'Code')}`);
+        await remove(fromKey);
+    };
+
+    // Only keys directly under the prefix belong to this library
+    const list = async () => {
+        const files = [];
+        let token = null;
+        do {
+            const query = { 'list-type': '2', prefix };
+            if (token) query['continuation-token'] = token;
+            const res = await request({ method: 'GET', requestPath: bucketPath, query });
+            if (res.statusCode !== 200) await fail(res, 'listing');
+            const xml = (await readBody(res)).toString('utf-8');
+            for (const [, entry] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+                const key = decodeXml(xmlValue(entry, 'Key') || '').slice(prefix.length);
+                if (!key || key.includes('/')) continue;
+                files.push({ key, size: Number(xmlValue(entry, 'Size')), mtimeMs: Date.parse(xmlValue(entry, 'LastModified')) || 0 });
+            }
+            token = xmlValue(xml, 'IsTruncated') === 'true' ? decodeXml(xmlValue(xml, 'NextContinuationToken') || '') : null;
+        } while (token);
+        return files;
+    };
+
+    // Fails early when the bucket is missing or the credentials are wrong
+    const init = async () => {
+        await fs.promises.mkdir(tempDir, { recursive: true });
+        const res = await request({ method: 'HEAD', requestPath: bucketPath });
+        res.resume();
+        if (res.statusCode !== 200) {
+            throw new Error(`Bucket ${bucket} is not reachable at ${base.origin} (${res.statusCode === 404 ? 'not found' : res.statusCode === 403 ? 'access denied' : `status ${res.statusCode}`})`);
+        }
+    };
+
+    return {
+        kind: 's3',
+        description: `s3://${bucket}/${prefix} at ${base.origin}`,
+        tempDir,
+        localPath: null,
+        init,
+        put,
+        openRead,
+        stat,
+        remove,
+        rename,
+        list,
+    };
+};
+
+// --- Shared helpers ---
+
+const createFileStorage = (backend) => {
+    const read = async (key, range) => {
+        const file = await backend.openRead(key, range);
+        return file ? readBody(file.stream) : null;
+    };
+
+    const hash = async (key) => {
+        const file = await backend.openRead(key);
+        if (!file) return null;
+        const digest = crypto.createHash('sha256');
+        for await (const chunk of file.stream) digest.update(chunk);
+        return digest.digest('hex');
+    };
+
+    // Writes the stored file to a local path; false if there is no such file
+    const download = async (key, filePath) => {
+        const file = await backend.openRead(key);
+        if (!file) return false;
+        await pipeline(file.stream, fs.createWriteStream(filePath));
+        return true;
+    };
+
+    // Hidden name in tempDir; the storage check treats old ones as interrupted uploads
+    const tempPath = (key) => path.join(backend.tempDir, `.${path.parse(key).name}.${crypto.randomBytes(4).toString('hex')}.part`);
+
+    return {
+        ...backend,
+        read,
+        exists: async (key) => !!(await backend.stat(key)),
+        hash,
+        download,
+        tempPath,
+    };
+};
+
+/**
+ * Builds the storage named by `kind` (default: STORAGE_BACKEND, else 'fs') from
+ * environment variables:
+ *   fs: data/uploads
+ *   s3: S3_BUCKET, S3_REGION (us-east-1), S3_ENDPOINT (AWS by default; e.g.
+ *       http://localhost:9000 for MinIO), S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+ *       (or AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY), S3_PREFIX (key prefix, e.g.
+ *       "uploads/"), S3_PATH_STYLE ("false" for virtual-hosted bucket URLs)
+ */
+const storageFromEnv = ({ dataDir, env = process.env, kind = env.STORAGE_BACKEND || 'fs' }) => {
+    if (!STORAGE_BACKENDS.includes(kind)) {
+        throw new Error(`Unknown storage backend "${kind}"; use one of: ${STORAGE_BACKENDS.join(', ')}`);
+    }
+    if (kind === 'fs') return createFileStorage(createFsBackend({ dir: path.join(dataDir, 'uploads') }));
+
+    const accessKeyId = env.S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = env.S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY;
+    if (!env.S3_BUCKET) throw new Error("S3_BUCKET is not set");
+    if (!accessKeyId || !secretAccessKey) throw new Error("S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are not set");
+    return createFileStorage(createS3Backend({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || env.AWS_REGION || 'us-east-1',
+        endpoint: env.S3_ENDPOINT || undefined,
+        accessKeyId,
+        secretAccessKey,
+        prefix: env.S3_PREFIX || '',
+        pathStyle: env.S3_PATH_STYLE !== 'false',
+        tempDir: path.join(dataDir, 'tmp'),
+    }));
+};
+
+module.exports = { STORAGE_BACKENDS, paperFileKey, createFsBackend, createS3Backend, createFileStorage, storageFromEnv };
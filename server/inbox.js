@@ -0,0 +1,99 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Watched inbox folder. PDFs saved into it are moved into the library through
+ * the ingester; files that are not taken (not a PDF, already in the library,
+ * over quota) are moved to <inbox>/rejected so they are not retried forever.
+ *
+ * The folder is polled rather than watched with fs.watch, which misses events
+ * on network shares and some container mounts. A file is only picked up once
+ * its size and modification time are unchanged between two scans, so copies
+ * and downloads still being written are left alone.
+ */
+
+const REJECTED_DIR = 'rejected';
+
+// `ingestOptions()` is read on every pick-up so changed preferences apply;
+// `checkFile(size)` returns a reason to refuse the file, or null;
+// `onResult(result)` is called for every file that was taken or refused.
+const createInboxWatcher = ({ dir, ingester, ingestOptions, checkFile, onResult, pollMs }) => {
+    const rejectedDir = path.join(dir, REJECTED_DIR);
+    const pending = new Map(); // file name -> "size:mtime" seen on the previous scan
+    let scanning = false;
+    let timer = null;
+
+    // Keeps the original name unless a file of that name was already set aside
+    const setAside = async (filePath) => {
+        const name = path.basename(filePath);
+        let destination = path.join(rejectedDir, name);
+        if (fs.existsSync(destination)) destination = path.join(rejectedDir, `${Date.now()}-${name}`);
+        await fs.promises.rename(filePath, destination);
+    };
+
+    const take = async (filePath, size) => {
+        const refusal = checkFile(size);
+        const result = refusal
+            ? { status: 'rejected', filePath, reason: refusal }
+            : await ingester.ingestFile(filePath, { ...ingestOptions(), move: true });
+        if (result.status !== 'imported') {
+            try {
+                await setAside(filePath);
+            } catch (e) {
+                // Left in place; it is skipped until it changes again
+                console.error(`❌ Inbox could not move ${path.basename(filePath)} aside:`, e.message);
+            }
+        }
+        onResult(result);
+    };
+
+    const scan = async () => {
+        if (scanning) return;
+        scanning = true;
+        try {
+            const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+            const present = new Set();
+            for (const entry of entries) {
+                if (!entry.isFile() || entry.name.startsWith('.') || !entry.name.toLowerCase().endsWith('.pdf')) continue;
+                present.add(entry.name);
+                const filePath = path.join(dir, entry.name);
+                const stat = await fs.promises.stat(filePath).catch(() => null);
+                if (!stat) continue;
+
+                const signature = `${stat.size}:${stat.mtimeMs}`;
+                const previous = pending.get(entry.name);
+                if (previous === `taken ${signature}`) continue;
+                if (previous !== signature) {
+                    pending.set(entry.name, signature);
+                    continue;
+                }
+                pending.set(entry.name, `taken ${signature}`);
+                await take(filePath, stat.size);
+            }
+            // Forget files that were taken or removed
+            [...pending.keys()].forEach(name => {
+                if (!present.has(name)) pending.delete(name);
+            });
+        } catch (e) {
+            console.error("❌ Inbox scan failed:", e.message);
+        } finally {
+            scanning = false;
+        }
+    };
+
+    const start = () => {
+        fs.mkdirSync(rejectedDir, { recursive: true });
+        timer = setInterval(scan, pollMs);
+        timer.unref();
+        scan();
+    };
+
+    const stop = () => {
+        if (timer) clearInterval(timer);
+        timer = null;
+    };
+
+    return { start, stop, scan };
+};
+
+module.exports = { createInboxWatcher, REJECTED_DIR };
@@ -0,0 +1,99 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const analysis = require('./analysis');
+const { paperFileKey } = require('./files');
+
+/**
+ * Registers PDFs that are already on the server's disk as papers, the way an
+ * upload through the app would: the file goes to the file storage as <id>.pdf, the paper
+ * belongs to `username` (and optionally a workspace), and copies of a PDF the
+ * library already holds are skipped. Used by the bulk import command
+ * (import-pdfs.js) and the watched inbox folder (server/inbox.js).
+ */
+
+const PDF_HEADER = Buffer.from('%PDF-');
+const HEADER_SEARCH_BYTES = 1024; // Readers accept the header anywhere in the first 1 KB
+
+const hashFile = (filePath) => new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+});
+
+// `head` is the start of the file, at least HEADER_SEARCH_BYTES when the file is that long
+const looksLikePdf = (head) => head.subarray(0, HEADER_SEARCH_BYTES).includes(PDF_HEADER);
+
+const hasPdfHeader = async (filePath) => {
+    const handle = await fs.promises.open(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(HEADER_SEARCH_BYTES);
+        const { bytesRead } = await handle.read(buffer, 0, HEADER_SEARCH_BYTES, 0);
+        return looksLikePdf(buffer.subarray(0, bytesRead));
+    } finally {
+        await handle.close();
+    }
+};
+
+// Model settings for analyses queued on a user's behalf: the ones saved in their
+// preferences. The API key is left out; the job runner adds the stored one.
+const savedAnalysisSettings = (store, username) =>
+    analysis.sanitizeSettings({ ...(store.getPreferences(username).preferences.llm || {}), apiKey: '' });
+
+const createIngester = ({ store, storage }) => {
+    const findDuplicate = (hash, { username, workspaceId }) => store.findPapersByHash(hash).find(p => (workspaceId
+        ? p.workspaceId === workspaceId
+        : !p.workspaceId && p.userId === username));
+
+    /**
+     * Options: { username, workspaceId?, tags?, move?, analysisSettings?, dryRun?, batch? }
+     * - move: take the file away from `filePath` instead of copying it
+     * - analysisSettings: queue an analysis with these (sanitized) settings
+     * - batch: Map of hash -> path shared across one run, so identical files
+     *   within the run are caught even in a dry run
+     *
+     * Resolves to { status: 'imported' | 'duplicate' | 'rejected', ... }; never throws
+     * for problems with the file itself.
+     */
+    const ingestFile = async (filePath, options) => {
+        const { username, workspaceId, tags = [], move = false, analysisSettings, dryRun = false, batch } = options;
+        const fileName = path.basename(filePath);
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isFile()) return { status: 'rejected', filePath, reason: 'Not a regular file' };
+            if (stat.size === 0) return { status: 'rejected', filePath, reason: 'Empty file' };
+            if (!(await hasPdfHeader(filePath))) return { status: 'rejected', filePath, reason: 'Not a PDF' };
+
+            const hash = await hashFile(filePath);
+            const existing = findDuplicate(hash, { username, workspaceId });
+            if (existing) return { status: 'duplicate', filePath, duplicateOf: existing.id, duplicateName: existing.fileName };
+            if (batch && batch.has(hash)) return { status: 'duplicate', filePath, duplicateName: path.basename(batch.get(hash)) };
+            if (batch) batch.set(hash, filePath);
+
+            if (dryRun) return { status: 'imported', filePath, size: stat.size, tags, dryRun: true };
+
+            const id = crypto.randomUUID();
+            const key = paperFileKey(id);
+            await storage.put(key, filePath, { move });
+            try {
+                store.savePaper({ id, userId: username, workspaceId, fileName, fileSize: stat.size, uploadTime: Date.now(), tags });
+                store.setPaperFile(id, { hash, size: stat.size });
+            } catch (e) {
+                // Keep the source when the paper could not be registered
+                if (move) await storage.download(key, filePath).catch(() => {});
+                await storage.remove(key).catch(() => {});
+                throw e;
+            }
+            if (analysisSettings) store.enqueueJob({ paperId: id, requestedBy: username, settings: analysisSettings });
+            return { status: 'imported', filePath, paperId: id, size: stat.size, tags };
+        } catch (e) {
+            return { status: 'rejected', filePath, reason: e.message || String(e) };
+        }
+    };
+
+    return { ingestFile };
+};
+
+module.exports = { HEADER_SEARCH_BYTES, hashFile, hasPdfHeader, looksLikePdf, savedAnalysisSettings, createIngester };
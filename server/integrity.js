@@ -0,0 +1,362 @@
+const fs = require('fs');
+const path = require('path');
+const { HEADER_SEARCH_BYTES, looksLikePdf } = require('./ingest');
+const { paperFileKey } = require('./files');
+
+/**
+ * Storage check: compares the database with the stored PDFs (see server/files.js)
+ * and the screenshots and thumbnails under data/. Rows and
+ * files are written in separate steps (POST /api/papers, then PUT .../file), so
+ * an interrupted request or a crash can leave one without the other.
+ *
+ * `scan()` only reads and lists each problem with the fix `repair()` would apply.
+ * `repair(report)` never deletes anything outright: files are moved to
+ * <quarantineDir>/<timestamp>/ and removed values are written to the
+ * manifest.json next to them. Used by check-storage.js and the admin endpoints.
+ */
+
+const PAPER_STATUSES = ['idle', 'analyzing', 'success', 'error'];
+// Files and papers younger than this may belong to an upload still in progress
+const GRACE_MS = 60 * 60 * 1000;
+
+const ISSUE_TYPES = {
+    orphan_file: 'PDF that no paper points to',
+    stale_upload: 'Temporary file left by an interrupted upload',
+    missing_file: 'Paper whose PDF is not on disk',
+    unreadable_file: 'PDF that is empty or has no PDF header',
+    file_mismatch: 'PDF whose size or content differs from the record',
+    malformed_record: 'Paper or highlight row with invalid values',
+    orphan_owner: 'Paper whose owner or workspace no longer exists',
+    missing_screenshot: 'Screenshot row whose image is not on disk',
+    orphan_screenshot: 'Screenshot image that no row points to',
+    missing_thumbnail: 'Paper marked as having a thumbnail that is not on disk',
+    orphan_thumbnail: 'Thumbnail of a paper that no longer exists',
+};
+
+// What repair() does per issue:
+// - quarantine: move the file aside (for unreadable PDFs the paper also goes to the trash)
+// - restore:    an orphan PDF with the recorded content becomes the paper's file again
+// - trash:      move the paper to the trash, where it can still be restored or purged
+// - update:     rewrite the record (recomputed size/hash, or fields reset to valid values)
+// - delete:     remove a row that points at nothing (saved to the manifest first)
+// - clear:      forget the thumbnail so clients render a new one
+// - none:       needs a person; reported only
+const FIXES = ['quarantine', 'restore', 'trash', 'update', 'delete', 'clear', 'none'];
+
+const isJsonObject = (text) => {
+    try {
+        const value = JSON.parse(text);
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+    } catch {
+        return false;
+    }
+};
+
+const isJsonArray = (text) => {
+    try {
+        return Array.isArray(JSON.parse(text));
+    } catch {
+        return false;
+    }
+};
+
+const listDirectory = (dir) => {
+    try {
+        return fs.readdirSync(dir, { withFileTypes: true }).filter(entry => entry.isFile()).map(entry => entry.name);
+    } catch (e) {
+        if (e.code === 'ENOENT') return [];
+        throw e;
+    }
+};
+
+// Issue files are "<area>/<name>": PDFs are in the file storage ("uploads"), the rest on the local disk
+const createIntegrityChecker = ({ store, storage, screenshotDir, thumbnailDir, quarantineDir }) => {
+    const localAreas = { temp: storage.tempDir, screenshots: screenshotDir, thumbnails: thumbnailDir };
+    const splitFile = (file) => {
+        const [area, ...rest] = file.split('/');
+        return { area, name: rest.join('/') };
+    };
+    const isRecent = (filePath, now) => {
+        try {
+            return now - fs.statSync(filePath).mtimeMs < GRACE_MS;
+        } catch {
+            return false;
+        }
+    };
+
+    /**
+     * Options: { verifyHashes? } re-hashes every PDF instead of comparing sizes only.
+     * Resolves to { scannedAt, papers, files, counts, issues: [{ type, description, fix, paperId?, file?, detail, ... }] }
+     */
+    const scan = async ({ verifyHashes = false } = {}) => {
+        const now = Date.now();
+        const issues = [];
+        const add = (issue) => issues.push({ description: ISSUE_TYPES[issue.type], ...issue });
+
+        const rows = store.listPaperRows();
+        const papers = new Map(rows.map(row => [row.id, row]));
+        const users = new Set(store.listUsernames());
+        const workspaces = new Set(store.listWorkspaceIds());
+
+        // --- PDFs ---
+        const uploading = new Set(); // Paper ids with an upload in progress
+        listDirectory(storage.tempDir).forEach(name => {
+            const part = /^\.(.+)\.[0-9a-f]+\.part$/.exec(name);
+            if (!part) return;
+            if (isRecent(path.join(storage.tempDir, name), now)) uploading.add(part[1]);
+            else add({ type: 'stale_upload', file: `temp/${name}`, detail: `Upload of ${part[1]} never finished`, fix: 'quarantine' });
+        });
+
+        const storedFiles = await storage.list();
+        const stored = new Map(); // Paper id -> stored size
+        const orphans = [];
+        for (const file of storedFiles) {
+            const match = /^(.+)\.pdf$/.exec(file.key);
+            if (match && papers.has(match[1])) stored.set(match[1], file.size);
+            else orphans.push(file);
+        }
+
+        const missing = [];
+        for (const row of rows) {
+            const label = row.file_name || row.id;
+
+            const problems = [];
+            const changes = {};
+            if (!row.file_name) {
+                problems.push('empty file name');
+                changes.fileName = `${row.id}.pdf`;
+            }
+            if (!PAPER_STATUSES.includes(row.status)) {
+                problems.push(`unknown status "${row.status}"`);
+                changes.status = 'idle';
+            }
+            if (row.analysis != null && !isJsonObject(row.analysis)) {
+                problems.push('analysis is not a JSON object');
+                changes.clearAnalysis = true;
+            }
+            if (problems.length > 0) {
+                add({ type: 'malformed_record', paperId: row.id, detail: `${label}: ${problems.join(', ')}`, fix: 'update', changes, previous: { fileName: row.file_name, status: row.status, analysis: row.analysis } });
+            }
+
+            if (row.workspace_id ? !workspaces.has(row.workspace_id) : !users.has(row.user_id)) {
+                const owner = row.workspace_id ? `workspace ${row.workspace_id}` : `user ${row.user_id || '(none)'}`;
+                add({ type: 'orphan_owner', paperId: row.id, detail: `${label}: ${owner} does not exist`, fix: 'none' });
+            }
+
+            if (row.thumbnail_at && !fs.existsSync(path.join(thumbnailDir, `${row.id}.jpg`))) {
+                add({ type: 'missing_thumbnail', paperId: row.id, detail: label, fix: 'clear' });
+            }
+
+            if (!stored.has(row.id)) {
+                // Not uploaded yet, or just created and its upload is on the way. Papers
+                // in the trash without a file are left to the trash purge.
+                if (uploading.has(row.id) || (!row.file_hash && now - row.upload_time < GRACE_MS)) continue;
+                missing.push(row);
+                continue;
+            }
+
+            const key = paperFileKey(row.id);
+            const size = stored.get(row.id);
+            if (size === 0 || !looksLikePdf(await storage.read(key, { start: 0, end: HEADER_SEARCH_BYTES - 1 }) || Buffer.alloc(0))) {
+                add({ type: 'unreadable_file', paperId: row.id, file: `uploads/${key}`, detail: `${label}: ${size === 0 ? 'empty file' : 'no PDF header'}`, fix: 'quarantine' });
+                continue;
+            }
+            const reasons = [];
+            if (!row.file_hash) reasons.push('no recorded hash');
+            if (size !== row.file_size) reasons.push(`size ${size} bytes, recorded ${row.file_size}`);
+            if (verifyHashes && row.file_hash && reasons.length === 0 && await storage.hash(key) !== row.file_hash) {
+                reasons.push('content differs from the recorded hash');
+            }
+            if (reasons.length > 0) {
+                add({ type: 'file_mismatch', paperId: row.id, file: `uploads/${key}`, detail: `${label}: ${reasons.join(', ')}`, fix: 'update' });
+            }
+        }
+
+        // A PDF left under another name can take the place of a paper's missing one
+        const orphanHashes = new Map();
+        if (missing.some(row => row.file_hash)) {
+            for (const file of orphans) {
+                const head = await storage.read(file.key, { start: 0, end: HEADER_SEARCH_BYTES - 1 }).catch(() => null);
+                if (file.size > 0 && head && looksLikePdf(head)) orphanHashes.set(await storage.hash(file.key), file.key);
+            }
+        }
+        const restored = new Set();
+        for (const row of missing) {
+            const label = row.file_name || row.id;
+            const source = row.file_hash && orphanHashes.get(row.file_hash);
+            if (source && !restored.has(source)) {
+                restored.add(source);
+                add({ type: 'missing_file', paperId: row.id, file: `uploads/${source}`, detail: `${label}: same content as ${source}`, fix: 'restore' });
+            } else if (!row.deleted_at) {
+                add({ type: 'missing_file', paperId: row.id, detail: `${label}: ${row.file_hash ? 'file was deleted or lost' : 'PDF was never uploaded'}`, fix: 'trash' });
+            }
+        }
+        orphans.filter(file => !restored.has(file.key)).forEach(file => {
+            if (now - file.mtimeMs < GRACE_MS) return;
+            add({ type: 'orphan_file', file: `uploads/${file.key}`, detail: `${file.key} (${file.size} bytes)`, fix: 'quarantine' });
+        });
+
+        // --- Highlights ---
+        store.listHighlightRows().forEach(h => {
+            if (isJsonArray(h.rects)) return;
+            add({ type: 'malformed_record', paperId: h.paper_id, highlightId: h.id, detail: `Highlight ${h.id}: rects are not a JSON array`, fix: 'delete', previous: h });
+        });
+
+        // --- Screenshots ---
+        const screenshotRows = store.listScreenshotRows();
+        const screenshotIds = new Set(screenshotRows.map(s => s.id));
+        const screenshotNames = new Set(listDirectory(screenshotDir));
+        screenshotRows.forEach(s => {
+            if (screenshotNames.has(s.id)) return;
+            add({ type: 'missing_screenshot', paperId: s.paper_id, screenshotId: s.id, detail: `Screenshot ${s.id}`, fix: 'delete', previous: s });
+        });
+        screenshotNames.forEach(name => {
+            if (screenshotIds.has(name) || isRecent(path.join(screenshotDir, name), now)) return;
+            add({ type: 'orphan_screenshot', file: `screenshots/${name}`, detail: name, fix: 'quarantine' });
+        });
+
+        // --- Thumbnails ---
+        listDirectory(thumbnailDir).forEach(name => {
+            const match = /^(.+)\.jpg$/.exec(name);
+            if (match && papers.has(match[1])) return;
+            add({ type: 'orphan_thumbnail', file: `thumbnails/${name}`, detail: name, fix: 'quarantine' });
+        });
+
+        const counts = {};
+        issues.forEach(issue => { counts[issue.type] = (counts[issue.type] || 0) + 1; });
+        return {
+            scannedAt: now,
+            verifiedHashes: verifyHashes,
+            papers: rows.length,
+            files: storedFiles.length,
+            counts,
+            issues,
+        };
+    };
+
+    /**
+     * Applies the fix of every issue in `report` (from scan()), re-checking each one
+     * first since the library may have changed in between. Resolves to
+     * { quarantineDir, repaired, skipped, failed: [{ issue, error }], changedPaperIds, trashedPaperIds }.
+     */
+    const repair = async (report) => {
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+        const targetDir = path.join(quarantineDir, stamp);
+        const applied = [];
+        const failed = [];
+        const changed = new Set();
+        const trashed = new Set();
+        let skipped = 0;
+
+        const quarantine = async (file) => {
+            const { area, name } = splitFile(file);
+            const to = path.join(targetDir, file);
+            fs.mkdirSync(path.dirname(to), { recursive: true });
+            if (area === 'uploads') {
+                if (!(await storage.download(name, to))) throw new Error(`${file} is gone`);
+                await storage.remove(name);
+                return;
+            }
+            const from = path.join(localAreas[area], name);
+            if (!fs.existsSync(from)) throw new Error(`${file} is gone`);
+            fs.renameSync(from, to);
+        };
+        const trash = (paperId) => {
+            const paper = store.getPaper(paperId);
+            if (!paper || paper.deletedAt) return;
+            store.trashPaper(paperId);
+            trashed.add(paperId);
+        };
+
+        for (const issue of report.issues) {
+            if (!FIXES.includes(issue.fix) || issue.fix === 'none') {
+                skipped++;
+                continue;
+            }
+            try {
+                switch (issue.type) {
+                    case 'orphan_file': {
+                        const id = /^uploads\/(.+)\.pdf$/.exec(issue.file);
+                        if (id && store.getPaper(id[1])) throw new Error('A paper uses this file now');
+                        await quarantine(issue.file);
+                        break;
+                    }
+                    case 'stale_upload':
+                    case 'orphan_screenshot':
+                    case 'orphan_thumbnail':
+                        await quarantine(issue.file);
+                        break;
+                    case 'unreadable_file':
+                        await quarantine(issue.file);
+                        store.setPaperFile(issue.paperId, { hash: null, size: 0 });
+                        changed.add(issue.paperId);
+                        trash(issue.paperId);
+                        break;
+                    case 'missing_file': {
+                        const key = paperFileKey(issue.paperId);
+                        if (await storage.exists(key)) throw new Error('The file is back');
+                        if (issue.fix === 'restore') {
+                            await storage.rename(splitFile(issue.file).name, key);
+                            changed.add(issue.paperId);
+                        } else {
+                            trash(issue.paperId);
+                        }
+                        break;
+                    }
+                    case 'file_mismatch': {
+                        const key = paperFileKey(issue.paperId);
+                        const info = await storage.stat(key);
+                        if (!info) throw new Error(`${issue.file} is gone`);
+                        store.setPaperFile(issue.paperId, { hash: await storage.hash(key), size: info.size });
+                        changed.add(issue.paperId);
+                        break;
+                    }
+                    case 'malformed_record':
+                        if (issue.highlightId) store.deleteHighlight(issue.paperId, issue.highlightId);
+                        else store.repairPaperRecord(issue.paperId, issue.changes);
+                        changed.add(issue.paperId);
+                        break;
+                    case 'missing_screenshot':
+                        if (fs.existsSync(path.join(screenshotDir, issue.screenshotId))) throw new Error('The image is back');
+                        store.deleteScreenshot(issue.screenshotId);
+                        changed.add(issue.paperId);
+                        break;
+                    case 'missing_thumbnail':
+                        store.setPaperThumbnail(issue.paperId, null);
+                        changed.add(issue.paperId);
+                        break;
+                    default:
+                        skipped++;
+                        continue;
+                }
+                applied.push(issue);
+            } catch (e) {
+                failed.push({ issue, error: e.message || String(e) });
+            }
+        }
+
+        if (applied.length > 0) {
+            fs.mkdirSync(targetDir, { recursive: true });
+            fs.writeFileSync(path.join(targetDir, 'manifest.json'), JSON.stringify({
+                repairedAt: Date.now(),
+                scannedAt: report.scannedAt,
+                applied,
+                failed,
+            }, null, 2));
+        }
+
+        trashed.forEach(id => changed.delete(id));
+        return {
+            quarantineDir: applied.length > 0 ? targetDir : null,
+            repaired: applied.length,
+            skipped,
+            failed,
+            changedPaperIds: [...changed],
+            trashedPaperIds: [...trashed],
+        };
+    };
+
+    return { scan, repair };
+};
+
+module.exports = { createIntegrityChecker, ISSUE_TYPES };
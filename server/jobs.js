@@ -0,0 +1,37 @@
+/**
+ * In-process worker for the durable analysis job queue (analysis_jobs table).
+ * Jobs are claimed from SQLite, so queued work survives restarts and at most
+ * `concurrency` analyses run at once.
+ */
+
+const createJobRunner = ({ store, concurrency, runJob }) => {
+    let active = 0;
+
+    const pump = () => {
+        while (active < concurrency) {
+            const job = store.claimNextJob();
+            if (!job) return;
+
+            active++;
+            Promise.resolve()
+                .then(() => runJob(job))
+                .then(() => store.finishJob(job.id, 'done'))
+                .catch((e) => store.finishJob(job.id, 'failed', e.message || String(e)))
+                .finally(() => {
+                    active--;
+                    pump();
+                });
+        }
+    };
+
+    const start = () => {
+        const { requeued, orphaned } = store.recoverJobs("Analysis was interrupted");
+        if (requeued) console.log(`🔁 Re-queued ${requeued} interrupted analysis jobs`);
+        if (orphaned) console.log(`⚠️  Marked ${orphaned} stale 'analyzing' papers as failed`);
+        pump();
+    };
+
+    return { start, pump, activeCount: () => active };
+};
+
+module.exports = { createJobRunner };
@@ -0,0 +1,543 @@
+/**
+ * OpenAPI 3 description of the endpoints scripts may call with an API token
+ * (served at GET /api/openapi.json). Keep it in step with the routes in
+ * server.js: each operation lists the token scope its route requires.
+ */
+
+const ANALYSIS_FIELDS = [
+    'type', 'title', 'publication', 'problem', 'solution_idea', 'contribution',
+    'method', 'model_architecture', 'borrowable_ideas', 'critique', 'future_work', 'mind_map',
+];
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const json = (schema) => ({ 'application/json': { schema } });
+
+const ERROR_RESPONSES = {
+    400: { description: 'Invalid request', content: json(ref('Error')) },
+    401: { description: 'Missing, invalid or expired credentials', content: json(ref('Error')) },
+    403: { description: 'Read-only access, or the token lacks the scope', content: json(ref('Error')) },
+    404: { description: 'Not found, or not visible to the caller', content: json(ref('Error')) },
+    410: { description: 'The paper is in the trash', content: json(ref('Error')) },
+};
+
+// `errors` picks the shared error responses that apply to the operation
+const operation = ({ summary, description, scope, tags, parameters, requestBody, responses, errors = [401, 403, 404] }) => ({
+    summary,
+    description: [description, `Token scope: \`${scope}\`.`].filter(Boolean).join('\n\n'),
+    tags,
+    'x-required-scope': scope,
+    ...(parameters ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+        ...responses,
+        ...Object.fromEntries(errors.map(status => [status, ERROR_RESPONSES[status]])),
+    },
+});
+
+const pathParam = (name, description) => ({ name, in: 'path', required: true, description, schema: { type: 'string' } });
+const queryParam = (name, description, schema = { type: 'string' }) => ({ name, in: 'query', required: false, description, schema });
+
+const PAPER_ID = pathParam('id', 'Paper id');
+const WORKSPACE_QUERY = queryParam('workspaceId', 'Workspace to use instead of the personal library');
+const IF_MATCH = {
+    name: 'If-Match',
+    in: 'header',
+    required: true,
+    description: 'Version of the paper the change is based on (its ETag or `version`)',
+    schema: { type: 'string' },
+};
+
+const SCHEMAS = {
+    Error: {
+        type: 'object',
+        properties: { error: { type: 'string' } },
+        required: ['error'],
+    },
+    Analysis: {
+        type: 'object',
+        description: 'Structured summary written by the AI and edited by people',
+        properties: Object.fromEntries(ANALYSIS_FIELDS.map(field => [field, { type: 'string' }])),
+    },
+    Highlight: {
+        type: 'object',
+        required: ['id', 'page', 'rects', 'color'],
+        properties: {
+            id: { type: 'string' },
+            page: { type: 'integer' },
+            rects: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['x', 'y', 'width', 'height'],
+                    properties: { x: { type: 'number' }, y: { type: 'number' }, width: { type: 'number' }, height: { type: 'number' } },
+                },
+            },
+            color: { type: 'string' },
+            text: { type: 'string' },
+            comment: { type: 'string' },
+        },
+    },
+    Screenshot: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            url: { type: 'string', description: 'Image URL, relative to the server' },
+            caption: { type: 'string' },
+        },
+    },
+    DuplicatePaper: {
+        type: 'object',
+        description: 'Another paper in the same library holding the same PDF',
+        properties: {
+            id: { type: 'string' },
+            fileName: { type: 'string' },
+            title: { type: 'string' },
+            uploadTime: { type: 'integer' },
+        },
+    },
+    TrashedPaper: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            fileName: { type: 'string' },
+            title: { type: 'string' },
+            tags: { type: 'array', items: { type: 'string' } },
+            highlightCount: { type: 'integer' },
+            screenshotCount: { type: 'integer' },
+            deletedAt: { type: 'integer', description: 'Milliseconds since the epoch' },
+        },
+    },
+    Paper: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            userId: { type: 'string', description: 'Uploader' },
+            workspaceId: { type: 'string' },
+            fileName: { type: 'string' },
+            fileSize: { type: 'integer' },
+            uploadTime: { type: 'integer', description: 'Milliseconds since the epoch' },
+            status: { type: 'string', enum: ['idle', 'analyzing', 'success', 'error'] },
+            errorMessage: { type: 'string' },
+            analysis: { allOf: [ref('Analysis')], nullable: true },
+            tags: { type: 'array', items: { type: 'string' } },
+            highlights: { type: 'array', items: ref('Highlight') },
+            screenshots: { type: 'array', items: ref('Screenshot') },
+            fileHash: { type: 'string', description: 'SHA-256 of the stored PDF' },
+            file: { type: 'string', description: 'PDF URL, relative to the server' },
+            thumbnail: { type: 'string', description: 'First-page thumbnail URL' },
+            version: { type: 'integer', description: 'Bumped on every change; send it as If-Match' },
+        },
+    },
+    PaperInput: {
+        type: 'object',
+        properties: {
+            id: { type: 'string', description: 'Optional; generated when left out' },
+            workspaceId: { type: 'string' },
+            fileName: { type: 'string' },
+            fileSize: { type: 'integer' },
+            uploadTime: { type: 'integer' },
+            tags: { type: 'array', items: { type: 'string' } },
+            analysis: ref('Analysis'),
+        },
+    },
+    PaperChanges: {
+        type: 'object',
+        description: 'Any subset of the editable fields',
+        properties: {
+            fileName: { type: 'string' },
+            tags: { type: 'array', items: { type: 'string' } },
+            highlights: { type: 'array', items: ref('Highlight') },
+            analysis: { allOf: [ref('Analysis')], description: 'Only the keys to change; they are merged into the stored analysis and null removes a key' },
+        },
+    },
+    PaperStatus: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            status: { type: 'string', enum: ['idle', 'analyzing', 'success', 'error'] },
+            errorMessage: { type: 'string' },
+            jobState: { type: 'string', enum: ['queued', 'running'] },
+        },
+    },
+    Revision: {
+        type: 'object',
+        properties: {
+            id: { type: 'integer' },
+            paperId: { type: 'string' },
+            field: { type: 'string', enum: ANALYSIS_FIELDS },
+            value: { type: 'string' },
+            source: { type: 'string', enum: ['ai', 'human', 'unknown'] },
+            author: { type: 'string' },
+            model: { type: 'string' },
+            revertedFrom: { type: 'integer' },
+            createdAt: { type: 'integer' },
+        },
+    },
+    LLMSettings: {
+        type: 'object',
+        description: 'Model settings; an OpenAI-compatible endpoint uses the API key saved in the user\'s preferences',
+        properties: {
+            useExternal: { type: 'boolean' },
+            baseUrl: { type: 'string' },
+            model: { type: 'string' },
+            temperature: { type: 'number' },
+        },
+    },
+    TagCount: {
+        type: 'object',
+        properties: { tag: { type: 'string' }, count: { type: 'integer' } },
+    },
+    Workspace: {
+        type: 'object',
+        properties: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            role: { type: 'string', enum: ['owner', 'editor', 'viewer'] },
+        },
+    },
+};
+
+const PATHS = {
+    '/api/workspaces': {
+        get: operation({
+            summary: 'List the workspaces the caller belongs to',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            responses: { 200: { description: 'Workspaces', content: json({ type: 'array', items: ref('Workspace') }) } },
+            errors: [401, 403],
+        }),
+    },
+    '/api/papers': {
+        get: operation({
+            summary: 'List the papers of a library',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            parameters: [WORKSPACE_QUERY],
+            responses: { 200: { description: 'Papers, newest first', content: json({ type: 'array', items: ref('Paper') }) } },
+        }),
+        post: operation({
+            summary: 'Create a paper',
+            description: 'Creates the metadata record. Upload the PDF afterwards with PUT /api/papers/{id}/file.',
+            scope: 'papers:write',
+            tags: ['Papers'],
+            requestBody: { required: true, content: json(ref('PaperInput')) },
+            responses: {
+                201: { description: 'Created paper', content: json(ref('Paper')) },
+                409: { description: 'A paper with this id already exists', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404],
+        }),
+    },
+    '/api/papers/status': {
+        get: operation({
+            summary: 'Analysis status of every paper in a library',
+            scope: 'papers:read',
+            tags: ['Analysis'],
+            parameters: [WORKSPACE_QUERY],
+            responses: { 200: { description: 'Statuses', content: json({ type: 'array', items: ref('PaperStatus') }) } },
+        }),
+    },
+    '/api/papers/{id}': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'Get a paper',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            responses: { 200: { description: 'Paper; the ETag header carries its version', content: json(ref('Paper')) } },
+        }),
+        patch: operation({
+            summary: 'Change fields of a paper',
+            description: 'Optimistic concurrency: if the paper changed since the version in If-Match, nothing is saved and the current copy is returned with 409.',
+            scope: 'papers:write',
+            tags: ['Papers', 'Tags'],
+            parameters: [IF_MATCH],
+            requestBody: { required: true, content: json(ref('PaperChanges')) },
+            responses: {
+                200: { description: 'Updated paper', content: json(ref('Paper')) },
+                409: { description: 'Version conflict', content: json({ type: 'object', properties: { error: { type: 'string' }, paper: ref('Paper') } }) },
+                428: { description: 'If-Match is missing', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404, 410],
+        }),
+        delete: operation({
+            summary: 'Move a paper to the trash, or delete it for good',
+            scope: 'papers:write',
+            tags: ['Papers'],
+            parameters: [queryParam('permanent', 'Delete for good instead of moving to the trash', { type: 'boolean' })],
+            responses: { 200: { description: 'Deleted', content: json({ type: 'object', properties: { success: { type: 'boolean' } } }) } },
+        }),
+    },
+    '/api/trash': {
+        get: operation({
+            summary: 'List the papers in the trash of a library',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            parameters: [WORKSPACE_QUERY],
+            responses: {
+                200: {
+                    description: 'Trashed papers and how many days they are kept',
+                    content: json({ type: 'object', properties: { retentionDays: { type: 'integer' }, papers: { type: 'array', items: ref('TrashedPaper') } } }),
+                },
+            },
+        }),
+    },
+    '/api/papers/{id}/restore': {
+        parameters: [PAPER_ID],
+        post: operation({
+            summary: 'Restore a paper from the trash',
+            scope: 'papers:write',
+            tags: ['Papers'],
+            responses: {
+                200: { description: 'Restored paper', content: json(ref('Paper')) },
+                409: { description: 'The paper is not in the trash', content: json(ref('Error')) },
+            },
+        }),
+    },
+    '/api/papers/{id}/file': {
+        parameters: [PAPER_ID],
+        put: operation({
+            summary: 'Upload or replace the PDF of a paper',
+            description: 'The request body is the PDF itself. Uploads count against the uploader\'s storage quota.',
+            scope: 'papers:write',
+            tags: ['Files'],
+            requestBody: { required: true, content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } } },
+            responses: {
+                200: {
+                    description: 'Stored',
+                    content: json({
+                        type: 'object',
+                        properties: {
+                            success: { type: 'boolean' },
+                            size: { type: 'integer' },
+                            fileHash: { type: 'string' },
+                            duplicates: { type: 'array', items: ref('DuplicatePaper') },
+                        },
+                    }),
+                },
+                413: { description: 'Too large, or over the storage quota', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404, 410],
+        }),
+    },
+    '/api/papers/{id}/duplicates': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'Other papers in the same library with the same PDF',
+            scope: 'papers:read',
+            tags: ['Files'],
+            responses: { 200: { description: 'Duplicates', content: json({ type: 'array', items: ref('DuplicatePaper') }) } },
+        }),
+    },
+    '/api/papers/{id}/thumbnail': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'Download the first-page thumbnail of a paper',
+            scope: 'papers:read',
+            tags: ['Files'],
+            parameters: [queryParam('v', 'Thumbnail version from the paper\'s `thumbnail` URL; makes the response cacheable')],
+            responses: { 200: { description: 'Thumbnail', content: { 'image/jpeg': { schema: { type: 'string', format: 'binary' } } } } },
+        }),
+        put: operation({
+            summary: 'Upload or replace the thumbnail of a paper',
+            description: 'The request body is the JPEG image.',
+            scope: 'papers:write',
+            tags: ['Files'],
+            requestBody: { required: true, content: { 'image/jpeg': { schema: { type: 'string', format: 'binary' } } } },
+            responses: {
+                200: { description: 'Stored', content: json({ type: 'object', properties: { thumbnail: { type: 'string', description: 'Thumbnail URL' } } }) },
+                413: { description: 'Image too large', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404, 410],
+        }),
+    },
+    '/api/files/{id}.pdf': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'Download the PDF of a paper',
+            description: 'Supports byte ranges.',
+            scope: 'papers:read',
+            tags: ['Files'],
+            responses: {
+                200: { description: 'PDF', content: { 'application/pdf': { schema: { type: 'string', format: 'binary' } } } },
+                206: { description: 'Requested byte range' },
+            },
+        }),
+    },
+    '/api/papers/{id}/screenshots': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'List the screenshots of a paper',
+            scope: 'papers:read',
+            tags: ['Files'],
+            responses: { 200: { description: 'Screenshots in order', content: json({ type: 'array', items: ref('Screenshot') }) } },
+        }),
+        post: operation({
+            summary: 'Add a screenshot',
+            description: 'The request body is the image (PNG, JPEG, GIF or WebP).',
+            scope: 'papers:write',
+            tags: ['Files'],
+            parameters: [queryParam('caption', 'Caption for the image')],
+            requestBody: { required: true, content: { 'image/png': { schema: { type: 'string', format: 'binary' } }, 'image/jpeg': { schema: { type: 'string', format: 'binary' } } } },
+            responses: {
+                201: { description: 'Stored screenshot', content: json(ref('Screenshot')) },
+                413: { description: 'Over the storage quota', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404, 410],
+        }),
+    },
+    '/api/papers/{id}/screenshots/order': {
+        parameters: [PAPER_ID],
+        put: operation({
+            summary: 'Reorder the screenshots of a paper',
+            scope: 'papers:write',
+            tags: ['Files'],
+            requestBody: {
+                required: true,
+                content: json({ type: 'object', required: ['ids'], properties: { ids: { type: 'array', items: { type: 'string' }, description: 'Every screenshot id of the paper, in the new order' } } }),
+            },
+            responses: { 200: { description: 'Screenshots in the new order', content: json({ type: 'array', items: ref('Screenshot') }) } },
+            errors: [400, 401, 403, 404, 410],
+        }),
+    },
+    '/api/papers/{id}/screenshots/{sid}': {
+        parameters: [PAPER_ID, pathParam('sid', 'Screenshot id')],
+        get: operation({
+            summary: 'Download a screenshot image',
+            scope: 'papers:read',
+            tags: ['Files'],
+            responses: { 200: { description: 'Image', content: { 'image/*': { schema: { type: 'string', format: 'binary' } } } } },
+        }),
+        patch: operation({
+            summary: 'Change the caption of a screenshot',
+            scope: 'papers:write',
+            tags: ['Files'],
+            requestBody: { required: true, content: json({ type: 'object', required: ['caption'], properties: { caption: { type: 'string' } } }) },
+            responses: { 200: { description: 'Updated screenshot', content: json(ref('Screenshot')) } },
+            errors: [400, 401, 403, 404, 410],
+        }),
+        delete: operation({
+            summary: 'Delete a screenshot',
+            scope: 'papers:write',
+            tags: ['Files'],
+            responses: { 200: { description: 'Deleted', content: json({ type: 'object', properties: { success: { type: 'boolean' } } }) } },
+            errors: [401, 403, 404, 410],
+        }),
+    },
+    '/api/analyze': {
+        post: operation({
+            summary: 'Queue an analysis of a paper\'s PDF',
+            description: 'Follow progress with GET /api/papers/status or GET /api/events; the result is stored in the paper\'s `analysis`.',
+            scope: 'analysis:run',
+            tags: ['Analysis'],
+            requestBody: {
+                required: true,
+                content: json({ type: 'object', required: ['paperId'], properties: { paperId: { type: 'string' }, settings: ref('LLMSettings') } }),
+            },
+            responses: {
+                202: {
+                    description: 'Queued',
+                    content: json({ type: 'object', properties: { id: { type: 'integer' }, paperId: { type: 'string' }, state: { type: 'string', enum: ['queued', 'running'] } } }),
+                },
+            },
+            errors: [401, 403, 404, 410],
+        }),
+    },
+    '/api/compare': {
+        post: operation({
+            summary: 'Compare two or more papers',
+            scope: 'analysis:run',
+            tags: ['Analysis'],
+            requestBody: {
+                required: true,
+                content: json({ type: 'object', required: ['paperIds'], properties: { paperIds: { type: 'array', items: { type: 'string' }, minItems: 2 }, settings: ref('LLMSettings') } }),
+            },
+            responses: {
+                200: { description: 'Comparison table and summary', content: json({ type: 'object' }) },
+                502: { description: 'The model call failed', content: json(ref('Error')) },
+            },
+            errors: [400, 401, 403, 404],
+        }),
+    },
+    '/api/papers/{id}/revisions': {
+        parameters: [PAPER_ID],
+        get: operation({
+            summary: 'History of the analysis fields',
+            scope: 'papers:read',
+            tags: ['Analysis'],
+            parameters: [queryParam('field', 'Only this analysis field', { type: 'string', enum: ANALYSIS_FIELDS })],
+            responses: { 200: { description: 'Revisions, newest first', content: json({ type: 'array', items: ref('Revision') }) } },
+        }),
+    },
+    '/api/papers/{id}/revisions/{revisionId}/revert': {
+        parameters: [PAPER_ID, pathParam('revisionId', 'Revision to restore')],
+        post: operation({
+            summary: 'Set an analysis field back to an earlier revision',
+            scope: 'papers:write',
+            tags: ['Analysis'],
+            responses: { 200: { description: 'Updated paper', content: json(ref('Paper')) } },
+            errors: [401, 403, 404, 410],
+        }),
+    },
+    '/api/tags': {
+        get: operation({
+            summary: 'Tags used in a library, with the number of papers carrying each',
+            description: 'Tags are set on a paper with PATCH /api/papers/{id} (`tags`).',
+            scope: 'papers:read',
+            tags: ['Tags'],
+            parameters: [WORKSPACE_QUERY],
+            responses: { 200: { description: 'Tags, most used first', content: json({ type: 'array', items: ref('TagCount') }) } },
+        }),
+    },
+    '/api/search': {
+        get: operation({
+            summary: 'Full-text search over analyses, tags, notes and PDF text',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            parameters: [
+                { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+                WORKSPACE_QUERY,
+                queryParam('limit', 'At most 50', { type: 'integer' }),
+            ],
+            responses: { 200: { description: 'Matching papers with snippets', content: json({ type: 'array', items: { type: 'object' } }) } },
+        }),
+    },
+    '/api/events': {
+        get: operation({
+            summary: 'Live changes in a library (server-sent events)',
+            description: 'Events: paper.created, paper.updated, paper.deleted, analysis.status, resync, library.changed.',
+            scope: 'papers:read',
+            tags: ['Papers'],
+            parameters: [WORKSPACE_QUERY],
+            responses: { 200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } } },
+        }),
+    },
+};
+
+const buildOpenApiDocument = ({ scopes }) => ({
+    openapi: '3.0.3',
+    info: {
+        title: 'PaperScope API',
+        version: '1',
+        description: 'Create an API token in Settings and send it as `Authorization: Bearer <token>`. '
+            + 'Each operation names the token scope it needs:\n\n'
+            + Object.entries(scopes).map(([scope, description]) => `- \`${scope}\`: ${description}`).join('\n'),
+    },
+    servers: [{ url: '/' }],
+    security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+    tags: [
+        { name: 'Papers' },
+        { name: 'Files', description: 'PDFs and screenshots' },
+        { name: 'Analysis' },
+        { name: 'Tags' },
+    ],
+    paths: PATHS,
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API token (ps_...)' },
+            cookieAuth: { type: 'apiKey', in: 'cookie', name: 'paperscope_session', description: 'Browser session' },
+        },
+        schemas: SCHEMAS,
+    },
+});
+
+module.exports = { buildOpenApiDocument };
@@ -0,0 +1,127 @@
+const crypto = require('crypto');
+const fs = require('fs');
+
+/**
+ * Per-user preferences: LLM settings, table layout and the banner image.
+ * The external API key is kept apart from the other settings, encrypted with
+ * AES-256-GCM, and is never sent back to the browser.
+ */
+
+const MAX_BANNER_LENGTH = 15 * 1024 * 1024; // data URL characters
+const MAX_COLUMNS = 64;
+
+// 32-byte key for the stored API keys. PREFERENCES_SECRET lets several instances
+// share it; otherwise one is generated and kept next to the data.
+const loadEncryptionKey = (keyPath) => {
+    if (process.env.PREFERENCES_SECRET) {
+        return crypto.createHash('sha256').update(process.env.PREFERENCES_SECRET).digest();
+    }
+    try {
+        if (fs.existsSync(keyPath)) {
+            const existing = Buffer.from(fs.readFileSync(keyPath, 'utf-8').trim(), 'hex');
+            if (existing.length === 32) return existing;
+        }
+        const key = crypto.randomBytes(32);
+        fs.writeFileSync(keyPath, key.toString('hex'), { mode: 0o600 });
+        return key;
+    } catch (e) {
+        console.error("❌ Could not persist preferences key, saved API keys will not survive a restart.", e);
+        return crypto.randomBytes(32);
+    }
+};
+
+// Format: base64url(iv) + "." + base64url(auth tag) + "." + base64url(ciphertext)
+const encryptSecret = (plain, key) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plain, 'utf-8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(b => b.toString('base64url')).join('.');
+};
+
+// Null when the value was encrypted with another key or has been tampered with
+const decryptSecret = (stored, key) => {
+    if (!stored) return null;
+    try {
+        const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf-8');
+    } catch {
+        return null;
+    }
+};
+
+const isString = (max) => (v) => typeof v === 'string' && v.length <= max;
+const isNumberIn = (min, max) => (v) => typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+const LLM_FIELDS = {
+    useExternal: (v) => typeof v === 'boolean',
+    baseUrl: isString(2000),
+    model: isString(200),
+    temperature: isNumberIn(0, 2),
+    maxContextWindow: isNumberIn(1, 10_000_000),
+    timeout: isNumberIn(1, 24 * 60 * 60),
+};
+
+const UI_FIELDS = {
+    columnWidths: (v) => !!v && typeof v === 'object' && !Array.isArray(v)
+        && Object.keys(v).length <= MAX_COLUMNS && Object.values(v).every(isNumberIn(20, 4000)),
+    hiddenColumns: (v) => Array.isArray(v) && v.length <= MAX_COLUMNS && v.every(isString(100)),
+    activeTab: isString(200),
+    pageSize: (v) => Number.isInteger(v) && v >= 1 && v <= 200,
+    viewMode: (v) => v === 'table' || v === 'gallery',
+};
+
+const pickSection = (section, fields, prefix, errors) => {
+    const picked = {};
+    if (section === undefined) return picked;
+    if (!section || typeof section !== 'object' || Array.isArray(section)) {
+        errors.push(prefix);
+        return picked;
+    }
+    Object.entries(fields).forEach(([key, isValid]) => {
+        if (!(key in section)) return;
+        if (isValid(section[key])) picked[key] = section[key];
+        else errors.push(`${prefix}.${key}`);
+    });
+    return picked;
+};
+
+// Validates a PATCH body. `apiKey` is returned separately: undefined keeps the
+// stored key, '' removes it. `banner` null resets it to the global default.
+const parsePreferencesPatch = (body) => {
+    const errors = [];
+    const input = body || {};
+    const patch = {
+        llm: pickSection(input.llm, LLM_FIELDS, 'llm', errors),
+        ui: pickSection(input.ui, UI_FIELDS, 'ui', errors),
+    };
+
+    let apiKey;
+    if (input.llm && typeof input.llm === 'object' && 'apiKey' in input.llm) {
+        if (isString(1000)(input.llm.apiKey)) apiKey = input.llm.apiKey.trim();
+        else errors.push('llm.apiKey');
+    }
+
+    if ('banner' in input) {
+        const banner = input.banner;
+        if (banner === null || (isString(MAX_BANNER_LENGTH)(banner) && /^(data:image\/|\/|https?:\/\/)/.test(banner))) {
+            patch.banner = banner;
+        } else {
+            errors.push('banner');
+        }
+    }
+    return { patch, apiKey, errors };
+};
+
+const mergePreferences = (current, patch) => {
+    const merged = {
+        ...current,
+        llm: { ...(current.llm || {}), ...patch.llm },
+        ui: { ...(current.ui || {}), ...patch.ui },
+    };
+    if ('banner' in patch) merged.banner = patch.banner;
+    return merged;
+};
+
+module.exports = { loadEncryptionKey, encryptSecret, decryptSecret, parsePreferencesPatch, mergePreferences };
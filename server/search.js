@@ -0,0 +1,90 @@
+const path = require('path');
+const { paperFileKey } = require('./files');
+
+/**
+ * Background extraction of PDF text for the full-text index (paper_search).
+ * Papers whose stored file differs from the file their text was taken from
+ * (papers.text_hash vs file_hash) are processed one at a time.
+ */
+
+const STANDARD_FONTS_DIR = path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+// pdfjs-dist only ships as an ES module
+let pdfjsPromise;
+const loadPdfjs = () => {
+    if (!pdfjsPromise) pdfjsPromise = import('pdfjs-dist/legacy/build/pdf.mjs');
+    return pdfjsPromise;
+};
+
+// Returns the text of each page of the PDF in `bytes`, in page order
+const extractPdfText = async (bytes) => {
+    const pdfjs = await loadPdfjs();
+    const data = new Uint8Array(bytes);
+    const doc = await pdfjs.getDocument({
+        data,
+        isEvalSupported: false,
+        standardFontDataUrl: STANDARD_FONTS_DIR,
+        verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise;
+
+    try {
+        const pages = [];
+        for (let i = 1; i <= doc.numPages; i++) {
+            const page = await doc.getPage(i);
+            const content = await page.getTextContent();
+            pages.push(content.items.map(item => item.str || '').join(' ').replace(/\s+/g, ' ').trim());
+            page.cleanup();
+        }
+        return pages;
+    } finally {
+        await doc.destroy();
+    }
+};
+
+const createTextIndexer = ({ store, storage }) => {
+    let running = false;
+    let requested = false;
+
+    const run = async () => {
+        let count = 0;
+        for (let next = store.nextPaperNeedingText(); next; next = store.nextPaperNeedingText()) {
+            let pages = [];
+            try {
+                const pdf = await storage.read(paperFileKey(next.id));
+                if (pdf) pages = await extractPdfText(pdf);
+            } catch (e) {
+                // Recorded as indexed without text so an unreadable PDF is not retried forever
+                console.error(`   ❌ Could not extract text from ${next.id}.pdf:`, e.message);
+            }
+            store.setPaperText(next.id, next.fileHash, pages);
+            count++;
+        }
+        return count;
+    };
+
+    const pump = () => {
+        if (running) {
+            requested = true;
+            return;
+        }
+        running = true;
+        requested = false;
+        run()
+            .then((count) => { if (count) console.log(`🔎 Indexed PDF text of ${count} papers`); })
+            .catch((e) => console.error("❌ PDF text indexing failed:", e))
+            .finally(() => {
+                running = false;
+                if (requested) pump();
+            });
+    };
+
+    const start = () => {
+        const indexed = store.indexMissingPapers();
+        if (indexed) console.log(`🔎 Added ${indexed} existing papers to the search index`);
+        pump();
+    };
+
+    return { start, pump };
+};
+
+module.exports = { extractPdfText, createTextIndexer };
@@ -0,0 +1,819 @@
+/**
+ * Data access for users, workspaces, papers and config on top of the SQLite
+ * connection from ./db. Papers are returned in the same shape the client
+ * uses for PaperData (minus the file payload).
+ */
+
+// Paper ids name files on disk (uploads, thumbnails), so new ones are limited to
+// UUIDs and similar plain tokens
+const PAPER_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const isValidPaperId = (id) => typeof id === 'string' && PAPER_ID_PATTERN.test(id);
+
+const parseJson = (text, fallback) => {
+    if (text == null) return fallback;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return fallback;
+    }
+};
+
+// Per-uploader totals; `filter` narrows the papers (e.g. to one user)
+const usageQuery = (filter = '', groupBy = '') => `SELECT p.user_id,
+        COUNT(p.id) AS papers,
+        COALESCE(SUM(p.deleted_at IS NOT NULL), 0) AS trashed_papers,
+        COALESCE(SUM(CASE WHEN p.file_hash IS NOT NULL THEN p.file_size END), 0) AS pdf_bytes,
+        COALESCE(SUM(s.bytes), 0) AS screenshot_bytes,
+        COALESCE(SUM(p.analysis IS NOT NULL), 0) AS analyses
+    FROM papers p
+    LEFT JOIN (SELECT paper_id, SUM(size) AS bytes FROM paper_screenshots GROUP BY paper_id) s ON s.paper_id = p.id
+    ${filter} ${groupBy}`;
+
+const createStore = (db) => {
+    const stmt = {
+        getUser: db.prepare('SELECT * FROM users WHERE username = ?'),
+        findUserInsensitive: db.prepare('SELECT username FROM users WHERE username = ? COLLATE NOCASE'),
+        insertUser: db.prepare('INSERT INTO users (username, salt, password_hash, created_at) VALUES (?, ?, ?, ?)'),
+        setUserQuota: db.prepare('UPDATE users SET quota_bytes = ? WHERE username = ?'),
+        getUserUsage: db.prepare(usageQuery('WHERE p.user_id = ?')),
+        listUserUsage: db.prepare(`SELECT u.username, u.quota_bytes, usage.* FROM users u
+            LEFT JOIN (${usageQuery('', 'GROUP BY p.user_id')}) usage ON usage.user_id = u.username
+            ORDER BY u.username`),
+        getTotalUsage: db.prepare(usageQuery()),
+
+        getWorkspace: db.prepare('SELECT * FROM workspaces WHERE id = ?'),
+        listWorkspacesForUser: db.prepare(`SELECT w.* FROM workspaces w
+            JOIN workspace_members m ON m.workspace_id = w.id
+            WHERE m.username = ? ORDER BY w.created_at`),
+        listMembers: db.prepare('SELECT username, role FROM workspace_members WHERE workspace_id = ? ORDER BY rowid'),
+        insertWorkspace: db.prepare('INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)'),
+        renameWorkspace: db.prepare('UPDATE workspaces SET name = ? WHERE id = ?'),
+        deleteWorkspace: db.prepare('DELETE FROM workspaces WHERE id = ?'),
+        insertMember: db.prepare('INSERT INTO workspace_members (workspace_id, username, role) VALUES (?, ?, ?)'),
+        updateMember: db.prepare('UPDATE workspace_members SET role = ? WHERE workspace_id = ? AND username = ?'),
+        deleteMember: db.prepare('DELETE FROM workspace_members WHERE workspace_id = ? AND username = ?'),
+        countWorkspacePapers: db.prepare('SELECT COUNT(*) AS count FROM papers WHERE workspace_id = ?'),
+
+        getPaper: db.prepare('SELECT * FROM papers WHERE id = ?'),
+        listPersonalPapers: db.prepare('SELECT * FROM papers WHERE workspace_id IS NULL AND user_id = ? AND deleted_at IS NULL ORDER BY upload_time DESC'),
+        listWorkspacePapers: db.prepare('SELECT * FROM papers WHERE workspace_id = ? AND deleted_at IS NULL ORDER BY upload_time DESC'),
+        listPersonalTrash: db.prepare('SELECT * FROM papers WHERE workspace_id IS NULL AND user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'),
+        listWorkspaceTrash: db.prepare('SELECT * FROM papers WHERE workspace_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'),
+        trashPaper: db.prepare('UPDATE papers SET deleted_at = ?, version = version + 1 WHERE id = ?'),
+        restorePaper: db.prepare('UPDATE papers SET deleted_at = NULL, version = version + 1 WHERE id = ?'),
+        listExpiredTrash: db.prepare('SELECT id FROM papers WHERE deleted_at IS NOT NULL AND deleted_at < ?'),
+        insertPaper: db.prepare(`INSERT INTO papers
+            (id, user_id, workspace_id, file_name, file_size, upload_time, status, analysis, error_message)
+            VALUES (@id, @user_id, @workspace_id, @file_name, @file_size, @upload_time, @status, @analysis, @error_message)`),
+        updatePaper: db.prepare(`UPDATE papers SET
+            file_name = @file_name, file_size = @file_size, upload_time = @upload_time,
+            status = @status, analysis = @analysis, error_message = @error_message, version = version + 1
+            WHERE id = @id`),
+        deletePaper: db.prepare('DELETE FROM papers WHERE id = ?'),
+        setPaperFile: db.prepare(`UPDATE papers SET
+            thumbnail_at = CASE WHEN file_hash IS @hash THEN thumbnail_at END,
+            file_hash = @hash, file_size = @size, version = version + 1
+            WHERE id = @id`),
+        setPaperThumbnail: db.prepare('UPDATE papers SET thumbnail_at = ?, version = version + 1 WHERE id = ?'),
+        // For writes to a paper's child rows (screenshots) that change what GET returns
+        bumpPaperVersion: db.prepare('UPDATE papers SET version = version + 1 WHERE id = ?'),
+        findPapersByHash: db.prepare('SELECT * FROM papers WHERE file_hash = ? AND deleted_at IS NULL ORDER BY upload_time'),
+        listPapersWithoutHash: db.prepare('SELECT id FROM papers WHERE file_hash IS NULL'),
+        setPaperStatus: db.prepare('UPDATE papers SET status = ?, error_message = ?, version = version + 1 WHERE id = ?'),
+        setPaperAnalysis: db.prepare("UPDATE papers SET status = 'success', analysis = ?, error_message = NULL, version = version + 1 WHERE id = ?"),
+        listPersonalPaperStatuses: db.prepare(`SELECT p.id, p.status, p.error_message, j.state AS job_state FROM papers p
+            LEFT JOIN analysis_jobs j ON j.paper_id = p.id AND j.state IN ('queued', 'running')
+            WHERE p.workspace_id IS NULL AND p.user_id = ? AND p.deleted_at IS NULL`),
+        listWorkspacePaperStatuses: db.prepare(`SELECT p.id, p.status, p.error_message, j.state AS job_state FROM papers p
+            LEFT JOIN analysis_jobs j ON j.paper_id = p.id AND j.state IN ('queued', 'running')
+            WHERE p.workspace_id = ? AND p.deleted_at IS NULL`),
+        resetOrphanedAnalyzing: db.prepare(`UPDATE papers SET status = 'error', error_message = ?
+            WHERE status = 'analyzing' AND id NOT IN (SELECT paper_id FROM analysis_jobs WHERE state IN ('queued', 'running'))`),
+
+        getJob: db.prepare('SELECT * FROM analysis_jobs WHERE id = ?'),
+        getActiveJobForPaper: db.prepare("SELECT * FROM analysis_jobs WHERE paper_id = ? AND state IN ('queued', 'running')"),
+        insertJob: db.prepare("INSERT INTO analysis_jobs (paper_id, requested_by, state, settings, created_at) VALUES (?, ?, 'queued', ?, ?)"),
+        nextQueuedJob: db.prepare("SELECT * FROM analysis_jobs WHERE state = 'queued' ORDER BY id LIMIT 1"),
+        startJob: db.prepare("UPDATE analysis_jobs SET state = 'running', started_at = ? WHERE id = ?"),
+        finishJob: db.prepare('UPDATE analysis_jobs SET state = ?, error = ?, settings = NULL, finished_at = ? WHERE id = ?'),
+        requeueRunningJobs: db.prepare("UPDATE analysis_jobs SET state = 'queued', started_at = NULL WHERE state = 'running'"),
+
+        listTags: db.prepare('SELECT tag FROM paper_tags WHERE paper_id = ? ORDER BY position'),
+        deleteTags: db.prepare('DELETE FROM paper_tags WHERE paper_id = ?'),
+        insertTag: db.prepare('INSERT OR IGNORE INTO paper_tags (paper_id, tag, position) VALUES (?, ?, ?)'),
+
+        listHighlights: db.prepare('SELECT * FROM highlights WHERE paper_id = ? ORDER BY position'),
+        deleteHighlights: db.prepare('DELETE FROM highlights WHERE paper_id = ?'),
+        // A repeated id within one paper keeps its last copy; other papers' rows are never touched
+        insertHighlight: db.prepare(`INSERT INTO highlights
+            (id, paper_id, page, rects, color, text, comment, position) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT (paper_id, id) DO UPDATE SET page = excluded.page, rects = excluded.rects, color = excluded.color,
+                text = excluded.text, comment = excluded.comment, position = excluded.position`),
+
+        listScreenshots: db.prepare('SELECT * FROM paper_screenshots WHERE paper_id = ? ORDER BY position'),
+        getScreenshot: db.prepare('SELECT * FROM paper_screenshots WHERE id = ?'),
+        nextScreenshotPosition: db.prepare('SELECT COALESCE(MAX(position) + 1, 0) AS position FROM paper_screenshots WHERE paper_id = ?'),
+        insertScreenshot: db.prepare(`INSERT INTO paper_screenshots (id, paper_id, position, mime_type, size, caption, created_at)
+            VALUES (@id, @paper_id, @position, @mime_type, @size, @caption, @created_at)`),
+        setScreenshotCaption: db.prepare('UPDATE paper_screenshots SET caption = ? WHERE id = ?'),
+        setScreenshotPosition: db.prepare('UPDATE paper_screenshots SET position = ? WHERE id = ?'),
+        deleteScreenshot: db.prepare('DELETE FROM paper_screenshots WHERE id = ?'),
+
+        listRevisions: db.prepare('SELECT * FROM analysis_revisions WHERE paper_id = ? ORDER BY id DESC'),
+        listFieldRevisions: db.prepare('SELECT * FROM analysis_revisions WHERE paper_id = ? AND field = ? ORDER BY id DESC'),
+        countFieldRevisions: db.prepare('SELECT COUNT(*) AS count FROM analysis_revisions WHERE paper_id = ? AND field = ?'),
+        getRevision: db.prepare('SELECT * FROM analysis_revisions WHERE id = ?'),
+        insertRevision: db.prepare(`INSERT INTO analysis_revisions
+            (paper_id, field, value, source, author, model, reverted_from, created_at)
+            VALUES (@paper_id, @field, @value, @source, @author, @model, @reverted_from, @created_at)`),
+
+        deleteSearchFields: db.prepare("DELETE FROM paper_search WHERE paper_id = ? AND field <> 'pdf'"),
+        deleteSearchText: db.prepare("DELETE FROM paper_search WHERE paper_id = ? AND field = 'pdf'"),
+        deleteSearchRows: db.prepare('DELETE FROM paper_search WHERE paper_id = ?'),
+        insertSearchRow: db.prepare('INSERT INTO paper_search (paper_id, field, page, content) VALUES (?, ?, ?, ?)'),
+        listUnindexedPapers: db.prepare("SELECT id FROM papers WHERE id NOT IN (SELECT paper_id FROM paper_search WHERE field = 'fileName')"),
+        nextPaperNeedingText: db.prepare(`SELECT id, file_hash FROM papers
+            WHERE file_hash IS NOT NULL AND (text_hash IS NULL OR text_hash <> file_hash)
+            ORDER BY upload_time DESC LIMIT 1`),
+        setPaperTextHash: db.prepare('UPDATE papers SET text_hash = ? WHERE id = ? AND file_hash = ?'),
+
+        listPersonalTagCounts: db.prepare(`SELECT t.tag, COUNT(*) AS count FROM paper_tags t JOIN papers p ON p.id = t.paper_id
+            WHERE p.workspace_id IS NULL AND p.user_id = ? AND p.deleted_at IS NULL GROUP BY t.tag ORDER BY count DESC, t.tag`),
+        listWorkspaceTagCounts: db.prepare(`SELECT t.tag, COUNT(*) AS count FROM paper_tags t JOIN papers p ON p.id = t.paper_id
+            WHERE p.workspace_id = ? AND p.deleted_at IS NULL GROUP BY t.tag ORDER BY count DESC, t.tag`),
+
+        insertApiToken: db.prepare(`INSERT INTO api_tokens (id, username, name, token_hash, prefix, scopes, created_at, expires_at)
+            VALUES (@id, @username, @name, @token_hash, @prefix, @scopes, @created_at, @expires_at)`),
+        listApiTokens: db.prepare('SELECT * FROM api_tokens WHERE username = ? ORDER BY created_at DESC'),
+        findApiTokenByHash: db.prepare('SELECT * FROM api_tokens WHERE token_hash = ?'),
+        touchApiToken: db.prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?'),
+        deleteApiToken: db.prepare('DELETE FROM api_tokens WHERE id = ? AND username = ?'),
+
+        listPaperRows: db.prepare(`SELECT id, user_id, workspace_id, file_name, file_size, upload_time, status,
+            analysis, file_hash, deleted_at, thumbnail_at FROM papers`),
+        listHighlightRows: db.prepare('SELECT id, paper_id, rects FROM highlights'),
+        listScreenshotRows: db.prepare('SELECT id, paper_id, size FROM paper_screenshots'),
+        listUsernames: db.prepare('SELECT username FROM users'),
+        listWorkspaceIds: db.prepare('SELECT id FROM workspaces'),
+        repairPaperRecord: db.prepare(`UPDATE papers SET
+            file_name = COALESCE(@file_name, file_name),
+            status = COALESCE(@status, status),
+            analysis = CASE WHEN @clear_analysis THEN NULL ELSE analysis END,
+            version = version + 1
+            WHERE id = @id`),
+        deleteHighlight: db.prepare('DELETE FROM highlights WHERE paper_id = ? AND id = ?'),
+
+        insertInboxEntry: db.prepare('INSERT INTO inbox_log (file_name, status, reason, paper_id, created_at) VALUES (?, ?, ?, ?, ?)'),
+        pruneInboxLog: db.prepare('DELETE FROM inbox_log WHERE id <= ?'),
+        listInboxLog: db.prepare('SELECT * FROM inbox_log ORDER BY id DESC LIMIT ?'),
+
+        getPreferences: db.prepare('SELECT * FROM user_preferences WHERE username = ?'),
+        upsertPreferences: db.prepare(`INSERT INTO user_preferences (username, preferences, api_key, updated_at)
+            VALUES (@username, @preferences, @api_key, @updated_at)
+            ON CONFLICT (username) DO UPDATE SET
+                preferences = excluded.preferences, api_key = excluded.api_key, updated_at = excluded.updated_at`),
+
+        getConfig: db.prepare('SELECT value FROM config WHERE key = ?'),
+        setConfig: db.prepare('INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)'),
+    };
+
+    // --- Users ---
+    const toUser = (row) => row && ({
+        username: row.username,
+        salt: row.salt,
+        passwordHash: row.password_hash,
+        createdAt: row.created_at,
+        quotaBytes: row.quota_bytes ?? null,
+    });
+
+    const getUser = (username) => toUser(stmt.getUser.get(username));
+
+    // Usernames are unique regardless of case
+    const usernameTaken = (username) => !!stmt.findUserInsensitive.get(username);
+
+    const createUser = ({ username, salt, passwordHash }) => {
+        stmt.insertUser.run(username, salt, passwordHash, Date.now());
+    };
+
+    // --- Workspaces ---
+    const toWorkspace = (row) => row && ({
+        id: row.id,
+        name: row.name,
+        createdAt: row.created_at,
+        members: stmt.listMembers.all(row.id),
+    });
+
+    const getWorkspace = (id) => toWorkspace(stmt.getWorkspace.get(id));
+    const listWorkspacesForUser = (username) => stmt.listWorkspacesForUser.all(username).map(toWorkspace);
+
+    const createWorkspace = db.transaction(({ id, name, owner }) => {
+        stmt.insertWorkspace.run(id, name, Date.now());
+        stmt.insertMember.run(id, owner, 'owner');
+        return getWorkspace(id);
+    });
+
+    const renameWorkspace = (id, name) => { stmt.renameWorkspace.run(name, id); };
+    const deleteWorkspace = (id) => { stmt.deleteWorkspace.run(id); };
+    const addMember = (id, username, role) => { stmt.insertMember.run(id, username, role); };
+    const updateMemberRole = (id, username, role) => { stmt.updateMember.run(role, id, username); };
+    const removeMember = (id, username) => { stmt.deleteMember.run(id, username); };
+    const countWorkspacePapers = (id) => stmt.countWorkspacePapers.get(id).count;
+
+    // --- Papers ---
+    // Screenshot images live on disk (see server.js); rows only carry their metadata
+    const toScreenshot = (row) => row && ({
+        id: row.id,
+        paperId: row.paper_id,
+        mimeType: row.mime_type,
+        size: row.size,
+        caption: row.caption || undefined,
+        createdAt: row.created_at,
+    });
+
+    const toPaper = (row) => {
+        if (!row) return null;
+        const paper = {
+            id: row.id,
+            userId: row.user_id || undefined,
+            workspaceId: row.workspace_id || undefined,
+            fileName: row.file_name,
+            fileSize: row.file_size,
+            uploadTime: row.upload_time,
+            status: row.status,
+            analysis: parseJson(row.analysis, null),
+            errorMessage: row.error_message || undefined,
+            fileHash: row.file_hash || undefined,
+            deletedAt: row.deleted_at || undefined,
+            version: row.version,
+            thumbnailAt: row.thumbnail_at || undefined,
+            tags: stmt.listTags.all(row.id).map(t => t.tag),
+            screenshots: stmt.listScreenshots.all(row.id).map(toScreenshot),
+            highlights: stmt.listHighlights.all(row.id).map(h => ({
+                id: h.id,
+                page: h.page,
+                rects: parseJson(h.rects, []),
+                color: h.color,
+                text: h.text ?? undefined,
+                comment: h.comment ?? undefined,
+            })),
+        };
+        return paper;
+    };
+
+    const getPaper = (id) => toPaper(stmt.getPaper.get(id));
+    const listPersonalPapers = (username) => stmt.listPersonalPapers.all(username).map(toPaper);
+    const listWorkspacePapers = (workspaceId) => stmt.listWorkspacePapers.all(workspaceId).map(toPaper);
+
+    const replaceTags = (paperId, tags) => {
+        stmt.deleteTags.run(paperId);
+        (tags || []).forEach((tag, i) => stmt.insertTag.run(paperId, String(tag), i));
+    };
+
+    const replaceHighlights = (paperId, highlights) => {
+        stmt.deleteHighlights.run(paperId);
+        (highlights || []).forEach((h, i) => {
+            stmt.insertHighlight.run(h.id, paperId, h.page, JSON.stringify(h.rects || []), h.color, h.text ?? null, h.comment ?? null, i);
+        });
+    };
+
+    // Insert or shallow-merge a paper. Fields missing from `changes` keep their stored value;
+    // tags and highlights are replaced as a whole when present. Screenshots have their own calls.
+    const savePaper = db.transaction((changes) => {
+        const existing = getPaper(changes.id);
+        const merged = { ...(existing || {}), ...changes };
+        const row = {
+            id: merged.id,
+            file_name: merged.fileName || '',
+            file_size: merged.fileSize || 0,
+            upload_time: merged.uploadTime || 0,
+            status: merged.status || 'idle',
+            analysis: merged.analysis ? JSON.stringify(merged.analysis) : null,
+            error_message: merged.errorMessage || null,
+        };
+
+        if (existing) {
+            stmt.updatePaper.run(row);
+        } else {
+            stmt.insertPaper.run({ ...row, user_id: merged.userId || null, workspace_id: merged.workspaceId || null });
+        }
+
+        if (!existing || 'tags' in changes) replaceTags(merged.id, merged.tags);
+        if (!existing || 'highlights' in changes) replaceHighlights(merged.id, merged.highlights);
+        return indexPaperFields(merged.id);
+    });
+
+    // Optimistic concurrency: `changes` are only applied if the stored version still matches.
+    // `changes.analysis` is merged into the stored analysis key by key (null removes a key),
+    // and the edited fields are recorded as human revisions by `author`.
+    const patchPaper = db.transaction((id, changes, expectedVersion, author) => {
+        const existing = getPaper(id);
+        if (!existing) return { paper: null };
+        if (existing.version !== expectedVersion) return { conflict: true, paper: existing };
+        if (!('analysis' in changes)) return { paper: savePaper({ ...changes, id }) };
+
+        const analysis = { ...(existing.analysis || {}) };
+        Object.entries(changes.analysis).forEach(([key, value]) => {
+            if (value === null) delete analysis[key];
+            else analysis[key] = value;
+        });
+        recordRevisions(existing, changes.analysis, { source: 'human', author });
+        return { paper: savePaper({ ...changes, analysis, id }) };
+    });
+
+    const deletePaper = db.transaction((id) => {
+        stmt.deleteSearchRows.run(id);
+        stmt.deletePaper.run(id);
+    });
+
+    // Soft delete: trashed papers keep their tags, highlights and screenshots until purged
+    const trashPaper = (id) => { stmt.trashPaper.run(Date.now(), id); };
+    const restorePaper = (id) => { stmt.restorePaper.run(id); };
+    const listTrash = ({ username, workspaceId }) => (workspaceId
+        ? stmt.listWorkspaceTrash.all(workspaceId)
+        : stmt.listPersonalTrash.all(username)
+    ).map(toPaper);
+    const listExpiredTrashIds = (before) => stmt.listExpiredTrash.all(before).map(r => r.id);
+
+    // The hash is computed by the server from the stored bytes, never taken from the client.
+    // A different file invalidates the thumbnail rendered from the old one.
+    const setPaperFile = (id, { hash, size }) => { stmt.setPaperFile.run({ id, hash, size }); };
+    const setPaperThumbnail = (id, at) => { stmt.setPaperThumbnail.run(at, id); };
+    const findPapersByHash = (hash) => stmt.findPapersByHash.all(hash).map(toPaper);
+    const listPaperIdsWithoutHash = () => stmt.listPapersWithoutHash.all().map(r => r.id);
+
+    // Analysis status is owned by the job queue, not by client saves
+    const setPaperStatus = (id, status, errorMessage) => { stmt.setPaperStatus.run(status, errorMessage || null, id); };
+    // `origin` ({ author, model }) is recorded with the AI revision of every changed field
+    const setPaperAnalysis = db.transaction((id, analysis, origin = {}) => {
+        const existing = getPaper(id);
+        if (existing) recordRevisions(existing, analysis, { ...origin, source: 'ai' });
+        stmt.setPaperAnalysis.run(JSON.stringify(analysis), id);
+        indexPaperFields(id);
+    });
+
+    // Lightweight rows for status polling (no tags, highlights or screenshots)
+    const toPaperStatus = (row) => ({
+        id: row.id,
+        status: row.status,
+        errorMessage: row.error_message || undefined,
+        jobState: row.job_state || undefined,
+    });
+    const listPaperStatuses = ({ username, workspaceId }) => (workspaceId
+        ? stmt.listWorkspacePaperStatuses.all(workspaceId)
+        : stmt.listPersonalPaperStatuses.all(username)
+    ).map(toPaperStatus);
+
+    // --- Screenshots ---
+    const listScreenshots = (paperId) => stmt.listScreenshots.all(paperId).map(toScreenshot);
+    const getScreenshot = (id) => toScreenshot(stmt.getScreenshot.get(id));
+
+    // Appended after the paper's existing screenshots
+    const addScreenshot = db.transaction(({ id, paperId, mimeType, size, caption }) => {
+        stmt.insertScreenshot.run({
+            id,
+            paper_id: paperId,
+            position: stmt.nextScreenshotPosition.get(paperId).position,
+            mime_type: mimeType,
+            size,
+            caption: caption || null,
+            created_at: Date.now(),
+        });
+        stmt.bumpPaperVersion.run(paperId);
+        if (caption) indexPaperFields(paperId);
+        return getScreenshot(id);
+    });
+
+    const setScreenshotCaption = db.transaction((id, caption) => {
+        const screenshot = getScreenshot(id);
+        if (!screenshot) return null;
+        stmt.setScreenshotCaption.run(caption || null, id);
+        stmt.bumpPaperVersion.run(screenshot.paperId);
+        indexPaperFields(screenshot.paperId);
+        return getScreenshot(id);
+    });
+
+    // `ids` must list every screenshot of the paper exactly once; returns false otherwise
+    const reorderScreenshots = db.transaction((paperId, ids) => {
+        const current = stmt.listScreenshots.all(paperId).map(s => s.id);
+        if (ids.length !== current.length || new Set(ids).size !== ids.length || !ids.every(id => current.includes(id))) {
+            return false;
+        }
+        ids.forEach((id, i) => stmt.setScreenshotPosition.run(i, id));
+        stmt.bumpPaperVersion.run(paperId);
+        return true;
+    });
+
+    const deleteScreenshot = db.transaction((id) => {
+        const screenshot = getScreenshot(id);
+        if (!screenshot) return;
+        stmt.deleteScreenshot.run(id);
+        stmt.bumpPaperVersion.run(screenshot.paperId);
+        if (screenshot.caption) indexPaperFields(screenshot.paperId);
+    });
+
+    // --- Analysis revisions ---
+    const toRevision = (row) => row && ({
+        id: row.id,
+        paperId: row.paper_id,
+        field: row.field,
+        value: row.value,
+        source: row.source,
+        author: row.author || undefined,
+        model: row.model || undefined,
+        revertedFrom: row.reverted_from || undefined,
+        createdAt: row.created_at,
+    });
+
+    const insertRevision = (paperId, field, value, { source, author, model, revertedFrom, createdAt }) => {
+        stmt.insertRevision.run({
+            paper_id: paperId,
+            field,
+            value,
+            source,
+            author: author || null,
+            model: model || null,
+            reverted_from: revertedFrom || null,
+            created_at: createdAt || Date.now(),
+        });
+    };
+
+    // Records one revision per string field whose value changes from `paper.analysis` to
+    // `next`. A field's first recorded change also stores the value it replaces, so the
+    // original is always there to revert to.
+    const recordRevisions = (paper, next, origin) => {
+        const before = paper.analysis || {};
+        Object.entries(next || {}).forEach(([field, value]) => {
+            if (typeof value !== 'string') return;
+            const previous = typeof before[field] === 'string' ? before[field] : '';
+            if (value === previous) return;
+            if (previous && !stmt.countFieldRevisions.get(paper.id, field).count) {
+                insertRevision(paper.id, field, previous, { source: 'unknown', createdAt: paper.uploadTime });
+            }
+            insertRevision(paper.id, field, value, origin);
+        });
+    };
+
+    const listRevisions = (paperId, field) => (field
+        ? stmt.listFieldRevisions.all(paperId, field)
+        : stmt.listRevisions.all(paperId)
+    ).map(toRevision);
+
+    const getRevision = (id) => toRevision(stmt.getRevision.get(id));
+
+    // Sets the revision's field back to its value; the revert is itself a new human revision
+    const revertRevision = db.transaction((revisionId, author) => {
+        const revision = getRevision(revisionId);
+        const paper = revision && getPaper(revision.paperId);
+        if (!paper) return null;
+        const analysis = { ...(paper.analysis || {}), [revision.field]: revision.value };
+        recordRevisions(paper, { [revision.field]: revision.value }, { source: 'human', author, revertedFrom: revision.id });
+        return savePaper({ id: paper.id, analysis });
+    });
+
+    // --- Search ---
+    // Rebuilds the index rows for everything but the PDF text, which only changes with the file
+    const indexPaperFields = (id) => {
+        const paper = getPaper(id);
+        stmt.deleteSearchFields.run(id);
+        if (!paper) return null;
+
+        const add = (field, page, content) => {
+            if (typeof content === 'string' && content.trim()) stmt.insertSearchRow.run(id, field, page, content);
+        };
+        add('fileName', null, paper.fileName);
+        Object.entries(paper.analysis || {}).forEach(([key, value]) => add(key, null, typeof value === 'string' ? value : ''));
+        paper.tags.forEach(tag => add('tag', null, tag));
+        paper.highlights.forEach(h => {
+            add('highlight', h.page, h.text);
+            add('comment', h.page, h.comment);
+        });
+        paper.screenshots.forEach(s => add('screenshot', null, s.caption));
+        return paper;
+    };
+
+    // Papers stored before the search index existed
+    const indexMissingPapers = db.transaction(() => {
+        const ids = stmt.listUnindexedPapers.all().map(r => r.id);
+        ids.forEach(indexPaperFields);
+        return ids.length;
+    });
+
+    const nextPaperNeedingText = () => {
+        const row = stmt.nextPaperNeedingText.get();
+        return row && { id: row.id, fileHash: row.file_hash };
+    };
+
+    // `pages` is the text of each PDF page. Ignored if the file was replaced while it was extracted.
+    const setPaperText = db.transaction((id, fileHash, pages) => {
+        if (!stmt.setPaperTextHash.run(fileHash, id, fileHash).changes) return;
+        stmt.deleteSearchText.run(id);
+        pages.forEach((text, i) => {
+            if (text.trim()) stmt.insertSearchRow.run(id, 'pdf', i + 1, text);
+        });
+    });
+
+    const SNIPPET_OPEN = '\u0002';
+    const SNIPPET_CLOSE = '\u0003';
+    const SNIPPET_CONTEXT = 60;
+
+    const searchScope = (workspaceId) => (workspaceId
+        ? 'p.workspace_id = @scope'
+        : 'p.workspace_id IS NULL AND p.user_id = @scope');
+
+    // Hits for terms of 3+ characters come from the trigram index, ranked by bm25
+    const matchRows = ({ terms, scope, workspaceId, limit }) => db.prepare(`
+        SELECT s.paper_id, s.field, s.page,
+            snippet(paper_search, 3, '${SNIPPET_OPEN}', '${SNIPPET_CLOSE}', '…', 64) AS snippet,
+            bm25(paper_search) AS rank
+        FROM paper_search s JOIN papers p ON p.id = s.paper_id
+        WHERE paper_search MATCH @query AND p.deleted_at IS NULL AND ${searchScope(workspaceId)}
+        ORDER BY rank LIMIT @limit`).all({
+        query: terms.map(t => `"${t.replace(/"/g, '""')}"`).join(' '),
+        scope,
+        limit,
+    });
+
+    // Trigrams cannot match shorter terms (e.g. two-character Chinese words), so those
+    // fall back to LIKE with snippets cut here; results come newest paper first
+    const likeRows = ({ terms, scope, workspaceId, limit }) => {
+        const params = { scope, limit };
+        const conditions = terms.map((t, i) => {
+            params[`t${i}`] = `%${t.replace(/[\\%_]/g, '\\$&')}%`;
+            return `s.content LIKE @t${i} ESCAPE '\\'`;
+        });
+        const rows = db.prepare(`
+            SELECT s.paper_id, s.field, s.page, s.content
+            FROM paper_search s JOIN papers p ON p.id = s.paper_id
+            WHERE ${conditions.join(' AND ')} AND p.deleted_at IS NULL AND ${searchScope(workspaceId)}
+            ORDER BY p.upload_time DESC LIMIT @limit`).all(params);
+
+        const pattern = new RegExp(terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'gi');
+        return rows.map((row, i) => {
+            const first = row.content.search(pattern);
+            const start = Math.max(0, first - SNIPPET_CONTEXT);
+            const end = Math.min(row.content.length, first + SNIPPET_CONTEXT * 2);
+            const snippet = (start > 0 ? '…' : '')
+                + row.content.slice(start, end).replace(pattern, m => SNIPPET_OPEN + m + SNIPPET_CLOSE)
+                + (end < row.content.length ? '…' : '');
+            return { paper_id: row.paper_id, field: row.field, page: row.page, snippet, rank: i };
+        });
+    };
+
+    /**
+     * Searches one library (a workspace, or a user's personal papers). Every term must
+     * occur in the same field or PDF page. Results are grouped per paper in rank order,
+     * each with up to `hitsPerPaper` hits; matches in snippets are wrapped in \u0002…\u0003.
+     */
+    const searchPapers = ({ query, username, workspaceId, limit = 20, hitsPerPaper = 3 }) => {
+        const terms = String(query || '').trim().split(/\s+/).filter(Boolean).slice(0, 8);
+        if (!terms.length) return [];
+
+        const args = { terms, scope: workspaceId || username, workspaceId, limit: limit * 20 };
+        const rows = terms.every(t => [...t].length >= 3) ? matchRows(args) : likeRows(args);
+
+        const results = new Map();
+        rows.forEach(row => {
+            let result = results.get(row.paper_id);
+            if (!result) {
+                if (results.size >= limit) return;
+                const paper = stmt.getPaper.get(row.paper_id);
+                result = {
+                    paperId: row.paper_id,
+                    fileName: paper.file_name,
+                    title: parseJson(paper.analysis, null)?.title || undefined,
+                    hits: [],
+                };
+                results.set(row.paper_id, result);
+            }
+            if (result.hits.length < hitsPerPaper) {
+                result.hits.push({ field: row.field, page: row.page ?? undefined, snippet: row.snippet });
+            }
+        });
+        return [...results.values()];
+    };
+
+    // --- Analysis jobs ---
+    const toJob = (row) => row && ({
+        id: row.id,
+        paperId: row.paper_id,
+        requestedBy: row.requested_by || undefined,
+        state: row.state,
+        settings: parseJson(row.settings, null),
+        error: row.error || undefined,
+        createdAt: row.created_at,
+        startedAt: row.started_at || undefined,
+        finishedAt: row.finished_at || undefined,
+    });
+
+    const getJob = (id) => toJob(stmt.getJob.get(id));
+
+    // A paper has at most one active job; asking again returns the existing one
+    const enqueueJob = db.transaction(({ paperId, requestedBy, settings }) => {
+        const active = stmt.getActiveJobForPaper.get(paperId);
+        if (active) return toJob(active);
+        const { lastInsertRowid } = stmt.insertJob.run(paperId, requestedBy || null, JSON.stringify(settings || {}), Date.now());
+        stmt.setPaperStatus.run('analyzing', null, paperId);
+        return getJob(lastInsertRowid);
+    });
+
+    const claimNextJob = db.transaction(() => {
+        const row = stmt.nextQueuedJob.get();
+        if (!row) return null;
+        stmt.startJob.run(Date.now(), row.id);
+        return getJob(row.id);
+    });
+
+    const finishJob = (id, state, error) => { stmt.finishJob.run(state, error || null, Date.now(), id); };
+
+    // Jobs that were running when the server stopped go back to the queue; papers
+    // left 'analyzing' without any job (e.g. by older client-side analysis) become retryable
+    const recoverJobs = db.transaction((orphanMessage) => ({
+        requeued: stmt.requeueRunningJobs.run().changes,
+        orphaned: stmt.resetOrphanedAnalyzing.run(orphanMessage).changes,
+    }));
+
+    // --- Storage usage ---
+    // Papers count against the user who uploaded them (user_id), trashed ones included
+    const toUsage = (row) => ({
+        papers: row?.papers || 0,
+        trashedPapers: row?.trashed_papers || 0,
+        pdfBytes: row?.pdf_bytes || 0,
+        screenshotBytes: row?.screenshot_bytes || 0,
+        analyses: row?.analyses || 0,
+        usedBytes: (row?.pdf_bytes || 0) + (row?.screenshot_bytes || 0),
+    });
+
+    const getUserUsage = (username) => toUsage(stmt.getUserUsage.get(username));
+    const listUserUsage = () => stmt.listUserUsage.all().map(row => ({
+        username: row.username,
+        quotaBytes: row.quota_bytes ?? null,
+        ...toUsage(row),
+    }));
+    const getTotalUsage = () => toUsage(stmt.getTotalUsage.get());
+    const setUserQuota = (username, quotaBytes) => stmt.setUserQuota.run(quotaBytes, username).changes > 0;
+
+    // --- Tags ---
+    const listTagCounts = ({ username, workspaceId }) => (workspaceId
+        ? stmt.listWorkspaceTagCounts.all(workspaceId)
+        : stmt.listPersonalTagCounts.all(username)
+    ).map(row => ({ tag: row.tag, count: row.count }));
+
+    // --- API tokens ---
+    // Tokens are looked up by hash; hashing and generating them is up to the caller
+    const toApiToken = (row) => row && ({
+        id: row.id,
+        username: row.username,
+        name: row.name,
+        prefix: row.prefix,
+        scopes: parseJson(row.scopes, []),
+        createdAt: row.created_at,
+        expiresAt: row.expires_at ?? undefined,
+        lastUsedAt: row.last_used_at ?? undefined,
+    });
+
+    const createApiToken = ({ id, username, name, tokenHash, prefix, scopes, expiresAt }) => {
+        stmt.insertApiToken.run({
+            id,
+            username,
+            name,
+            token_hash: tokenHash,
+            prefix,
+            scopes: JSON.stringify(scopes),
+            created_at: Date.now(),
+            expires_at: expiresAt || null,
+        });
+        return toApiToken(stmt.findApiTokenByHash.get(tokenHash));
+    };
+
+    const listApiTokens = (username) => stmt.listApiTokens.all(username).map(toApiToken);
+    const findApiTokenByHash = (tokenHash) => toApiToken(stmt.findApiTokenByHash.get(tokenHash));
+    const touchApiToken = (id, at) => { stmt.touchApiToken.run(at, id); };
+    const deleteApiToken = (id, username) => stmt.deleteApiToken.run(id, username).changes > 0;
+
+    // --- Integrity ---
+    // Raw rows for the storage check (server/integrity), which has to see the values
+    // the mappers above would quietly replace with defaults
+    const listPaperRows = () => stmt.listPaperRows.all();
+    const listHighlightRows = () => stmt.listHighlightRows.all();
+    const listScreenshotRows = () => stmt.listScreenshotRows.all();
+    const listUsernames = () => stmt.listUsernames.all().map(r => r.username);
+    const listWorkspaceIds = () => stmt.listWorkspaceIds.all().map(r => r.id);
+    // Only the given fields change; `clearAnalysis` drops an analysis that cannot be parsed
+    const repairPaperRecord = (id, { fileName, status, clearAnalysis }) => {
+        stmt.repairPaperRecord.run({ id, file_name: fileName || null, status: status || null, clear_analysis: clearAnalysis ? 1 : 0 });
+    };
+    const deleteHighlight = (paperId, id) => { stmt.deleteHighlight.run(paperId, id); };
+
+    // --- Inbox log ---
+    const INBOX_LOG_SIZE = 1000;
+    const addInboxEntry = ({ fileName, status, reason, paperId }) => {
+        const { lastInsertRowid } = stmt.insertInboxEntry.run(fileName, status, reason || null, paperId || null, Date.now());
+        stmt.pruneInboxLog.run(Number(lastInsertRowid) - INBOX_LOG_SIZE);
+    };
+    const listInboxLog = (limit) => stmt.listInboxLog.all(limit).map(row => ({
+        id: row.id,
+        fileName: row.file_name,
+        status: row.status,
+        reason: row.reason || undefined,
+        paperId: row.paper_id || undefined,
+        createdAt: row.created_at,
+    }));
+
+    // --- Preferences ---
+    // `apiKey` is the encrypted value; encryption is up to the caller
+    const getPreferences = (username) => {
+        const row = stmt.getPreferences.get(username);
+        return {
+            preferences: parseJson(row?.preferences, {}),
+            apiKey: row?.api_key || null,
+        };
+    };
+
+    const savePreferences = (username, { preferences, apiKey }) => {
+        stmt.upsertPreferences.run({
+            username,
+            preferences: JSON.stringify(preferences),
+            api_key: apiKey || null,
+            updated_at: Date.now(),
+        });
+    };
+
+    // --- Config ---
+    const getConfig = (key, fallback) => parseJson(stmt.getConfig.get(key)?.value, fallback);
+    const setConfig = (key, value) => { stmt.setConfig.run(key, JSON.stringify(value)); };
+
+    return {
+        getUser,
+        usernameTaken,
+        createUser,
+        getWorkspace,
+        listWorkspacesForUser,
+        createWorkspace,
+        renameWorkspace,
+        deleteWorkspace,
+        addMember,
+        updateMemberRole,
+        removeMember,
+        countWorkspacePapers,
+        getPaper,
+        listPersonalPapers,
+        listWorkspacePapers,
+        savePaper,
+        patchPaper,
+        deletePaper,
+        trashPaper,
+        restorePaper,
+        listTrash,
+        listExpiredTrashIds,
+        setPaperFile,
+        setPaperThumbnail,
+        findPapersByHash,
+        listPaperIdsWithoutHash,
+        setPaperStatus,
+        setPaperAnalysis,
+        listPaperStatuses,
+        listScreenshots,
+        getScreenshot,
+        addScreenshot,
+        setScreenshotCaption,
+        reorderScreenshots,
+        deleteScreenshot,
+        listRevisions,
+        getRevision,
+        revertRevision,
+        indexMissingPapers,
+        nextPaperNeedingText,
+        setPaperText,
+        searchPapers,
+        getJob,
+        enqueueJob,
+        claimNextJob,
+        finishJob,
+        recoverJobs,
+        getUserUsage,
+        listUserUsage,
+        getTotalUsage,
+        setUserQuota,
+        listTagCounts,
+        createApiToken,
+        listApiTokens,
+        findApiTokenByHash,
+        touchApiToken,
+        deleteApiToken,
+        listPaperRows,
+        listHighlightRows,
+        listScreenshotRows,
+        listUsernames,
+        listWorkspaceIds,
+        repairPaperRecord,
+        deleteHighlight,
+        addInboxEntry,
+        listInboxLog,
+        getPreferences,
+        savePreferences,
+        getConfig,
+        setConfig,
+    };
+};
+
+module.exports = { createStore, isValidPaperId };
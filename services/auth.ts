@@ -0,0 +1,37 @@
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Bridge service for server-side accounts and sessions.
+ * The session itself lives in an HttpOnly cookie set by the server.
+ */
+
+export const registerUser = async (username: string, password: string): Promise<string> => {
+    const data = await requestJson<{ username: string }>('/api/auth/register', jsonRequest('POST', { username, password }));
+    return data.username;
+};
+
+export const loginUser = async (username: string, password: string): Promise<string> => {
+    const data = await requestJson<{ username: string }>('/api/auth/login', jsonRequest('POST', { username, password }));
+    return data.username;
+};
+
+export const logoutUser = async () => {
+    try {
+        await requestJson('/api/auth/logout', { method: 'POST' });
+    } catch (e) {
+        console.warn("Logout request failed", e);
+    }
+};
+
+// Returns the username of the current session, or null if not signed in
+export const getCurrentUser = async (): Promise<string | null> => {
+    try {
+        const res = await fetch('/api/auth/me');
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.username || null;
+    } catch (e) {
+        console.warn("Failed to restore session:", e);
+        return null;
+    }
+};
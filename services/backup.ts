@@ -0,0 +1,24 @@
+import { BackupImportMode, BackupImportSummary } from '../types';
+import { requestJson } from './http';
+
+/**
+ * Bridge service for library backup archives (.tar.gz)
+ */
+
+const libraryQuery = (workspaceId?: string | null) =>
+    workspaceId ? `workspaceId=${encodeURIComponent(workspaceId)}` : '';
+
+// Plain download link; the browser streams the archive straight to disk
+export const getBackupUrl = (workspaceId?: string | null) => {
+    const query = libraryQuery(workspaceId);
+    return query ? `/api/backup?${query}` : '/api/backup';
+};
+
+export const importBackup = (archive: File, mode: BackupImportMode, workspaceId?: string | null): Promise<BackupImportSummary> => {
+    const query = [`mode=${mode}`, libraryQuery(workspaceId)].filter(Boolean).join('&');
+    return requestJson<BackupImportSummary>(`/api/backup/import?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/gzip' },
+        body: archive,
+    });
+};
@@ -1,5 +1,6 @@
 
-import { PaperData } from '../types';
+import { AnalysisRevision, PaperChanges, PaperData, SearchResult, TrashListing, UploadResult } from '../types';
+import { requestJson } from './http';
 
 /**
  * Bridge service for Server-side persistence
@@ -18,31 +19,27 @@ export const checkBackendHealth = async (): Promise<boolean> => {
     }
 };
 
-export const savePaperToDB = async (paper: PaperData) => {
+// Same URL format as the server's toClientPaper; the content-hash suffix lets the browser cache the file
+export const paperFileUrl = (id: string, fileHash?: string): string =>
+    fileHash ? `/api/files/${id}.pdf?v=${fileHash.slice(0, 16)}` : `/api/files/${id}.pdf`;
+
+// Creates the paper's metadata row; the PDF itself goes through uploadPaperFile.
+// If the paper already exists (e.g. a retried request) the stored copy is returned.
+export const createPaperInDB = async (paper: PaperData): Promise<{ paper: PaperData; alreadyExisted: boolean }> => {
   try {
     const serializablePaper: any = { ...paper };
 
-    // saveStatus is UI-only; do not persist it
+    // saveStatus/saveError/uploadProgress are UI-only; do not persist them
     delete serializablePaper.saveStatus;
+    delete serializablePaper.saveError;
+    delete serializablePaper.uploadProgress;
+    // Ownership is assigned by the server from the session
+    delete serializablePaper.userId;
+    // File content is streamed separately
+    delete serializablePaper.file;
 
-    // Avoid overwriting existing analysis with null/undefined
-    if (serializablePaper.analysis == null) {
-        delete serializablePaper.analysis;
-    }
-    
-    // Logic to handle file payload
-    if (paper.file instanceof Blob) {
-        // New file upload: Convert to base64
-        serializablePaper.file = await blobToBase64(paper.file);
-    } else if (typeof paper.file === 'string') {
-        // Existing URL: Don't re-upload content to save bandwidth
-        // Server knows not to delete the file if this is missing/string
-        delete serializablePaper.file; 
-    }
-
-    // Increased timeout for large files (120 seconds)
     const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), 120000); 
+    const id = setTimeout(() => controller.abort(), 30000); 
 
     const response = await fetch('/api/papers', {
       method: 'POST',
@@ -51,28 +48,100 @@ export const savePaperToDB = async (paper: PaperData) => {
       signal: controller.signal
     });
     clearTimeout(id);
-    
+
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 409 && data.paper) {
+        return { paper: data.paper, alreadyExisted: true };
+    }
     if (!response.ok) {
-        const text = await response.text();
-        throw new Error(`Server error ${response.status}: ${text}`);
+        throw new Error(`Server error ${response.status}: ${data.error || response.statusText}`);
     }
-    
-    return true;
+    return { paper: data, alreadyExisted: false };
   } catch (error) {
     console.error("FATAL: Failed to save paper to Server:", error);
     throw error; // Propagate error so UI can show it
   }
 };
 
-export const getPapersFromDB = async (_userId: string): Promise<PaperData[]> => {
+// Sends only the changed fields (and analysis keys). `version` is the version the edits
+// were based on; a 409 means someone else saved first and returns their copy instead.
+export const patchPaperInDB = async (
+  id: string,
+  changes: PaperChanges,
+  version: number
+): Promise<{ paper: PaperData; conflict: boolean }> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 30000);
+  try {
+    const response = await fetch(`/api/papers/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', 'If-Match': `"${version}"` },
+      body: JSON.stringify(changes),
+      signal: controller.signal
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (response.status === 409 && data.paper) {
+        return { paper: data.paper, conflict: true };
+    }
+    if (!response.ok) {
+        throw new Error(`Server error ${response.status}: ${data.error || response.statusText}`);
+    }
+    return { paper: data, conflict: false };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+// Streams the PDF as the raw request body. XHR is used instead of fetch
+// because fetch cannot report upload progress. The server answers with the
+// content hash and any papers in the same library holding the same PDF.
+export const uploadPaperFile = (paperId: string, file: Blob, onProgress?: (percent: number) => void): Promise<UploadResult> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', `/api/papers/${paperId}/file`);
+    xhr.setRequestHeader('Content-Type', 'application/pdf');
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && onProgress) {
+        onProgress(Math.round((e.loaded / e.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          const data = JSON.parse(xhr.responseText);
+          resolve({ size: data.size, fileHash: data.fileHash, duplicates: data.duplicates || [] });
+        } catch {
+          reject(new Error("Upload failed: invalid server response"));
+        }
+      } else {
+        let message = xhr.responseText;
+        try {
+          message = JSON.parse(xhr.responseText).error || message;
+        } catch { /* plain text error */ }
+        reject(new Error(`Upload failed (${xhr.status}): ${message}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    xhr.onabort = () => reject(new Error("Upload aborted"));
+
+    xhr.send(file);
+  });
+};
+
+// Returns the signed-in user's personal library, or the papers of a shared workspace
+// Null if the server could not be reached
+export const getPapersFromDB = async (workspaceId?: string | null): Promise<PaperData[] | null> => {
   try {
     const controller = new AbortController();
     const id = setTimeout(() => controller.abort(), 10000); 
     
-    const response = await fetch('/api/papers', { signal: controller.signal });
+    const url = workspaceId ? `/api/papers?workspaceId=${encodeURIComponent(workspaceId)}` : '/api/papers';
+    const response = await fetch(url, { signal: controller.signal });
     clearTimeout(id);
     
-    if (!response.ok) return [];
+    if (!response.ok) return null;
     const papers = await response.json();
     // saveStatus is UI-only; strip any persisted value
     return papers.map((p: PaperData) => {
@@ -82,44 +151,56 @@ export const getPapersFromDB = async (_userId: string): Promise<PaperData[]> =>
     });
   } catch (error) {
     console.warn("Failed to fetch papers from Server:", error);
-    return [];
+    return null;
   }
 };
 
-export const deletePaperFromDB = async (id: string) => {
+export const getPaperFromDB = async (id: string): Promise<PaperData | null> => {
   try {
-    await fetch(`/api/papers/${id}`, { method: 'DELETE' });
+    const response = await fetch(`/api/papers/${id}`);
+    if (!response.ok) return null;
+    return await response.json();
   } catch (error) {
+    console.warn("Failed to fetch paper from Server:", error);
+    return null;
+  }
+};
+
+// Moves the paper to the trash, or removes it for good when `permanent` is set.
+// Resolves to false if the server could not be reached; throws if it refused.
+export const deletePaperFromDB = async (id: string, permanent = false): Promise<boolean> => {
+  try {
+    await requestJson(`/api/papers/${id}${permanent ? '?permanent=true' : ''}`, { method: 'DELETE' });
+    return true;
+  } catch (error) {
+    // fetch rejects with a TypeError when the request never reached the server
+    if (!(error instanceof TypeError)) throw error;
     console.error("Failed to delete paper from Server:", error);
+    return false;
   }
 };
 
-export const getBannerFromServer = async (): Promise<string> => {
-    try {
-        const res = await fetch('/api/config/banner');
-        if (!res.ok) return '/banner.jpg';
-        const data = await res.json();
-        return data.banner || '/banner.jpg';
-    } catch {
-        return '/banner.jpg';
-    }
+export const getTrashFromDB = (workspaceId?: string | null): Promise<TrashListing> => {
+  const url = workspaceId ? `/api/trash?workspaceId=${encodeURIComponent(workspaceId)}` : '/api/trash';
+  return requestJson<TrashListing>(url);
 };
 
-export const saveBannerToServer = async (banner: string) => {
-    try {
-        await fetch('/api/config/banner', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ banner })
-        });
-    } catch (e) {
-        console.warn("Failed to save banner", e);
-    }
+export const restorePaperFromDB = (id: string): Promise<PaperData> =>
+  requestJson<PaperData>(`/api/papers/${id}/restore`, { method: 'POST' });
+
+export const getAnalysisRevisions = (paperId: string, field?: string): Promise<AnalysisRevision[]> => {
+  const url = field
+    ? `/api/papers/${paperId}/revisions?field=${encodeURIComponent(field)}`
+    : `/api/papers/${paperId}/revisions`;
+  return requestJson<AnalysisRevision[]>(url);
 };
 
-const blobToBase64 = (blob: Blob) => new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(blob);
-    reader.onload = () => resolve(reader.result);
-    reader.onerror = error => reject(error);
-});
+// Restores the revision's value on the server; resolves to the updated paper
+export const revertAnalysisRevision = (paperId: string, revisionId: number): Promise<PaperData> =>
+  requestJson<PaperData>(`/api/papers/${paperId}/revisions/${revisionId}/revert`, { method: 'POST' });
+
+export const searchPapersInDB = (query: string, workspaceId?: string | null, signal?: AbortSignal): Promise<SearchResult[]> => {
+  const params = new URLSearchParams({ q: query });
+  if (workspaceId) params.set('workspaceId', workspaceId);
+  return requestJson<SearchResult[]>(`/api/search?${params}`, { signal });
+};
@@ -0,0 +1,40 @@
+import { LibraryEvent } from '../types';
+
+/**
+ * Live updates for one library over server-sent events (GET /api/events).
+ * EventSource reconnects on its own and sends the last event id, so the
+ * server can replay what was missed or answer with `resync`.
+ */
+
+const EVENT_TYPES = ['paper.created', 'paper.updated', 'paper.deleted', 'analysis.status', 'resync', 'library.changed'] as const;
+
+// Returns a function that closes the stream
+export const subscribeToLibrary = (
+    workspaceId: string | null,
+    onEvent: (event: LibraryEvent) => void,
+): (() => void) => {
+    const url = workspaceId ? `/api/events?workspaceId=${encodeURIComponent(workspaceId)}` : '/api/events';
+    const source = new EventSource(url);
+
+    EVENT_TYPES.forEach(type => {
+        source.addEventListener(type, (e) => {
+            let data: any;
+            try {
+                data = JSON.parse((e as MessageEvent).data);
+            } catch {
+                console.warn(`Ignoring malformed ${type} event`);
+                return;
+            }
+            if (type === 'paper.created' || type === 'paper.updated') onEvent({ type, paper: data.paper });
+            else if (type === 'paper.deleted') onEvent({ type, id: data.id });
+            else if (type === 'analysis.status') onEvent({ type, status: data });
+            else onEvent({ type });
+        });
+    });
+
+    source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED) console.warn("Live updates stopped; they resume when the server is reachable again");
+    };
+
+    return () => source.close();
+};
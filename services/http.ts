@@ -0,0 +1,21 @@
+/**
+ * Shared request helper for the bridge services. Error responses carry
+ * `{ error }`; it becomes the message of the thrown Error.
+ */
+
+// Resolves to the parsed response body; throws on a non-2xx status
+export const requestJson = async <T = unknown>(url: string, init?: RequestInit): Promise<T> => {
+    const res = await fetch(url, init);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+        throw new Error(data.error || `Server error ${res.status}`);
+    }
+    return data as T;
+};
+
+// Request options for `method` with `body`, if any, sent as JSON
+export const jsonRequest = (method: string, body?: unknown): RequestInit => ({
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+});
@@ -0,0 +1,210 @@
+import { PaperData, QueuedMutation } from '../types';
+import { paperFileUrl } from './db';
+
+/**
+ * Offline copy of the library in IndexedDB, so papers stay readable and editable
+ * while the server is unreachable: the last loaded papers of each library, PDFs
+ * that were opened, a few per-user values (workspaces, preferences) and the queue
+ * of changes made offline, which App replays once the server is back.
+ */
+
+const DB_NAME = 'paperscope-offline';
+const DB_VERSION = 1;
+// Least recently opened PDFs are dropped beyond this
+const MAX_CACHED_FILE_BYTES = 500 * 1024 * 1024;
+const LAST_USER_KEY = 'lastUser';
+
+interface LibrarySnapshot {
+  papers: PaperData[];
+  serverCopies: PaperData[]; // Last server copy of each paper, the base for offline edits
+  savedAt: number;
+}
+
+interface CachedFile {
+  paperId: string;
+  fileHash: string;
+  blob: Blob;
+  size: number;
+  openedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('libraries'); // "<owner>|<library>" -> LibrarySnapshot
+        db.createObjectStore('meta'); // "<owner>|<name>" -> any value
+        db.createObjectStore('files', { keyPath: 'paperId' });
+        db.createObjectStore('queue', { keyPath: 'seq', autoIncrement: true }).createIndex('owner', 'owner');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs `work` in one transaction; resolves with its result once the transaction has committed
+const withStore = async <T>(name: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(name, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx.objectStore(name));
+  await committed;
+  return result;
+};
+
+const libraryKey = (owner: string, workspaceId?: string | null) => `${owner}|${workspaceId || 'personal'}`;
+
+// --- Library snapshots ---
+
+// Papers still waiting for their first upload keep the PDF Blob; the others only
+// keep the server URL, so the snapshot stays small
+export const saveLibrarySnapshot = async (owner: string, workspaceId: string | null, papers: PaperData[], serverCopies: PaperData[]) => {
+  const stored = papers.map(({ uploadProgress, ...p }): PaperData => (
+    typeof p.file !== 'string' && p.saveStatus !== 'queued' ? { ...p, file: paperFileUrl(p.id, p.fileHash) } : p
+  ));
+  const snapshot: LibrarySnapshot = { papers: stored, serverCopies, savedAt: Date.now() };
+  try {
+    await withStore('libraries', 'readwrite', store => promisify(store.put(snapshot, libraryKey(owner, workspaceId))));
+  } catch (e) {
+    console.warn("Could not save the offline copy of the library:", e);
+  }
+};
+
+export const loadLibrarySnapshot = async (owner: string, workspaceId: string | null): Promise<LibrarySnapshot | null> => {
+  try {
+    const snapshot = await withStore('libraries', 'readonly', store => promisify(store.get(libraryKey(owner, workspaceId))));
+    return (snapshot as LibrarySnapshot | undefined) || null;
+  } catch (e) {
+    console.warn("Could not read the offline copy of the library:", e);
+    return null;
+  }
+};
+
+// --- Per-user values ---
+
+export const saveOfflineValue = async (owner: string, name: string, value: unknown) => {
+  try {
+    await withStore('meta', 'readwrite', store => promisify(store.put(value, `${owner}|${name}`)));
+  } catch (e) {
+    console.warn(`Could not save offline ${name}:`, e);
+  }
+};
+
+export const loadOfflineValue = async <T>(owner: string, name: string): Promise<T | null> => {
+  try {
+    const value = await withStore('meta', 'readonly', store => promisify(store.get(`${owner}|${name}`)));
+    return (value as T | undefined) ?? null;
+  } catch (e) {
+    console.warn(`Could not read offline ${name}:`, e);
+    return null;
+  }
+};
+
+// The account whose library is shown when the session cannot be checked offline
+export const rememberLastUser = (username: string) => saveOfflineValue('', LAST_USER_KEY, username);
+export const getLastUser = () => loadOfflineValue<string>('', LAST_USER_KEY);
+
+// --- PDFs ---
+
+// The cached copy only counts if it has the content the server has now
+export const getCachedPaperFile = async (paperId: string, fileHash?: string): Promise<Blob | null> => {
+  if (!fileHash) return null;
+  try {
+    return await withStore('files', 'readwrite', async store => {
+      const cached = await promisify(store.get(paperId)) as CachedFile | undefined;
+      if (!cached || cached.fileHash !== fileHash) return null;
+      store.put({ ...cached, openedAt: Date.now() });
+      return cached.blob;
+    });
+  } catch (e) {
+    console.warn("Could not read a cached PDF:", e);
+    return null;
+  }
+};
+
+// Downloads the whole file so the paper can be read offline later. Only done when the
+// user asks for it; resolves to whether a current copy is stored.
+export const cacheRemotePaperFile = async (paperId: string, fileHash: string | undefined, url: string, signal?: AbortSignal): Promise<boolean> => {
+  if (!fileHash) return false;
+  if (await getCachedPaperFile(paperId, fileHash)) return true;
+  try {
+    const res = await fetch(url, { signal });
+    if (!res.ok) return false;
+    const blob = await res.blob();
+    await withStore('files', 'readwrite', async store => {
+      store.put({ paperId, fileHash, blob, size: blob.size, openedAt: Date.now() } as CachedFile);
+      const files = await promisify(store.getAll()) as CachedFile[];
+      let total = files.reduce((sum, f) => sum + f.size, 0);
+      for (const file of files.sort((a, b) => a.openedAt - b.openedAt)) {
+        if (total <= MAX_CACHED_FILE_BYTES || file.paperId === paperId) continue;
+        store.delete(file.paperId);
+        total -= file.size;
+      }
+    });
+    return true;
+  } catch (e) {
+    if (!signal?.aborted) console.warn("Could not cache the PDF for offline reading:", e);
+    return false;
+  }
+};
+
+// --- Mutation queue ---
+
+// Throws if the change could not be stored; callers must not pretend it was kept
+export const queueMutation = (entry: QueuedMutation): Promise<number> =>
+  withStore('queue', 'readwrite', store => promisify(store.add(entry)) as Promise<number>);
+
+// Oldest first
+export const getQueuedMutations = async (owner: string): Promise<QueuedMutation[]> => {
+  try {
+    const entries = await withStore('queue', 'readonly', store => promisify(store.index('owner').getAll(owner)));
+    return (entries as QueuedMutation[]).sort((a, b) => a.seq! - b.seq!);
+  } catch (e) {
+    console.warn("Could not read the offline change queue:", e);
+    return [];
+  }
+};
+
+export const removeQueuedMutation = (seq: number) =>
+  withStore('queue', 'readwrite', store => promisify(store.delete(seq)));
+
+// For papers deleted before they ever reached the server
+export const dropQueuedMutationsForPaper = async (owner: string, paperId: string) => {
+  const entries = await getQueuedMutations(owner);
+  await withStore('queue', 'readwrite', async store => {
+    entries.filter(e => e.paperId === paperId).forEach(e => store.delete(e.seq!));
+  });
+};
+
+// Removes everything kept for `owner` (on logout); cached PDFs are shared by paper id and dropped too
+export const clearOfflineData = async (owner: string) => {
+  try {
+    const ownPrefix = IDBKeyRange.bound(`${owner}|`, `${owner}|\uffff`);
+    const entries = await getQueuedMutations(owner);
+    await withStore('libraries', 'readwrite', async store => { store.delete(ownPrefix); });
+    await withStore('meta', 'readwrite', async store => {
+      store.delete(ownPrefix);
+      store.delete(`|${LAST_USER_KEY}`);
+    });
+    await withStore('files', 'readwrite', async store => { store.clear(); });
+    await withStore('queue', 'readwrite', async store => { entries.forEach(e => store.delete(e.seq!)); });
+  } catch (e) {
+    console.warn("Could not clear the offline copy:", e);
+  }
+};
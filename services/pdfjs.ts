@@ -0,0 +1,9 @@
+import { pdfjs } from 'react-pdf';
+
+// Set up the worker for PDF.js once for the viewer and thumbnail rendering
+pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.mjs',
+  import.meta.url
+).toString();
+
+export { pdfjs };
@@ -0,0 +1,20 @@
+import { PreferencesUpdate, UserPreferences } from '../types';
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Bridge service for the signed-in user's preferences (LLM settings, table
+ * layout, banner). The saved API key is write-only: responses only report
+ * whether one is stored.
+ */
+
+export const getPreferences = async (): Promise<UserPreferences | null> => {
+    try {
+        return await requestJson<UserPreferences>('/api/preferences');
+    } catch (e) {
+        console.warn("Failed to fetch preferences:", e);
+        return null;
+    }
+};
+
+export const savePreferences = (update: PreferencesUpdate): Promise<UserPreferences> =>
+    requestJson<UserPreferences>('/api/preferences', jsonRequest('PATCH', update));
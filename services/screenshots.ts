@@ -0,0 +1,29 @@
+import { Screenshot } from '../types';
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Screenshots of a paper. Images are uploaded as raw bytes and stored as
+ * files by the server; captions and order are edited through their own calls.
+ */
+
+const screenshotsUrl = (paperId: string) => `/api/papers/${paperId}/screenshots`;
+
+export const uploadScreenshot = (paperId: string, image: File, caption?: string): Promise<Screenshot> => {
+    const query = caption ? `?caption=${encodeURIComponent(caption)}` : '';
+    return requestJson<Screenshot>(`${screenshotsUrl(paperId)}${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': image.type },
+        body: image,
+    });
+};
+
+export const updateScreenshotCaption = (paperId: string, screenshotId: string, caption: string): Promise<Screenshot> =>
+    requestJson<Screenshot>(`${screenshotsUrl(paperId)}/${screenshotId}`, jsonRequest('PATCH', { caption }));
+
+// `ids` lists every screenshot of the paper in the new order
+export const reorderScreenshots = (paperId: string, ids: string[]): Promise<Screenshot[]> =>
+    requestJson<Screenshot[]>(`${screenshotsUrl(paperId)}/order`, jsonRequest('PUT', { ids }));
+
+export const deleteScreenshot = async (paperId: string, screenshotId: string): Promise<void> => {
+    await requestJson(`${screenshotsUrl(paperId)}/${screenshotId}`, { method: 'DELETE' });
+};
@@ -0,0 +1,20 @@
+import { StorageStats } from '../types';
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Bridge service for storage usage and per-user quotas
+ */
+
+export const getStorageStats = (): Promise<StorageStats> => requestJson<StorageStats>('/api/stats');
+
+// Admin only. quotaBytes: 0 = unlimited, null = server default
+export const setUserQuota = async (username: string, quotaBytes: number | null): Promise<void> => {
+    await requestJson(`/api/admin/quotas/${encodeURIComponent(username)}`, jsonRequest('PUT', { quotaBytes }));
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
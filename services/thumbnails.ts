@@ -0,0 +1,50 @@
+import { pdfjs } from './pdfjs';
+import { requestJson } from './http';
+
+/**
+ * First-page thumbnails. They are rendered in the browser with pdf.js (the
+ * server has no canvas) and stored through PUT /api/papers/:id/thumbnail.
+ */
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_QUALITY = 0.8;
+
+// `source` is a local file or the URL of a stored PDF; for URLs only the byte
+// ranges page 1 needs are downloaded
+export const renderPdfThumbnail = async (source: Blob | string): Promise<Blob> => {
+    const task = typeof source === 'string'
+        ? pdfjs.getDocument({ url: source, disableAutoFetch: true, disableStream: true })
+        : pdfjs.getDocument({ data: new Uint8Array(await source.arrayBuffer()) });
+    const doc = await task.promise;
+
+    try {
+        const page = await doc.getPage(1);
+        const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error('Canvas is not available');
+
+        // JPEG has no transparency; pages without a background would turn black
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: context, viewport }).promise;
+
+        return await new Promise<Blob>((resolve, reject) => {
+            canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode thumbnail'))), 'image/jpeg', THUMBNAIL_QUALITY);
+        });
+    } finally {
+        await doc.destroy();
+    }
+};
+
+// Resolves to the thumbnail URL to show for the paper
+export const uploadThumbnail = async (paperId: string, image: Blob): Promise<string> => {
+    const data = await requestJson<{ thumbnail: string }>(`/api/papers/${paperId}/thumbnail`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'image/jpeg' },
+        body: image,
+    });
+    return data.thumbnail;
+};
@@ -0,0 +1,16 @@
+import { ApiToken, ApiTokenList } from '../types';
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Bridge service for personal API tokens. A new token's secret is only
+ * returned by createApiToken; listings show its prefix.
+ */
+
+export const listApiTokens = (): Promise<ApiTokenList> => requestJson<ApiTokenList>('/api/tokens');
+
+export const createApiToken = (name: string, scopes: string[], expiresInDays?: number): Promise<ApiToken> =>
+    requestJson<ApiToken>('/api/tokens', jsonRequest('POST', { name, scopes, expiresInDays }));
+
+export const revokeApiToken = async (id: string): Promise<void> => {
+    await requestJson(`/api/tokens/${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
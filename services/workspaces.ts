@@ -0,0 +1,35 @@
+import { Workspace, WorkspaceRole } from '../types';
+import { jsonRequest, requestJson } from './http';
+
+/**
+ * Bridge service for shared team workspaces
+ */
+
+export const getWorkspaces = async (): Promise<Workspace[]> => {
+    try {
+        return await requestJson<Workspace[]>('/api/workspaces');
+    } catch (e) {
+        console.warn("Failed to fetch workspaces:", e);
+        return [];
+    }
+};
+
+export const createWorkspace = (name: string): Promise<Workspace> =>
+    requestJson<Workspace>('/api/workspaces', jsonRequest('POST', { name }));
+
+export const renameWorkspace = (id: string, name: string): Promise<Workspace> =>
+    requestJson<Workspace>(`/api/workspaces/${id}`, jsonRequest('PATCH', { name }));
+
+export const deleteWorkspace = async (id: string) => {
+    await requestJson(`/api/workspaces/${id}`, { method: 'DELETE' });
+};
+
+export const addWorkspaceMember = (id: string, username: string, role: WorkspaceRole): Promise<Workspace> =>
+    requestJson<Workspace>(`/api/workspaces/${id}/members`, jsonRequest('POST', { username, role }));
+
+export const updateWorkspaceMember = (id: string, username: string, role: WorkspaceRole): Promise<Workspace> =>
+    requestJson<Workspace>(`/api/workspaces/${id}/members/${encodeURIComponent(username)}`, jsonRequest('PATCH', { role }));
+
+export const removeWorkspaceMember = async (id: string, username: string) => {
+    await requestJson(`/api/workspaces/${id}/members/${encodeURIComponent(username)}`, { method: 'DELETE' });
+};
@@ -40,27 +40,181 @@ export interface Highlight {
   comment?: string; // Added for notes/annotations
 }
 
+// Stored image; the bytes are served from `url`, never kept in the paper record
+export interface Screenshot {
+  id: string;
+  url: string;
+  caption?: string;
+}
+
 export interface PaperData {
   id: string;
   userId?: string; 
+  workspaceId?: string; // Set when the paper belongs to a shared workspace
   file: File | Blob | string;
   fileName: string;
   fileSize: number;
   uploadTime: number;
   status: 'idle' | 'analyzing' | 'success' | 'error';
-  // New field to track database persistence status
-  saveStatus?: 'saving' | 'saved' | 'error';
+  // New field to track database persistence status ('queued' = kept offline until the server is back)
+  saveStatus?: 'saving' | 'saved' | 'error' | 'queued';
+  uploadProgress?: number; // UI-only: 0-100 while the PDF is being uploaded
+  saveError?: string; // UI-only: why the last save failed (e.g. storage quota)
   analysis: AnalysisResult | null;
   errorMessage?: string;
+  fileHash?: string; // SHA-256 of the stored PDF, computed by the server
+  thumbnail?: string; // URL of the first-page thumbnail, once one has been stored
+  jobState?: AnalysisJobState; // Server analysis job, while one is active
+  deletedAt?: number; // Set while the paper is in the trash
+  version?: number; // Server revision, bumped on every save
   tags: string[]; 
-  screenshots: string[]; 
+  screenshots: Screenshot[]; 
   highlights?: Highlight[]; 
 }
 
+// PATCH /api/papers/:id body. The server merges `analysis` key by key, so it only
+// carries the changed keys; null removes one.
+export type AnalysisChanges = { [K in keyof AnalysisResult]?: AnalysisResult[K] | null };
+export type PaperChanges = Omit<Partial<PaperData>, 'analysis'> & { analysis?: AnalysisChanges };
+
+export type AnalysisJobState = 'queued' | 'running';
+
+// Row returned by GET /api/papers/status
+export interface PaperStatus {
+  id: string;
+  status: PaperData['status'];
+  errorMessage?: string;
+  jobState?: AnalysisJobState;
+}
+
+// Pushed over GET /api/events to every open client of a library. `resync` and
+// `library.changed` mean events may have been missed and the list should be reloaded.
+export type LibraryEvent =
+  | { type: 'paper.created' | 'paper.updated'; paper: PaperData }
+  | { type: 'paper.deleted'; id: string }
+  | { type: 'analysis.status'; status: PaperStatus & { version: number } }
+  | { type: 'resync' | 'library.changed' };
+
+// A change made while the server was unreachable. Kept in IndexedDB and replayed
+// in order once /api/health answers again (see services/offline).
+// `base` holds the values the patched fields had when the change was made.
+export type OfflineMutation =
+  | { kind: 'create'; paper: PaperData } // `paper.file` is the PDF Blob
+  | { kind: 'patch'; changes: PaperChanges; base: Partial<PaperData>; baseVersion?: number }
+  | { kind: 'delete'; permanent: boolean };
+
+export interface QueuedMutation {
+  seq?: number; // Assigned by IndexedDB; replay order
+  owner: string;
+  paperId: string;
+  fileName: string;
+  queuedAt: number;
+  mutation: OfflineMutation;
+}
+
+// Reported after a replay. 'overwritten': the offline edit replaced fields someone else
+// changed in the meantime; 'rejected': the server refused the change (deleted paper, quota, ...)
+export interface SyncConflict {
+  paperId: string;
+  fileName: string;
+  kind: 'overwritten' | 'rejected';
+  fields?: string[];
+  message?: string;
+}
+
+// Summary row returned by GET /api/trash
+export interface TrashedPaper {
+  id: string;
+  fileName: string;
+  title?: string;
+  tags: string[];
+  highlightCount: number;
+  screenshotCount: number;
+  deletedAt: number;
+}
+
+export interface TrashListing {
+  retentionDays: number;
+  papers: TrashedPaper[];
+}
+
+// How POST /api/backup/import treats papers whose id already exists
+export type BackupImportMode = 'skip' | 'overwrite' | 'keep-both';
+
+export interface BackupImportSummary {
+  imported: number;
+  overwritten: number;
+  keptBoth: number;
+  skipped: number;
+  failed: number;
+}
+
+// Existing paper in the same library whose PDF has identical content
+export interface DuplicatePaper {
+  id: string;
+  fileName: string;
+  title?: string;
+  uploadTime: number;
+}
+
+export interface UploadResult {
+  size: number;
+  fileHash: string;
+  duplicates: DuplicatePaper[];
+}
+
+// One recorded value of an AnalysisResult field. 'unknown' is the value a field had
+// before its first recorded change.
+export type RevisionSource = 'ai' | 'human' | 'unknown';
+
+export interface AnalysisRevision {
+  id: number;
+  paperId: string;
+  field: string;
+  value: string;
+  source: RevisionSource;
+  author?: string;
+  model?: string;      // Set for AI revisions
+  revertedFrom?: number; // Revision this one restored
+  createdAt: number;
+}
+
+// One match from GET /api/search. `field` is an AnalysisResult key, 'fileName', 'tag',
+// 'highlight', 'comment' or 'pdf'; `page` is set for highlights, comments and PDF text.
+// Matched terms in `snippet` are wrapped in \u0002 … \u0003.
+export interface SearchHit {
+  field: string;
+  page?: number;
+  snippet: string;
+}
+
+export interface SearchResult {
+  paperId: string;
+  fileName: string;
+  title?: string;
+  hits: SearchHit[];
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface WorkspaceMember {
+  username: string;
+  role: WorkspaceRole;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: number;
+  role: WorkspaceRole; // Role of the current user
+  members: WorkspaceMember[];
+}
+
 export interface LLMSettings {
   useExternal: boolean;
   baseUrl: string;
-  apiKey: string;
+  apiKey: string; // Only set while a newly typed key is being saved
+  hasApiKey?: boolean; // A key is stored (encrypted) on the server; it is never sent back
   model: string;
   temperature: number;
   maxContextWindow: number;
@@ -77,6 +231,78 @@ export const DEFAULT_SETTINGS: LLMSettings = {
   timeout: 600
 };
 
+export type ViewMode = 'table' | 'gallery';
+
+// Table layout kept in the user's preferences
+export interface UiPreferences {
+  columnWidths?: Record<string, number>;
+  hiddenColumns?: string[];
+  activeTab?: string;
+  pageSize?: number;
+  viewMode?: ViewMode;
+}
+
+// GET /api/preferences
+export interface UserPreferences {
+  llm: Partial<LLMSettings>;
+  ui: UiPreferences;
+  banner: string;
+}
+
+// PATCH /api/preferences: apiKey '' removes the saved key, banner null restores the default
+export interface PreferencesUpdate {
+  llm?: Partial<LLMSettings>;
+  ui?: UiPreferences;
+  banner?: string | null;
+}
+
+// Storage counted against one user (or the whole server) by GET /api/stats
+export interface StorageUsage {
+  papers: number;
+  trashedPapers: number;
+  pdfBytes: number;
+  screenshotBytes: number;
+  analyses: number;
+  usedBytes: number;
+}
+
+export interface UserStorage extends StorageUsage {
+  username: string;
+  quotaBytes: number | null; // null = server default
+  effectiveQuotaBytes?: number | null; // null = unlimited
+}
+
+// GET /api/stats; users, total and defaultQuotaBytes are only sent to admins
+export interface StorageStats {
+  user: StorageUsage & { username: string; quotaBytes: number | null };
+  isAdmin: boolean;
+  defaultQuotaBytes?: number | null;
+  users?: UserStorage[];
+  total?: StorageUsage & {
+    users: number;
+    // uploads is null when the PDF storage could not be listed
+    disk: { uploads: number | null; screenshots: number; thumbnails: number; database: number };
+    storageBackend: 'fs' | 's3';
+  };
+}
+
+// Personal API token as listed by GET /api/tokens; `token` is only present right after creation
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the token, to tell tokens apart
+  scopes: string[];
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+  token?: string;
+}
+
+export interface ApiTokenList {
+  scopes: Record<string, string>; // scope -> description
+  tokens: ApiToken[];
+}
+
 export enum AnalysisColumn {
   TAGS = 'Tags',
   FILE = 'File',